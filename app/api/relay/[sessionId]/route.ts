@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RelayEvent } from '@/types/soniox';
+import { MAX_RELAY_CHUNK_BYTES, RelayError, getRelaySessionManager } from '@/utils/sonioxRelay';
+
+/**
+ * API Route: Relay Session
+ *
+ * - GET:    results as Server-Sent Events (one `data:` JSON RelayEvent per message)
+ * - POST:   audio chunk (binary body), or JSON control message { type: 'finalize' | 'stop' | 'keepalive' }
+ * - DELETE: cancel the session
+ *
+ * The session id is an unguessable token returned to the authenticated
+ * client by POST /api/relay.
+ */
+
+export const dynamic = 'force-dynamic';
+
+// Comment lines keep idle proxies from closing the event stream
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+interface RouteContext {
+  params: { sessionId: string };
+}
+
+const notFound = () => NextResponse.json({ error: 'Relay session not found or ended' }, { status: 404 });
+
+/**
+ * Read the request body, or return null as soon as it exceeds maxBytes
+ * (checked against Content-Length first, then counted while streaming)
+ */
+async function readBodyWithLimit(request: Request, maxBytes: number): Promise<ArrayBuffer | null> {
+  if (Number(request.headers.get('content-length')) > maxBytes) {
+    return null;
+  }
+  if (!request.body) {
+    return new ArrayBuffer(0);
+  }
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body.buffer;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const session = getRelaySessionManager().get(params.sessionId);
+  if (!session) {
+    return notFound();
+  }
+
+  const encoder = new TextEncoder();
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+  let unsubscribe: (() => void) | null = null;
+  let isOpen = true;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const close = () => {
+        if (!isOpen) return;
+        isOpen = false;
+        if (heartbeat) clearInterval(heartbeat);
+        unsubscribe?.();
+        controller.close();
+      };
+
+      heartbeat = setInterval(() => {
+        if (isOpen) controller.enqueue(encoder.encode(': keepalive\n\n'));
+      }, HEARTBEAT_INTERVAL_MS);
+
+      unsubscribe = session.subscribe((event: RelayEvent) => {
+        if (!isOpen) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        if (event.type === 'finished' || event.type === 'error') {
+          close();
+        }
+      });
+    },
+    cancel() {
+      // Browser disconnected (EventSource may reconnect)
+      isOpen = false;
+      if (heartbeat) clearInterval(heartbeat);
+      unsubscribe?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-store, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const session = getRelaySessionManager().get(params.sessionId);
+  if (!session) {
+    return notFound();
+  }
+
+  try {
+    const body = await readBodyWithLimit(request, MAX_RELAY_CHUNK_BYTES);
+    if (!body) {
+      return NextResponse.json({ error: 'Request body too large' }, { status: 413 });
+    }
+
+    if (request.headers.get('content-type')?.includes('application/json')) {
+      let message: { type?: unknown } | null = null;
+      try {
+        message = JSON.parse(new TextDecoder().decode(body));
+      } catch {
+        // Invalid JSON is rejected below
+      }
+      if (message?.type !== 'finalize' && message?.type !== 'stop' && message?.type !== 'keepalive') {
+        return NextResponse.json({ error: 'Unknown control message' }, { status: 400 });
+      }
+      session.control({ type: message.type });
+    } else {
+      session.sendAudio(body);
+    }
+    return new Response(null, { status: 204 });
+
+  } catch (error) {
+    if (error instanceof RelayError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in relay session API route:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  getRelaySessionManager().get(params.sessionId)?.cancel();
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkApiAccess } from '@/utils/apiAccess';
+import {
+  RelayError,
+  getRelayConfig,
+  getRelaySessionManager,
+  parseRelaySessionConfig,
+} from '@/utils/sonioxRelay';
+
+/**
+ * API Route: Create a Relay Session
+ *
+ * Opens a Soniox session on the server for browsers using the relay transport.
+ * The body holds the transcription settings (model, translation, language hints, ...).
+ * The response names the session:
+ * - GET    /api/relay/{sessionId}  results as Server-Sent Events
+ * - POST   /api/relay/{sessionId}  audio chunk, or JSON control message (finalize, stop, keepalive)
+ * - DELETE /api/relay/{sessionId}  cancel
+ *
+ * Same access control and limits as /api/soniox-temp-key (see utils/apiAccess.ts).
+ * Set SONIOX_WEBSOCKET_URL to point at a local fake upstream for testing.
+ */
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const access = await checkApiAccess(request);
+    if (!access.ok) {
+      return access.response;
+    }
+
+    const relayConfig = getRelayConfig();
+    if (!relayConfig) {
+      console.error('SONIOX_SECRET_KEY not configured in environment variables');
+      return NextResponse.json(
+        { error: 'Server configuration error: API key not configured' },
+        { status: 500 }
+      );
+    }
+
+    const config = parseRelaySessionConfig(await request.json().catch(() => null));
+    if (!config) {
+      return NextResponse.json({ error: 'Invalid session settings' }, { status: 400 });
+    }
+
+    const session = getRelaySessionManager().create(config, relayConfig, access.clientId);
+    return NextResponse.json({ sessionId: session.id }, {
+      status: 201,
+      headers: { 'Cache-Control': 'no-store' },
+    });
+
+  } catch (error) {
+    if (error instanceof RelayError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in relay API route:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
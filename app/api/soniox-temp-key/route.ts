@@ -1,28 +1,63 @@
 import { NextRequest, NextResponse } from 'next/server';
+import {
+  TemporaryKeyCache,
+  TemporaryKeyConfig,
+  TemporaryKeyError,
+  getTemporaryKeyConfig,
+} from '@/utils/temporaryKeys';
+import { checkApiAccess } from '@/utils/apiAccess';
 
 /**
  * API Route: Generate Temporary Soniox API Key
- * 
- * This endpoint generates a temporary API key for the client to use with Soniox.
+ *
+ * Returns a short-lived temporary key for the client to use with Soniox.
  * The permanent API key is kept secure on the server and never exposed to the client.
- * 
+ *
  * Temporary keys:
- * - Are scoped to a single session
- * - Have limited lifetime
- * - Protect the permanent key from exposure
- * 
+ * - Are minted by the Soniox API and only valid for WebSocket transcription
+ * - Expire after a few minutes (expiresAt in the response)
+ * - Are cached server-side and refreshed before they expire
+ *
+ * Access control (see utils/apiAccess.ts):
+ * - Authentication mode from TEMP_KEY_AUTH_MODE (401 when it fails)
+ * - Per-user/per-IP rate limit and daily usage caps (429 with Retry-After)
+ *
+ * Set SONIOX_API_ENDPOINT to point at a local mock of the Soniox API for testing.
+ *
  * Reference: https://soniox.com/docs/websocket-api
- * 
- * NOTE: This implementation will be verified/updated in Phase 1 when we integrate
- * the actual Soniox SDK. The SDK's apiKey function may handle key management differently.
  */
 
+// Always run per request (keys must never be statically cached)
+export const dynamic = 'force-dynamic';
+
+// One cache per server process (recreated when the configuration changes)
+let keyCache: TemporaryKeyCache | null = null;
+let keyCacheConfig: TemporaryKeyConfig | null = null;
+
+function getKeyCache(config: TemporaryKeyConfig): TemporaryKeyCache {
+  if (
+    !keyCache ||
+    !keyCacheConfig ||
+    keyCacheConfig.secretKey !== config.secretKey ||
+    keyCacheConfig.endpoint !== config.endpoint ||
+    keyCacheConfig.ttlSeconds !== config.ttlSeconds
+  ) {
+    keyCache = new TemporaryKeyCache(config);
+    keyCacheConfig = config;
+  }
+  return keyCache;
+}
+
 export async function POST(request: NextRequest) {
   try {
-    // Get the permanent Soniox API key from environment variables
-    const permanentApiKey = process.env.SONIOX_SECRET_KEY;
+    const access = await checkApiAccess(request);
+    if (!access.ok) {
+      return access.response;
+    }
+
+    const config = getTemporaryKeyConfig();
 
-    if (!permanentApiKey) {
+    if (!config) {
       console.error('SONIOX_SECRET_KEY not configured in environment variables');
       return NextResponse.json(
         { error: 'Server configuration error: API key not configured' },
@@ -30,36 +65,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // TEMPORARY IMPLEMENTATION for Phase 0:
-    // In many cases with Soniox SDK, the client may use the permanent key directly
-    // via a server proxy that validates requests. We'll refine this in Phase 1
-    // when we review the actual @soniox/speech-to-text-web SDK documentation.
-    
-    // For now, this route serves as a placeholder that will be updated once we
-    // understand the exact authentication flow required by Soniox.
-    
-    // Option 1: If Soniox has a temporary key API endpoint
-    // const sonioxApiEndpoint = process.env.SONIOX_API_ENDPOINT || 'https://api.soniox.com';
-    // const response = await fetch(`${sonioxApiEndpoint}/create-temporary-key`, {
-    //   method: 'POST',
-    //   headers: {
-    //     'Content-Type': 'application/json',
-    //     'Authorization': `Bearer ${permanentApiKey}`,
-    //   },
-    // });
-    
-    // Option 2: If the SDK uses a function-based key provider (as mentioned in docs)
-    // The SDK may call this endpoint and we return the permanent key securely
-    
-    // For Phase 0, we'll return the permanent key via this secure endpoint
-    // This keeps it server-side only and away from client code
-    return NextResponse.json({
-      apiKey: permanentApiKey,
-      // We'll add proper expiration handling in Phase 1
-      note: 'Phase 0 implementation - to be refined in Phase 1',
+    const key = await getKeyCache(config).getKey();
+    return NextResponse.json(key, {
+      headers: { 'Cache-Control': 'no-store' },
     });
 
   } catch (error) {
+    if (error instanceof TemporaryKeyError) {
+      console.error('Temporary key error:', error.message);
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error in soniox-temp-key API route:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -75,4 +90,3 @@ export async function GET() {
     usage: 'POST /api/soniox-temp-key',
   });
 }
-
@@ -3,7 +3,7 @@ import './globals.css';
 
 export const metadata: Metadata = {
   title: 'TransLang - Real-Time Speech Translation',
-  description: 'Real-time German to English speech translation powered by Soniox',
+  description: 'Real-time speech translation powered by Soniox',
 };
 
 export default function RootLayout({
@@ -1,12 +1,16 @@
 import React from 'react';
+import { formatSpeakerName } from '@/utils/speakerRegistry';
 
 export interface ChatMessageModel {
   id: string;
   speaker?: string;
+  speakerName?: string;
+  speakerColor?: string;
   text: string;
   timestamp: number;
   isLive?: boolean;
   startsGroup?: boolean;
+  isGap?: boolean; // Interruption marker instead of a message
 }
 
 interface ChatMessageProps {
@@ -14,13 +18,23 @@ interface ChatMessageProps {
 }
 
 export function ChatMessage({ msg }: ChatMessageProps) {
+  if (msg.isGap) {
+    return (
+      <div style={styles.gap}>
+        <span style={styles.gapLine} />
+        <span style={styles.gapText}>⚠️ {msg.text}</span>
+        <span style={styles.gapLine} />
+      </div>
+    );
+  }
+
   const timeText = new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   return (
     <div style={styles.container}>
       {msg.startsGroup && (
         <div style={styles.header}>
           <span style={styles.speakerIcon}>👤</span>
-          <span style={styles.speakerLabel}>Speaker {msg.speaker || 'unknown'}</span>
+          <span style={{ ...styles.speakerLabel, color: msg.speakerColor }}>{formatSpeakerName(msg.speaker, msg.speakerName)}</span>
         </div>
       )}
       <div style={{...styles.bubble, ...(msg.isLive ? styles.live : {})}}>
@@ -70,6 +84,22 @@ const styles = {
     color: 'var(--text-secondary)',
     animation: 'blink 1s infinite',
   },
+  gap: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.5rem',
+    margin: '0.5rem 0',
+  },
+  gapLine: {
+    flex: 1,
+    borderTop: '1px dashed #f59e0b',
+  },
+  gapText: {
+    color: '#b45309',
+    fontSize: '0.75rem',
+    fontWeight: 600 as const,
+    whiteSpace: 'nowrap' as const,
+  },
   bubbleTime: {
     color: 'var(--text-tertiary)',
     fontSize: '0.75rem',
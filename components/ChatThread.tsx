@@ -1,6 +1,26 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { TranscriptLine } from '@/hooks/useTranslator';
+import { DEFAULT_GROUPING_WINDOW_MS, startsSpeakerGroup } from '@/utils/speakerGroups';
+import {
+  TranscriptFilter,
+  LiveLineInfo,
+  filterLines,
+  getFilterOptions,
+  isFilterActive,
+  matchesFilter,
+  resolveLiveLineInfo,
+} from '@/utils/transcriptFilter';
 import { ChatMessage, ChatMessageModel } from './ChatMessage';
+import { TranscriptFilterBar } from './TranscriptFilterBar';
+
+/**
+ * A side-by-side column showing translations into one language
+ * (e.g., one direction of a two-way conversation)
+ */
+export interface ChatColumn {
+  language: string; // Target language of the lines shown in this column
+  label: string;
+}
 
 interface ChatThreadProps {
   committed: TranscriptLine[];
@@ -8,49 +28,103 @@ interface ChatThreadProps {
   isRecording: boolean;
   groupingWindowMs?: number; // default 4000
   smoothScroll?: boolean; // immediate vs smooth
+  columns?: ChatColumn[]; // split view by language (single list when omitted)
+  liveTextByLanguage?: Record<string, string>; // live text per column language
+  filter?: TranscriptFilter; // Controlled filter (internal state when omitted)
+  onFilterChange?: (filter: TranscriptFilter) => void;
+  liveInfo?: LiveLineInfo; // Speaker/language of the live text (for filtering)
 }
 
-export function ChatThread({ committed, liveText, isRecording, groupingWindowMs = 4000, smoothScroll = true }: ChatThreadProps) {
-  const containerRef = useRef<HTMLDivElement>(null);
-  const isUserScrollingRef = useRef(false);
-  const lastUserScrollAtRef = useRef(0);
-  const [showJump, setShowJump] = useState(false);
-  const [hasUnread, setHasUnread] = useState(false);
-
-  // Build chat message list with grouping markers
-  const messages: ChatMessageModel[] = useMemo(() => {
-    const out: ChatMessageModel[] = [];
-    let lastSpeaker: string | undefined;
-    let lastTime = 0;
+/**
+ * Build chat message list with grouping markers
+ */
+function buildMessages(lines: TranscriptLine[], liveText: string, groupingWindowMs: number): ChatMessageModel[] {
+  const out: ChatMessageModel[] = [];
+  let previous: TranscriptLine | undefined;
 
-    for (const line of committed) {
-      const startsGroup = line.speaker !== lastSpeaker || (line.timestamp - lastTime) > groupingWindowMs;
+  for (const line of lines) {
+    if (line.isGap) {
+      out.push({ id: line.id, text: line.text, timestamp: line.timestamp, isGap: true });
+    } else {
       out.push({
         id: line.id,
         speaker: line.speaker,
+        speakerName: line.speakerName,
+        speakerColor: line.speakerColor,
         text: line.text,
         timestamp: line.timestamp,
-        startsGroup,
+        startsGroup: startsSpeakerGroup(line, previous, groupingWindowMs),
       });
-      lastSpeaker = line.speaker;
-      lastTime = line.timestamp;
     }
+    previous = line; // A gap makes the next message start a new group
+  }
 
-    if (liveText) {
-      const now = Date.now();
-      const last = out[out.length - 1];
-      out.push({
-        id: `live-${now}`,
-        speaker: last?.speaker,
-        text: liveText,
-        timestamp: now,
-        isLive: true,
-        startsGroup: false,
-      });
-    }
+  if (liveText) {
+    const now = Date.now();
+    const last = out[out.length - 1];
+    out.push({
+      id: `live-${now}`,
+      speaker: last?.speaker,
+      speakerName: last?.speakerName,
+      speakerColor: last?.speakerColor,
+      text: liveText,
+      timestamp: now,
+      isLive: true,
+      startsGroup: false,
+    });
+  }
+
+  return out;
+}
+
+export function ChatThread({
+  committed,
+  liveText,
+  isRecording,
+  groupingWindowMs = DEFAULT_GROUPING_WINDOW_MS,
+  smoothScroll = true,
+  columns,
+  liveTextByLanguage = {},
+  filter,
+  onFilterChange,
+  liveInfo,
+}: ChatThreadProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [localFilter, setLocalFilter] = useState<TranscriptFilter>({});
+  const activeFilter = filter ?? localFilter;
+  const changeFilter = onFilterChange ?? setLocalFilter;
+  const isUserScrollingRef = useRef(false);
+  const lastUserScrollAtRef = useRef(0);
+  const [showJump, setShowJump] = useState(false);
+  const [hasUnread, setHasUnread] = useState(false);
 
-    return out;
-  }, [committed, liveText, groupingWindowMs]);
+  // Focus on one speaker/language; the live text stays only if it matches
+  const filterOptions = useMemo(() => getFilterOptions(committed), [committed]);
+  const visibleLines = useMemo(() => filterLines(committed, activeFilter), [committed, activeFilter]);
+  const showLive = !isFilterActive(activeFilter) || matchesFilter(resolveLiveLineInfo(liveInfo, committed), activeFilter);
+
+  // Single list (default)
+  const messages: ChatMessageModel[] = useMemo(
+    () => (columns ? [] : buildMessages(visibleLines, showLive ? liveText : '', groupingWindowMs)),
+    [columns, visibleLines, showLive, liveText, groupingWindowMs]
+  );
+
+  // Split view: one message list per language column
+  const columnMessages = useMemo(() => {
+    if (!columns) return [];
+    return columns.map(column => ({
+      column,
+      messages: buildMessages(
+        visibleLines.filter(line => line.isGap || line.language === column.language),
+        showLive ? liveTextByLanguage[column.language] || '' : '',
+        groupingWindowMs
+      ),
+    }));
+  }, [columns, visibleLines, showLive, liveTextByLanguage, groupingWindowMs]);
+
+  const messageCount = columns
+    ? columnMessages.reduce((sum, c) => sum + c.messages.length, 0)
+    : messages.length;
 
   // Near-bottom detection
   const isNearBottom = () => {
@@ -96,7 +170,7 @@ export function ChatThread({ committed, liveText, isRecording, groupingWindowMs
       setHasUnread(true);
       setShowJump(true);
     }
-  }, [messages.length, isRecording, smoothScroll]);
+  }, [messageCount, isRecording, smoothScroll]);
 
   const handleJumpToPresent = useCallback(() => {
     const el = containerRef.current;
@@ -107,25 +181,56 @@ export function ChatThread({ committed, liveText, isRecording, groupingWindowMs
   }, []);
 
   return (
-    <div ref={containerRef} style={styles.container}>
-      <div style={styles.list}>
-        {messages.map(m => (
-          <ChatMessage key={m.id} msg={m} />
-        ))}
-      </div>
+    <div style={styles.wrapper}>
+      <TranscriptFilterBar
+        options={filterOptions}
+        filter={activeFilter}
+        onChange={changeFilter}
+        matchCount={visibleLines.filter(line => !line.isGap).length}
+      />
 
-      {showJump && (
-        <div style={styles.jumpPill} onClick={handleJumpToPresent}>
-          {hasUnread ? 'New messages — Jump to present' : 'Jump to present'}
-        </div>
-      )}
+      <div ref={containerRef} style={styles.container}>
+        {columns ? (
+          <div style={styles.columns}>
+            {columnMessages.map(({ column, messages: list }) => (
+              <div key={column.language} style={styles.column}>
+                <div style={styles.columnHeader}>{column.label}</div>
+                <div style={styles.list}>
+                  {list.map(m => (
+                    <ChatMessage key={m.id} msg={m} />
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div style={styles.list}>
+            {messages.map(m => (
+              <ChatMessage key={m.id} msg={m} />
+            ))}
+          </div>
+        )}
+
+        {showJump && (
+          <div style={styles.jumpPill} onClick={handleJumpToPresent}>
+            {hasUnread ? 'New messages — Jump to present' : 'Jump to present'}
+          </div>
+        )}
+      </div>
     </div>
   );
 }
 
 const styles = {
-  container: {
+  wrapper: {
     height: '100%',
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: '0.5rem',
+  },
+  container: {
+    flex: 1,
+    minHeight: 0,
     overflowY: 'auto' as const,
     padding: '1rem',
     backgroundColor: 'transparent',
@@ -135,6 +240,32 @@ const styles = {
     flexDirection: 'column' as const,
     gap: '0.5rem',
   },
+  columns: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fit, minmax(0, 1fr))',
+    gap: '1rem',
+    alignItems: 'start',
+  },
+  column: {
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: '0.5rem',
+    minWidth: 0,
+  },
+  columnHeader: {
+    position: 'sticky' as const,
+    top: 0,
+    zIndex: 1,
+    padding: '0.375rem 0.75rem',
+    backgroundColor: 'var(--bg-secondary)',
+    border: '1px solid var(--border-color)',
+    borderRadius: '0.5rem',
+    color: 'var(--text-secondary)',
+    fontSize: '0.75rem',
+    fontWeight: 600 as const,
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.05em',
+  },
   jumpPill: {
     position: 'sticky' as const,
     bottom: '0.75rem',
@@ -0,0 +1,118 @@
+'use client';
+
+import { TranslatorTransport } from '@/types/soniox';
+
+/**
+ * Connection Settings Component
+ *
+ * Chooses how audio reaches Soniox: straight from the browser, or through
+ * the server relay for networks that block third-party WebSockets.
+ */
+
+interface ConnectionSettingsProps {
+  transport: TranslatorTransport;
+  setTransport: (transport: TranslatorTransport) => void;
+  isRecording: boolean;
+}
+
+const TRANSPORT_OPTIONS: { value: TranslatorTransport; label: string; description: string }[] = [
+  {
+    value: 'direct',
+    label: 'Direct',
+    description: 'Browser connects to Soniox with a temporary key (lowest latency)',
+  },
+  {
+    value: 'relay',
+    label: 'Server relay',
+    description: 'Audio and results pass through this server (works behind strict firewalls)',
+  },
+];
+
+export function ConnectionSettings({
+  transport,
+  setTransport,
+  isRecording,
+}: ConnectionSettingsProps) {
+  const selected = TRANSPORT_OPTIONS.find(option => option.value === transport) || TRANSPORT_OPTIONS[0];
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <h4 style={styles.title}>🔌 Connection</h4>
+      </div>
+
+      <div style={styles.content}>
+        <div style={styles.options} role="radiogroup" aria-label="Connection transport">
+          {TRANSPORT_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              role="radio"
+              aria-checked={transport === option.value}
+              onClick={() => setTransport(option.value)}
+              disabled={isRecording}
+              style={{
+                ...styles.optionButton,
+                ...(transport === option.value ? styles.optionButtonActive : {}),
+              }}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <span style={styles.description}>{selected.description}</span>
+      </div>
+    </div>
+  );
+}
+
+// Styles
+const styles = {
+  container: {
+    backgroundColor: '#f9fafb',
+    border: '1px solid #e5e7eb',
+    borderRadius: '0.5rem',
+    overflow: 'hidden',
+  },
+  header: {
+    padding: '0.75rem 1rem',
+    backgroundColor: '#f3f4f6',
+    borderBottom: '1px solid #e5e7eb',
+  },
+  title: {
+    fontSize: '0.875rem',
+    fontWeight: '600',
+    color: '#374151',
+    margin: 0,
+  },
+  content: {
+    padding: '1rem',
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: '0.5rem',
+  },
+  options: {
+    display: 'flex',
+    gap: '0.5rem',
+  },
+  optionButton: {
+    flex: 1,
+    padding: '0.375rem 0.75rem',
+    borderRadius: '0.375rem',
+    border: '1px solid #d1d5db',
+    backgroundColor: 'white',
+    color: '#374151',
+    fontSize: '0.75rem',
+    fontWeight: '600',
+    cursor: 'pointer',
+    transition: 'all 0.2s',
+  },
+  optionButtonActive: {
+    backgroundColor: '#10b981',
+    borderColor: '#10b981',
+    color: 'white',
+  },
+  description: {
+    fontSize: '0.75rem',
+    color: '#6b7280',
+  },
+};
@@ -2,20 +2,32 @@
 
 import { useState } from 'react';
 import { TranscriptLine } from '@/hooks/useTranslator';
+import { getLanguageName } from '@/utils/languages';
+import { SessionSummary } from '@/utils/sessionHistory';
 import {
   exportAsText,
   exportAsJSON,
   exportAsSRT,
+  exportAsVTT,
+  exportAsAlignedMarkdown,
+  exportAsAlignedHTML,
+  exportAsTMX,
+  exportAsMinutesMarkdown,
+  exportAsMinutesHTML,
+  exportAsDOCX,
   downloadFile,
   copyToClipboard,
   generateFilename,
   getTranscriptStats,
 } from '@/utils/exportUtils';
+import { TranscriptFilter, filterLines, isFilterActive } from '@/utils/transcriptFilter';
 
 /**
  * Export Controls Component
  * 
  * Provides buttons for exporting and copying transcripts.
+ * With multiple target languages, one file is exported per language.
+ * When the transcript view is filtered, exports can follow the filter.
  * 
  * Phase 6 Implementation
  */
@@ -24,32 +36,78 @@ interface ExportControlsProps {
   translations: TranscriptLine[];
   source?: TranscriptLine[];
   includeSource: boolean;
+  sourceLanguage: string;
+  targetLanguage: string;
+  translationsByLanguage?: Record<string, TranscriptLine[]>; // Multiple target languages
+  groupingWindowMs?: number; // Speaker grouping for meeting minutes (as in the chat view)
+  session?: SessionSummary; // Current session (name and times for document metadata)
+  sessionStartedAt?: number; // Origin of the lines' audio times (subtitle timing)
+  filter?: TranscriptFilter; // Speaker/language filter of the transcript view
 }
 
 export function ExportControls({
-  translations,
-  source = [],
+  translations: allTranslations,
+  source: allSource = [],
   includeSource,
+  sourceLanguage,
+  targetLanguage,
+  translationsByLanguage: allTranslationsByLanguage,
+  groupingWindowMs,
+  session,
+  sessionStartedAt,
+  filter,
 }: ExportControlsProps) {
   const [copyStatus, setCopyStatus] = useState<'idle' | 'copying' | 'success' | 'error'>('idle');
   const [exportStatus, setExportStatus] = useState<string>('');
+  const [includeTimestamps, setIncludeTimestamps] = useState(true);
+  const [followFilter, setFollowFilter] = useState(true);
 
-  const hasTranslations = translations.length > 0;
+  // Export only the lines shown in the filtered view (if enabled)
+  const isFiltered = isFilterActive(filter) && followFilter;
+  const translations = isFiltered ? filterLines(allTranslations, filter) : allTranslations;
+  const source = isFiltered ? filterLines(allSource, filter) : allSource;
+  const translationsByLanguage = isFiltered && allTranslationsByLanguage
+    ? Object.fromEntries(
+        Object.entries(allTranslationsByLanguage).map(([language, lines]) => [language, filterLines(lines, filter)])
+      )
+    : allTranslationsByLanguage;
+
+  // Session start: lines without audio times are placed relative to it
+  const startedAt = sessionStartedAt ?? session?.startedAt;
+
+  const hasTranslations = allTranslations.length > 0;
   const stats = hasTranslations ? getTranscriptStats(translations) : null;
 
+  // One export group per target language that has content
+  const exportGroups = translationsByLanguage
+    ? Object.entries(translationsByLanguage)
+        .filter(([, lines]) => lines.length > 0)
+        .map(([language, lines]) => ({ language, lines }))
+    : [{ language: targetLanguage, lines: translations }];
+
+  const reportExported = (filenames: string[]) => {
+    setExportStatus(filenames.length === 1
+      ? `✅ Exported as ${filenames[0]}`
+      : `✅ Exported ${filenames.length} files (${filenames.join(', ')})`);
+    setTimeout(() => setExportStatus(''), 3000);
+  };
+
   /**
    * Export as TXT
    */
   const handleExportTXT = () => {
     try {
-      const content = exportAsText(
-        translations,
-        includeSource ? source : undefined
-      );
-      const filename = generateFilename('txt');
-      downloadFile(content, filename, 'text/plain');
-      setExportStatus(`✅ Exported as ${filename}`);
-      setTimeout(() => setExportStatus(''), 3000);
+      const filenames = exportGroups.map(({ language, lines }) => {
+        const content = exportAsText(
+          lines,
+          includeSource ? source : undefined,
+          { sourceLanguage, targetLanguage: language }
+        );
+        const filename = generateFilename('txt', language);
+        downloadFile(content, filename, 'text/plain');
+        return filename;
+      });
+      reportExported(filenames);
     } catch (error) {
       console.error('Export failed:', error);
       setExportStatus('❌ Export failed');
@@ -62,15 +120,18 @@ export function ExportControls({
    */
   const handleExportJSON = () => {
     try {
-      const content = exportAsJSON(
-        translations,
-        includeSource ? source : undefined,
-        { stats }
-      );
-      const filename = generateFilename('json');
-      downloadFile(content, filename, 'application/json');
-      setExportStatus(`✅ Exported as ${filename}`);
-      setTimeout(() => setExportStatus(''), 3000);
+      const filenames = exportGroups.map(({ language, lines }) => {
+        const content = exportAsJSON(
+          lines,
+          includeSource ? source : undefined,
+          { stats: getTranscriptStats(lines, source) },
+          { sourceLanguage, targetLanguage: language }
+        );
+        const filename = generateFilename('json', language);
+        downloadFile(content, filename, 'application/json');
+        return filename;
+      });
+      reportExported(filenames);
     } catch (error) {
       console.error('Export failed:', error);
       setExportStatus('❌ Export failed');
@@ -83,12 +144,122 @@ export function ExportControls({
    */
   const handleExportSRT = () => {
     try {
-      const startTime = translations.length > 0 ? translations[0].timestamp : 0;
-      const content = exportAsSRT(translations, startTime);
-      const filename = generateFilename('srt');
-      downloadFile(content, filename, 'text/srt');
-      setExportStatus(`✅ Exported as ${filename}`);
+      const filenames = exportGroups.map(({ language, lines }) => {
+        const content = exportAsSRT(lines, startedAt);
+        const filename = generateFilename('srt', language);
+        downloadFile(content, filename, 'text/srt');
+        return filename;
+      });
+      reportExported(filenames);
+    } catch (error) {
+      console.error('Export failed:', error);
+      setExportStatus('❌ Export failed');
+      setTimeout(() => setExportStatus(''), 3000);
+    }
+  };
+
+  /**
+   * Export as WebVTT (one translation track per language, plus a source track)
+   */
+  const handleExportVTT = () => {
+    try {
+      const filenames = exportGroups.map(({ language, lines }) => {
+        const content = exportAsVTT(lines, startedAt, `${getLanguageName(language)} translation`);
+        const filename = generateFilename('vtt', language);
+        downloadFile(content, filename, 'text/vtt');
+        return filename;
+      });
+
+      if (includeSource && source.length > 0) {
+        const content = exportAsVTT(source, startedAt, `${getLanguageName(sourceLanguage)} original`);
+        const filename = generateFilename('vtt', `source-${sourceLanguage}`);
+        downloadFile(content, filename, 'text/vtt');
+        filenames.push(filename);
+      }
+      reportExported(filenames);
+    } catch (error) {
+      console.error('Export failed:', error);
+      setExportStatus('❌ Export failed');
+      setTimeout(() => setExportStatus(''), 3000);
+    }
+  };
+
+  /**
+   * Export source and translation aligned by audio time
+   * (Markdown/HTML table or TMX translation memory)
+   */
+  const handleExportAligned = (format: 'md' | 'html' | 'tmx') => {
+    const exporters = {
+      md: { exporter: exportAsAlignedMarkdown, mimeType: 'text/markdown' },
+      html: { exporter: exportAsAlignedHTML, mimeType: 'text/html' },
+      tmx: { exporter: exportAsTMX, mimeType: 'application/x-tmx+xml' },
+    };
+    const { exporter, mimeType } = exporters[format];
+
+    try {
+      const filenames = exportGroups.map(({ language, lines }) => {
+        const content = exporter(lines, source, { sourceLanguage, targetLanguage: language });
+        const filename = generateFilename(format, language);
+        downloadFile(content, filename, mimeType);
+        return filename;
+      });
+      reportExported(filenames);
+    } catch (error) {
+      console.error('Export failed:', error);
+      setExportStatus('❌ Export failed');
       setTimeout(() => setExportStatus(''), 3000);
+    }
+  };
+
+  /**
+   * Export meeting minutes (speaker-grouped, for pasting into a wiki)
+   */
+  const handleExportMinutes = (format: 'md' | 'html') => {
+    try {
+      const filenames = exportGroups.map(({ language, lines }) => {
+        const options = {
+          title: session?.name,
+          startedAt,
+          endedAt: session?.endedAt ?? undefined,
+          groupingWindowMs,
+          includeTimestamps,
+          includeSource,
+        };
+        const languages = { sourceLanguage, targetLanguage: language };
+        const filename = generateFilename(format, `minutes-${language}`);
+        if (format === 'md') {
+          downloadFile(exportAsMinutesMarkdown(lines, source, languages, options), filename, 'text/markdown');
+        } else {
+          downloadFile(exportAsMinutesHTML(lines, source, languages, options), filename, 'text/html');
+        }
+        return filename;
+      });
+      reportExported(filenames);
+    } catch (error) {
+      console.error('Export failed:', error);
+      setExportStatus('❌ Export failed');
+      setTimeout(() => setExportStatus(''), 3000);
+    }
+  };
+
+  /**
+   * Export as Word document (document properties from the session)
+   */
+  const handleExportDOCX = () => {
+    try {
+      const filenames = exportGroups.map(({ language, lines }) => {
+        const content = exportAsDOCX(lines, includeSource ? source : [], { sourceLanguage, targetLanguage: language }, {
+          title: session?.name,
+          startedAt,
+          endedAt: session?.endedAt ?? undefined,
+          groupingWindowMs,
+          includeTimestamps,
+        });
+        const filename = generateFilename('docx', language);
+        downloadFile(content, filename);
+        return filename;
+      });
+      reportExported(filenames);
     } catch (error) {
       console.error('Export failed:', error);
       setExportStatus('❌ Export failed');
@@ -103,10 +274,14 @@ export function ExportControls({
     setCopyStatus('copying');
     
     try {
-      const content = exportAsText(
-        translations,
-        includeSource ? source : undefined
-      );
+      // Source is included once, after all translation sections
+      const content = exportGroups
+        .map(({ language, lines }, index) => exportAsText(
+          lines,
+          includeSource && index === exportGroups.length - 1 ? source : undefined,
+          { sourceLanguage, targetLanguage: language }
+        ))
+        .join('\n\n');
       const success = await copyToClipboard(content);
       
       if (success) {
@@ -165,6 +340,64 @@ export function ExportControls({
             🎬 Export SRT
           </button>
           
+          <button
+            onClick={handleExportVTT}
+            style={styles.exportButton}
+            title="Export as WebVTT caption tracks (translation and source)"
+          >
+            🎞️ Export VTT
+          </button>
+          
+          <button
+            onClick={() => handleExportMinutes('md')}
+            style={styles.exportButton}
+            title="Export meeting minutes as Markdown"
+          >
+            📝 Minutes MD
+          </button>
+          
+          <button
+            onClick={() => handleExportMinutes('html')}
+            style={styles.exportButton}
+            title="Export meeting minutes as a standalone HTML page"
+          >
+            📰 Minutes HTML
+          </button>
+          
+          <button
+            onClick={handleExportDOCX}
+            style={styles.exportButton}
+            title="Export as Word document"
+          >
+            📃 Export DOCX
+          </button>
+          
+          {source.length > 0 && (
+            <>
+              <button
+                onClick={() => handleExportAligned('md')}
+                style={styles.exportButton}
+                title="Export original and translation side by side as a Markdown table"
+              >
+                📊 Aligned MD
+              </button>
+              <button
+                onClick={() => handleExportAligned('html')}
+                style={styles.exportButton}
+                title="Export original and translation side by side as an HTML table"
+              >
+                🌐 Aligned HTML
+              </button>
+              <button
+                onClick={() => handleExportAligned('tmx')}
+                style={styles.exportButton}
+                title="Export aligned segments as a TMX translation memory"
+              >
+                🧠 TMX
+              </button>
+            </>
+          )}
+          
           <button
             onClick={handleCopyToClipboard}
             style={{
@@ -184,6 +417,26 @@ export function ExportControls({
           </button>
         </div>
 
+        {isFilterActive(filter) && (
+          <label style={styles.optionLabel}>
+            <input
+              type="checkbox"
+              checked={followFilter}
+              onChange={(e) => setFollowFilter(e.target.checked)}
+            />
+            Export only filtered lines ({filterLines(allTranslations, filter).length} of {allTranslations.length})
+          </label>
+        )}
+
+        <label style={styles.optionLabel}>
+          <input
+            type="checkbox"
+            checked={includeTimestamps}
+            onChange={(e) => setIncludeTimestamps(e.target.checked)}
+          />
+          Include timestamps in minutes and Word documents
+        </label>
+
         {/* Export Status */}
         {exportStatus && (
           <div style={styles.statusBox}>
@@ -196,8 +449,13 @@ export function ExportControls({
           <p style={styles.infoTitle}>📥 Export Formats:</p>
           <ul style={styles.infoList}>
             <li><strong>TXT</strong> - Plain text, easy to read</li>
-            <li><strong>JSON</strong> - With metadata, timestamps, source text</li>
-            <li><strong>SRT</strong> - Subtitle format for videos</li>
+            <li><strong>JSON</strong> - Schema v2 with metadata, linked source lines and per-token confidence/timing</li>
+            <li><strong>SRT</strong> - Subtitle format for videos, timed to the speech</li>
+            <li><strong>VTT</strong> - Captions for HTML5 players, with speaker voice tags</li>
+            <li><strong>Aligned MD/HTML</strong> - Original and translation side by side</li>
+            <li><strong>TMX</strong> - Translation memory for CAT tools</li>
+            <li><strong>DOCX</strong> - Word document with speaker headings and a source/translation table</li>
+            <li><strong>Minutes</strong> - Speaker-grouped notes (Markdown/HTML) for wikis; original text is included when the source is shown</li>
             <li><strong>Copy</strong> - Quick paste into other apps</li>
           </ul>
         </div>
@@ -270,6 +528,14 @@ const styles = {
     flex: '1',
     minWidth: '110px',
   },
+  optionLabel: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.375rem',
+    fontSize: '0.75rem',
+    color: '#374151',
+    cursor: 'pointer',
+  },
   statusBox: {
     padding: '0.5rem 0.75rem',
     backgroundColor: '#f0fdf4',
@@ -0,0 +1,226 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { FileProgress, FILE_PLAYBACK_RATES, ACCEPTED_FILE_TYPES } from '@/utils/audioSources';
+
+/**
+ * File Translate Controls Component
+ *
+ * Drop zone for translating a recorded audio/video file (WAV, MP3, MP4)
+ * instead of the microphone, with playback speed and progress display.
+ */
+
+interface FileTranslateControlsProps {
+  onTranslateFile: (file: File, playbackRate: number) => void;
+  fileProgress: FileProgress | null;
+  isRecording: boolean;
+  isConnecting: boolean;
+}
+
+export function FileTranslateControls({
+  onTranslateFile,
+  fileProgress,
+  isRecording,
+  isConnecting,
+}: FileTranslateControlsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [playbackRate, setPlaybackRate] = useState<number>(1);
+  const [isDragging, setIsDragging] = useState(false);
+  const isBusy = isRecording || isConnecting;
+
+  const handleFile = (file: File | undefined) => {
+    if (!file || isBusy) return;
+    onTranslateFile(file, playbackRate);
+  };
+
+  const percent = fileProgress && fileProgress.durationMs > 0
+    ? Math.round((fileProgress.positionMs / fileProgress.durationMs) * 100)
+    : 0;
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <h4 style={styles.title}>📁 Translate File</h4>
+      </div>
+
+      <div style={styles.content}>
+        {!isBusy && (
+          <>
+            <div
+              onClick={() => fileInputRef.current?.click()}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setIsDragging(true);
+              }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={(e) => {
+                e.preventDefault();
+                setIsDragging(false);
+                handleFile(e.dataTransfer.files[0]);
+              }}
+              style={{
+                ...styles.dropZone,
+                ...(isDragging ? styles.dropZoneActive : {}),
+              }}
+            >
+              Drop a WAV, MP3 or MP4 file here, or click to choose
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_FILE_TYPES}
+              style={{ display: 'none' }}
+              onChange={(e) => {
+                handleFile(e.currentTarget.files?.[0]);
+                e.currentTarget.value = '';
+              }}
+            />
+
+            <div style={styles.speedRow}>
+              <span style={styles.helpText}>Speed</span>
+              {FILE_PLAYBACK_RATES.map((rate) => (
+                <button
+                  key={rate}
+                  onClick={() => setPlaybackRate(rate)}
+                  style={{
+                    ...styles.speedButton,
+                    ...(playbackRate === rate ? styles.speedButtonActive : {}),
+                  }}
+                >
+                  {rate === 1 ? 'Real-time' : `${rate}x`}
+                </button>
+              ))}
+            </div>
+            <p style={styles.helpText}>
+              {playbackRate > 1
+                ? '⚠️ Faster playback keeps the pitch but may reduce accuracy'
+                : 'The file is played into the translator at normal speed'
+              }
+            </p>
+          </>
+        )}
+
+        {fileProgress && (
+          <div>
+            <div style={styles.progressLabel}>
+              <span style={styles.fileName}>{fileProgress.fileName}</span>
+              <span>
+                {fileProgress.durationMs > 0
+                  ? `${formatTime(fileProgress.positionMs)} / ${formatTime(fileProgress.durationMs)}`
+                  : 'Decoding...'}
+              </span>
+            </div>
+            <div style={styles.progressTrack}>
+              <div style={{ ...styles.progressFill, width: `${percent}%` }} />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Format milliseconds as M:SS
+ */
+function formatTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+// Styles
+const styles = {
+  container: {
+    backgroundColor: '#f9fafb',
+    border: '1px solid #e5e7eb',
+    borderRadius: '0.5rem',
+    overflow: 'hidden',
+    marginBottom: '1rem',
+  },
+  header: {
+    padding: '0.75rem 1rem',
+    backgroundColor: '#f3f4f6',
+    borderBottom: '1px solid #e5e7eb',
+  },
+  title: {
+    fontSize: '0.875rem',
+    fontWeight: '600',
+    color: '#374151',
+    margin: 0,
+  },
+  content: {
+    padding: '1rem',
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: '0.75rem',
+  },
+  dropZone: {
+    padding: '1.25rem',
+    border: '2px dashed #d1d5db',
+    borderRadius: '0.375rem',
+    backgroundColor: '#ffffff',
+    textAlign: 'center' as const,
+    fontSize: '0.8125rem',
+    color: '#6b7280',
+    cursor: 'pointer',
+  },
+  dropZoneActive: {
+    border: '2px dashed #3b82f6',
+    backgroundColor: '#eff6ff',
+    color: '#1e40af',
+  },
+  speedRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.375rem',
+    flexWrap: 'wrap' as const,
+  },
+  speedButton: {
+    padding: '0.25rem 0.625rem',
+    backgroundColor: '#ffffff',
+    border: '1px solid #e5e7eb',
+    borderRadius: '0.375rem',
+    cursor: 'pointer',
+    fontSize: '0.75rem',
+    fontWeight: '500',
+  },
+  speedButtonActive: {
+    backgroundColor: '#eff6ff',
+    border: '1px solid #3b82f6',
+    color: '#1e40af',
+    fontWeight: '600',
+  },
+  helpText: {
+    fontSize: '0.75rem',
+    color: '#6b7280',
+    margin: 0,
+    lineHeight: '1.5',
+  },
+  progressLabel: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: '0.5rem',
+    fontSize: '0.75rem',
+    color: '#374151',
+    marginBottom: '0.375rem',
+  },
+  fileName: {
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap' as const,
+    fontWeight: '500',
+  },
+  progressTrack: {
+    height: '6px',
+    backgroundColor: '#e5e7eb',
+    borderRadius: '9999px',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#3b82f6',
+    transition: 'width 0.5s linear',
+  },
+};
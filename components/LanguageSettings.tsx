@@ -1,11 +1,14 @@
 'use client';
 
 import { useState } from 'react';
+import { TranslationMode } from '@/hooks/useTranslator';
+import { SUPPORTED_LANGUAGES, AUTO_DETECT_LANGUAGE, getLanguageName } from '@/utils/languages';
 
 /**
  * Language Settings Component
  * 
- * Allows users to configure source language and provide vocabulary hints.
+ * Allows users to configure translation mode, source and target languages
+ * (including additional simultaneous targets) and provide vocabulary hints.
  * 
  * Phase 6 Implementation
  */
@@ -13,29 +16,49 @@ import { useState } from 'react';
 interface LanguageSettingsProps {
   sourceLanguage: string;
   setSourceLanguage: (lang: string) => void;
+  targetLanguage: string;
+  setTargetLanguage: (lang: string) => void;
+  translationMode: TranslationMode;
+  setTranslationMode: (mode: TranslationMode) => void;
+  additionalTargetLanguages: string[];
+  setAdditionalTargetLanguages: (langs: string[]) => void;
   vocabularyContext: string;
   setVocabularyContext: (context: string) => void;
   isRecording: boolean;
 }
 
-const SUPPORTED_LANGUAGES = [
-  { code: 'de', name: 'German', flag: '🇩🇪' },
-  { code: 'en', name: 'English', flag: '🇺🇸' },
-  { code: 'es', name: 'Spanish', flag: '🇪🇸' },
-  { code: 'fr', name: 'French', flag: '🇫🇷' },
-  { code: 'it', name: 'Italian', flag: '🇮🇹' },
-  { code: 'pt', name: 'Portuguese', flag: '🇵🇹' },
-  { code: 'auto', name: 'Auto-Detect', flag: '🌐' },
+const SOURCE_LANGUAGES = [...SUPPORTED_LANGUAGES, AUTO_DETECT_LANGUAGE];
+
+const TRANSLATION_MODES: { mode: TranslationMode; name: string; icon: string }[] = [
+  { mode: 'one_way', name: 'One-way', icon: '➡️' },
+  { mode: 'two_way', name: 'Conversation', icon: '🔁' },
 ];
 
 export function LanguageSettings({
   sourceLanguage,
   setSourceLanguage,
+  targetLanguage,
+  setTargetLanguage,
+  translationMode,
+  setTranslationMode,
+  additionalTargetLanguages,
+  setAdditionalTargetLanguages,
   vocabularyContext,
   setVocabularyContext,
   isRecording,
 }: LanguageSettingsProps) {
   const [showVocabularyInput, setShowVocabularyInput] = useState(false);
+  const isConversation = translationMode === 'two_way';
+  const sourceOptions = isConversation ? SUPPORTED_LANGUAGES : SOURCE_LANGUAGES;
+  const extraTargetOptions = SUPPORTED_LANGUAGES.filter(lang => lang.code !== targetLanguage);
+
+  const toggleAdditionalTarget = (code: string) => {
+    setAdditionalTargetLanguages(
+      additionalTargetLanguages.includes(code)
+        ? additionalTargetLanguages.filter(lang => lang !== code)
+        : [...additionalTargetLanguages, code]
+    );
+  };
 
   return (
     <div style={styles.container}>
@@ -44,11 +67,38 @@ export function LanguageSettings({
       </div>
 
       <div style={styles.content}>
+        {/* Translation Mode Selection */}
+        <div style={styles.setting}>
+          <label style={styles.label}>Translation Mode</label>
+          <div style={styles.languageGrid}>
+            {TRANSLATION_MODES.map((option) => (
+              <button
+                key={option.mode}
+                onClick={() => setTranslationMode(option.mode)}
+                disabled={isRecording}
+                style={{
+                  ...styles.languageButton,
+                  ...(translationMode === option.mode ? styles.languageButtonActive : {}),
+                }}
+              >
+                <span style={styles.flag}>{option.icon}</span>
+                <span style={styles.langName}>{option.name}</span>
+              </button>
+            ))}
+          </div>
+          <p style={styles.helpText}>
+            {isConversation
+              ? 'Each speaker is translated into the other language (bilingual meetings)'
+              : 'Speech is translated from the source into the target language'
+            }
+          </p>
+        </div>
+
         {/* Source Language Selection */}
         <div style={styles.setting}>
-          <label style={styles.label}>Source Language</label>
+          <label style={styles.label}>{isConversation ? 'Language A' : 'Source Language'}</label>
           <div style={styles.languageGrid}>
-            {SUPPORTED_LANGUAGES.map((lang) => (
+            {sourceOptions.map((lang) => (
               <button
                 key={lang.code}
                 onClick={() => setSourceLanguage(lang.code)}
@@ -64,13 +114,75 @@ export function LanguageSettings({
             ))}
           </div>
           <p style={styles.helpText}>
-            {sourceLanguage === 'auto' 
+            {isConversation && sourceLanguage === 'auto'
+              ? '⚠️ Conversation mode needs an explicit language - please pick one'
+              : sourceLanguage === 'auto' 
               ? 'Language will be automatically detected'
-              : `Optimized for ${SUPPORTED_LANGUAGES.find(l => l.code === sourceLanguage)?.name || 'selected language'}`
+              : `Optimized for ${SOURCE_LANGUAGES.find(l => l.code === sourceLanguage)?.name || 'selected language'}`
+            }
+          </p>
+        </div>
+
+        {/* Target Language Selection */}
+        <div style={styles.setting}>
+          <label style={styles.label}>{isConversation ? 'Language B' : 'Target Language'}</label>
+          <div style={styles.languageGrid}>
+            {SUPPORTED_LANGUAGES.map((lang) => (
+              <button
+                key={lang.code}
+                onClick={() => setTargetLanguage(lang.code)}
+                disabled={isRecording}
+                style={{
+                  ...styles.languageButton,
+                  ...(targetLanguage === lang.code ? styles.languageButtonActive : {}),
+                }}
+              >
+                <span style={styles.flag}>{lang.flag}</span>
+                <span style={styles.langName}>{lang.name}</span>
+              </button>
+            ))}
+          </div>
+          <p style={styles.helpText}>
+            {sourceLanguage === targetLanguage
+              ? '⚠️ Source and target are the same - speech will only be transcribed'
+              : isConversation
+              ? `${getLanguageName(sourceLanguage)} ⇄ ${getLanguageName(targetLanguage)}`
+              : `Speech will be translated into ${SUPPORTED_LANGUAGES.find(l => l.code === targetLanguage)?.name || 'the selected language'}`
             }
           </p>
         </div>
 
+        {/* Additional Target Languages (one-way only) */}
+        {!isConversation && (
+          <div style={styles.setting}>
+            <label style={styles.label}>Additional Target Languages</label>
+            <div style={styles.chipRow}>
+              {extraTargetOptions.map((lang) => {
+                const selected = additionalTargetLanguages.includes(lang.code);
+                return (
+                  <button
+                    key={lang.code}
+                    onClick={() => toggleAdditionalTarget(lang.code)}
+                    disabled={isRecording}
+                    style={{
+                      ...styles.chip,
+                      ...(selected ? styles.chipActive : {}),
+                    }}
+                  >
+                    {selected ? '✓ ' : '+ '}{lang.flag} {lang.name}
+                  </button>
+                );
+              })}
+            </div>
+            <p style={styles.helpText}>
+              {additionalTargetLanguages.filter(lang => lang !== targetLanguage).length > 0
+                ? '💡 Each extra language opens its own translation session on the same audio'
+                : 'Optional: translate into several languages at once'
+              }
+            </p>
+          </div>
+        )}
+
         {/* Vocabulary/Context Hints */}
         <div style={styles.setting}>
           <div style={styles.settingHeader}>
@@ -211,6 +323,27 @@ const styles = {
   flag: {
     fontSize: '1.125rem',
   },
+  chipRow: {
+    display: 'flex',
+    flexWrap: 'wrap' as const,
+    gap: '0.375rem',
+  },
+  chip: {
+    padding: '0.375rem 0.75rem',
+    backgroundColor: '#ffffff',
+    border: '1px solid #e5e7eb',
+    borderRadius: '9999px',
+    cursor: 'pointer',
+    fontSize: '0.75rem',
+    fontWeight: '500',
+    color: '#374151',
+  },
+  chipActive: {
+    backgroundColor: '#eff6ff',
+    border: '1px solid #3b82f6',
+    color: '#1e40af',
+    fontWeight: '600',
+  },
   langName: {
     flex: 1,
     textAlign: 'left' as const,
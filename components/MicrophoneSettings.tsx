@@ -0,0 +1,154 @@
+'use client';
+
+import { MicrophoneDevice } from '@/utils/audioSources';
+
+/**
+ * Microphone Settings Component
+ *
+ * Device selector (remembered across visits) and a live input level meter,
+ * so a silent microphone can be spotted before starting a session.
+ * The device can be changed mid-session without restarting translation.
+ */
+
+interface MicrophoneSettingsProps {
+  microphones: MicrophoneDevice[];
+  microphoneDeviceId: string;
+  selectMicrophone: (deviceId: string) => void;
+  inputLevel: number;
+  isMicTestActive: boolean;
+  toggleMicTest: () => void;
+  isRecording: boolean;
+}
+
+export function MicrophoneSettings({
+  microphones,
+  microphoneDeviceId,
+  selectMicrophone,
+  inputLevel,
+  isMicTestActive,
+  toggleMicTest,
+  isRecording,
+}: MicrophoneSettingsProps) {
+  const isMetering = isRecording || isMicTestActive;
+  const levelPercent = Math.round(inputLevel * 100);
+  const levelColor = inputLevel > 0.85 ? '#ef4444' : inputLevel > 0.05 ? '#10b981' : '#d1d5db';
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <h4 style={styles.title}>🎙️ Microphone</h4>
+      </div>
+
+      <div style={styles.content}>
+        {/* Device Selection */}
+        <select
+          value={microphoneDeviceId}
+          onChange={(e) => selectMicrophone(e.target.value)}
+          style={styles.select}
+        >
+          <option value="">System default</option>
+          {microphones.map((device) => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {device.label}
+            </option>
+          ))}
+        </select>
+
+        {/* Level Meter */}
+        <div style={styles.meterRow}>
+          <div style={styles.meterTrack}>
+            <div
+              style={{
+                ...styles.meterFill,
+                width: `${levelPercent}%`,
+                backgroundColor: levelColor,
+              }}
+            />
+          </div>
+          {!isRecording && (
+            <button onClick={toggleMicTest} style={styles.testButton}>
+              {isMicTestActive ? '⏹️ Stop Test' : '🔊 Test'}
+            </button>
+          )}
+        </div>
+        <p style={styles.helpText}>
+          {!isMetering
+            ? 'Run a quick test to check your microphone level'
+            : inputLevel > 0.05
+            ? 'Microphone is picking up sound'
+            : '⚠️ No sound detected - check the selected microphone'
+          }
+        </p>
+      </div>
+    </div>
+  );
+}
+
+// Styles
+const styles = {
+  container: {
+    backgroundColor: '#f9fafb',
+    border: '1px solid #e5e7eb',
+    borderRadius: '0.5rem',
+    overflow: 'hidden',
+    marginBottom: '1rem',
+  },
+  header: {
+    padding: '0.75rem 1rem',
+    backgroundColor: '#f3f4f6',
+    borderBottom: '1px solid #e5e7eb',
+  },
+  title: {
+    fontSize: '0.875rem',
+    fontWeight: '600',
+    color: '#374151',
+    margin: 0,
+  },
+  content: {
+    padding: '1rem',
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: '0.625rem',
+  },
+  select: {
+    width: '100%',
+    padding: '0.5rem',
+    backgroundColor: '#ffffff',
+    border: '1px solid #d1d5db',
+    borderRadius: '0.375rem',
+    fontSize: '0.8125rem',
+    color: '#374151',
+  },
+  meterRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.5rem',
+  },
+  meterTrack: {
+    flex: 1,
+    height: '8px',
+    backgroundColor: '#e5e7eb',
+    borderRadius: '9999px',
+    overflow: 'hidden',
+  },
+  meterFill: {
+    height: '100%',
+    transition: 'width 0.1s linear',
+  },
+  testButton: {
+    padding: '0.25rem 0.625rem',
+    backgroundColor: '#ffffff',
+    border: '1px solid #e5e7eb',
+    borderRadius: '0.375rem',
+    cursor: 'pointer',
+    fontSize: '0.75rem',
+    fontWeight: '500',
+    whiteSpace: 'nowrap' as const,
+  },
+  helpText: {
+    fontSize: '0.75rem',
+    color: '#6b7280',
+    margin: 0,
+    lineHeight: '1.5',
+  },
+};
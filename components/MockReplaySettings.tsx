@@ -0,0 +1,272 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import {
+  MOCK_ERROR_PRESETS,
+  MockErrorPreset,
+  ReplayScript,
+  createDemoReplayScript,
+  parseReplayScript,
+} from '@/utils/mockProvider';
+
+/**
+ * Mock Replay Settings Component
+ *
+ * Development tool: replaces the live engine with a recorded token stream
+ * (utils/mockProvider.ts), with speed control and an optional injected error
+ * to exercise reconnection without a network.
+ */
+
+export interface MockReplayConfig {
+  enabled: boolean;
+  script: ReplayScript;
+  scriptName: string;
+  speed: number;
+  injectedError: MockErrorPreset | 'none';
+  injectedErrorAtMs: number;
+}
+
+export const DEFAULT_MOCK_REPLAY_CONFIG: MockReplayConfig = {
+  enabled: false,
+  script: createDemoReplayScript(),
+  scriptName: 'Built-in demo',
+  speed: 1,
+  injectedError: 'none',
+  injectedErrorAtMs: 8000,
+};
+
+const REPLAY_SPEEDS = [0.5, 1, 2, 4, 10];
+
+const ACCEPTED_SCRIPT_TYPES = '.jsonl,.ndjson,.txt,application/x-ndjson';
+
+interface MockReplaySettingsProps {
+  config: MockReplayConfig;
+  setConfig: (config: MockReplayConfig) => void;
+  isRecording: boolean;
+}
+
+export function MockReplaySettings({
+  config,
+  setConfig,
+  isRecording,
+}: MockReplaySettingsProps) {
+  const [scriptErrors, setScriptErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (changes: Partial<MockReplayConfig>) => setConfig({ ...config, ...changes });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const result = parseReplayScript(await file.text());
+    setScriptErrors(result.errors);
+    if (result.script) {
+      update({ script: result.script, scriptName: file.name });
+    }
+  };
+
+  const loadDemoScript = () => {
+    setScriptErrors([]);
+    update({ script: DEFAULT_MOCK_REPLAY_CONFIG.script, scriptName: DEFAULT_MOCK_REPLAY_CONFIG.scriptName });
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <h4 style={styles.title}>🧪 Mock Replay</h4>
+        <label style={styles.toggle}>
+          <input
+            type="checkbox"
+            checked={config.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            disabled={isRecording}
+          />
+          <span style={styles.toggleLabel}>{config.enabled ? 'On' : 'Off'}</span>
+        </label>
+      </div>
+
+      {config.enabled && (
+        <div style={styles.content}>
+          <div style={styles.row}>
+            <span style={styles.scriptName}>
+              📄 {config.scriptName} ({config.script.frames.length} frames, {(config.script.durationMs / 1000).toFixed(1)}s)
+            </span>
+          </div>
+          <div style={styles.row}>
+            <button onClick={() => fileInputRef.current?.click()} disabled={isRecording} style={styles.button}>
+              Load JSONL…
+            </button>
+            <button onClick={loadDemoScript} disabled={isRecording} style={styles.button}>
+              Use demo
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_SCRIPT_TYPES}
+              style={{ display: 'none' }}
+              onChange={(e) => {
+                handleFile(e.currentTarget.files?.[0]);
+                e.currentTarget.value = '';
+              }}
+            />
+          </div>
+          {scriptErrors.length > 0 && (
+            <ul style={styles.errorList}>
+              {scriptErrors.map((error, i) => <li key={i}>{error}</li>)}
+            </ul>
+          )}
+
+          <div style={styles.row}>
+            <span style={styles.label}>Speed</span>
+            {REPLAY_SPEEDS.map((speed) => (
+              <button
+                key={speed}
+                onClick={() => update({ speed })}
+                disabled={isRecording}
+                style={{
+                  ...styles.button,
+                  ...(config.speed === speed ? styles.buttonActive : {}),
+                }}
+              >
+                {speed}x
+              </button>
+            ))}
+          </div>
+
+          <div style={styles.row}>
+            <span style={styles.label}>Inject</span>
+            <select
+              value={config.injectedError}
+              onChange={(e) => update({ injectedError: e.target.value as MockReplayConfig['injectedError'] })}
+              disabled={isRecording}
+              style={styles.select}
+            >
+              <option value="none">No error</option>
+              {(Object.keys(MOCK_ERROR_PRESETS) as MockErrorPreset[]).map((preset) => (
+                <option key={preset} value={preset}>{MOCK_ERROR_PRESETS[preset].label}</option>
+              ))}
+            </select>
+            {config.injectedError !== 'none' && (
+              <>
+                <span style={styles.label}>at</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={config.injectedErrorAtMs / 1000}
+                  onChange={(e) => update({ injectedErrorAtMs: Math.max(0, Number(e.target.value) || 0) * 1000 })}
+                  disabled={isRecording}
+                  style={styles.numberInput}
+                />
+                <span style={styles.label}>s</span>
+              </>
+            )}
+          </div>
+
+          <p style={styles.helpText}>
+            Recorded results replace the live engine; no network is used. Error times are in
+            recording time, and each error fires once per run.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Styles
+const styles = {
+  container: {
+    backgroundColor: '#f9fafb',
+    border: '1px solid #e5e7eb',
+    borderRadius: '0.5rem',
+    overflow: 'hidden',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '0.75rem 1rem',
+    backgroundColor: '#f3f4f6',
+    borderBottom: '1px solid #e5e7eb',
+  },
+  title: {
+    fontSize: '0.875rem',
+    fontWeight: '600',
+    color: '#374151',
+    margin: 0,
+  },
+  toggle: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.375rem',
+    cursor: 'pointer',
+  },
+  toggleLabel: {
+    fontSize: '0.75rem',
+    color: '#6b7280',
+  },
+  content: {
+    padding: '1rem',
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: '0.625rem',
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.375rem',
+    flexWrap: 'wrap' as const,
+  },
+  scriptName: {
+    fontSize: '0.75rem',
+    color: '#374151',
+    fontWeight: '500',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap' as const,
+  },
+  label: {
+    fontSize: '0.75rem',
+    color: '#6b7280',
+  },
+  button: {
+    padding: '0.25rem 0.625rem',
+    backgroundColor: '#ffffff',
+    border: '1px solid #e5e7eb',
+    borderRadius: '0.375rem',
+    cursor: 'pointer',
+    fontSize: '0.75rem',
+    fontWeight: '500',
+  },
+  buttonActive: {
+    backgroundColor: '#eff6ff',
+    border: '1px solid #3b82f6',
+    color: '#1e40af',
+    fontWeight: '600',
+  },
+  select: {
+    padding: '0.25rem 0.5rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '0.375rem',
+    fontSize: '0.75rem',
+    backgroundColor: 'white',
+  },
+  numberInput: {
+    width: '4rem',
+    padding: '0.25rem 0.375rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '0.375rem',
+    fontSize: '0.75rem',
+  },
+  errorList: {
+    margin: 0,
+    paddingLeft: '1.25rem',
+    fontSize: '0.75rem',
+    color: '#b91c1c',
+  },
+  helpText: {
+    fontSize: '0.75rem',
+    color: '#6b7280',
+    margin: 0,
+    lineHeight: '1.5',
+  },
+};
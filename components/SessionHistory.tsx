@@ -0,0 +1,386 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { SessionRecord, SessionSummary } from '@/utils/sessionHistory';
+import { TranscriptImportResult } from '@/utils/transcriptImport';
+import { applySpeakerRegistry } from '@/utils/speakerRegistry';
+import {
+  exportAsText,
+  exportAsJSON,
+  exportAsSRT,
+  exportAsVTT,
+  exportAsDOCX,
+  downloadFile,
+  generateFilename,
+  getTranscriptStats,
+} from '@/utils/exportUtils';
+
+/**
+ * Session History Component
+ *
+ * Lists sessions saved in the browser (IndexedDB) with options to
+ * reopen, rename, delete and export them. JSON exports can be imported
+ * back as new sessions.
+ */
+
+interface SessionHistoryProps {
+  sessions: SessionSummary[];
+  currentSessionId: string | null;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  getSessionRecord: (id: string) => Promise<SessionRecord | null>;
+  onImport: (file: File) => Promise<TranscriptImportResult>;
+  isRecording: boolean;
+}
+
+type ExportFormat = 'txt' | 'json' | 'srt' | 'vtt' | 'docx';
+
+export function SessionHistory({
+  sessions,
+  currentSessionId,
+  onOpen,
+  onRename,
+  onDelete,
+  getSessionRecord,
+  onImport,
+  isRecording,
+}: SessionHistoryProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [status, setStatus] = useState('');
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+
+  const showStatus = (message: string) => {
+    setStatus(message);
+    setTimeout(() => setStatus(''), 3000);
+  };
+
+  const startRename = (session: SessionSummary) => {
+    setEditingId(session.id);
+    setEditName(session.name);
+  };
+
+  const commitRename = async () => {
+    if (!editingId) return;
+    const name = editName.trim();
+    if (name) {
+      await onRename(editingId, name);
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = async (session: SessionSummary) => {
+    if (!window.confirm(`Delete "${session.name}"? This cannot be undone.`)) {
+      return;
+    }
+    await onDelete(session.id);
+    showStatus('🗑️ Session deleted');
+  };
+
+  /**
+   * Import a JSON export as a new session
+   */
+  const handleImport = async (file: File) => {
+    setImportErrors([]);
+    try {
+      const result = await onImport(file);
+      if (!result.isValid) {
+        setImportErrors(result.errors);
+        return;
+      }
+      showStatus(result.warnings.length > 0
+        ? `⚠️ Imported ${file.name} - ${result.warnings.join(' ')}`
+        : `✅ Imported ${file.name}`);
+    } catch (error) {
+      console.error('Import failed:', error);
+      setImportErrors(['Could not read the file.']);
+    }
+  };
+
+  /**
+   * Export a stored session with the standard export formats
+   */
+  const handleExport = async (id: string, format: ExportFormat) => {
+    try {
+      const record = await getSessionRecord(id);
+      if (!record || record.committedTranslation.length === 0) {
+        showStatus('⚠️ Nothing to export');
+        return;
+      }
+
+      // Exports use the speaker names and merges saved with the session
+      const registry = record.speakerRegistry || {};
+      const translations = applySpeakerRegistry(record.committedTranslation, registry);
+      const source = applySpeakerRegistry(record.committedSource, registry);
+      const languages = {
+        sourceLanguage: record.sourceLanguage,
+        targetLanguage: record.targetLanguage,
+      };
+      const filename = generateFilename(format, record.targetLanguage);
+
+      if (format === 'txt') {
+        downloadFile(exportAsText(translations, source, languages), filename, 'text/plain');
+      } else if (format === 'json') {
+        const content = exportAsJSON(
+          translations,
+          source,
+          { stats: getTranscriptStats(translations, source), session: record.name },
+          languages
+        );
+        downloadFile(content, filename, 'application/json');
+      } else if (format === 'docx') {
+        const content = exportAsDOCX(translations, source, languages, {
+          title: record.name,
+          startedAt: record.startedAt,
+          endedAt: record.endedAt ?? undefined,
+          includeTimestamps: true,
+        });
+        downloadFile(content, filename);
+      } else if (format === 'vtt') {
+        downloadFile(exportAsVTT(translations, record.startedAt), filename, 'text/vtt');
+      } else {
+        downloadFile(exportAsSRT(translations, record.startedAt), filename, 'text/srt');
+      }
+      showStatus(`✅ Exported as ${filename}`);
+    } catch (error) {
+      console.error('Export failed:', error);
+      showStatus('❌ Export failed');
+    }
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <h4 style={styles.title}>🕘 Session History ({sessions.length})</h4>
+        <button onClick={() => setIsExpanded(!isExpanded)} style={styles.toggleLink}>
+          {isExpanded ? '▼ Hide' : '▶ Show'}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div style={styles.content}>
+          {sessions.length === 0 && (
+            <p style={styles.helpText}>Sessions are saved in this browser automatically.</p>
+          )}
+
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isRecording}
+            style={styles.importButton}
+            title="Load a transcript exported as JSON"
+          >
+            📥 Import JSON export
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            style={{ display: 'none' }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = ''; // Allow importing the same file again
+              if (file) handleImport(file);
+            }}
+          />
+          {importErrors.length > 0 && (
+            <div style={styles.errorBox}>
+              <strong>❌ Import failed</strong>
+              <ul style={styles.errorList}>
+                {importErrors.slice(0, 5).map((message, index) => (
+                  <li key={index}>{message}</li>
+                ))}
+                {importErrors.length > 5 && <li>…and {importErrors.length - 5} more</li>}
+              </ul>
+            </div>
+          )}
+
+          {sessions.map((session) => {
+            const isCurrent = session.id === currentSessionId;
+            return (
+              <div
+                key={session.id}
+                style={{
+                  ...styles.sessionItem,
+                  ...(isCurrent ? styles.sessionItemActive : {}),
+                }}
+              >
+                {editingId === session.id ? (
+                  <input
+                    value={editName}
+                    autoFocus
+                    onChange={(e) => setEditName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    style={styles.nameInput}
+                  />
+                ) : (
+                  <div style={styles.sessionName}>
+                    {isCurrent && '● '}{session.name}
+                  </div>
+                )}
+                <div style={styles.sessionMeta}>
+                  {session.lineCount} lines
+                  {session.endedAt
+                    ? ` • ${Math.max(1, Math.round((session.endedAt - session.startedAt) / 60000))} min`
+                    : ' • in progress'}
+                </div>
+                <div style={styles.actions}>
+                  <button
+                    onClick={() => onOpen(session.id)}
+                    disabled={isRecording || isCurrent}
+                    style={styles.actionButton}
+                  >
+                    📂 Open
+                  </button>
+                  <button onClick={() => startRename(session)} style={styles.actionButton}>
+                    ✏️ Rename
+                  </button>
+                  <button
+                    onClick={() => handleDelete(session)}
+                    disabled={isRecording && isCurrent}
+                    style={styles.actionButton}
+                  >
+                    🗑️
+                  </button>
+                  {(['txt', 'json', 'srt', 'vtt', 'docx'] as ExportFormat[]).map((format) => (
+                    <button
+                      key={format}
+                      onClick={() => handleExport(session.id, format)}
+                      style={styles.actionButton}
+                    >
+                      {format.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+
+          {status && <p style={styles.helpText}>{status}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Styles
+const styles = {
+  container: {
+    backgroundColor: '#f9fafb',
+    border: '1px solid #e5e7eb',
+    borderRadius: '0.5rem',
+    overflow: 'hidden',
+    marginBottom: '1rem',
+  },
+  header: {
+    padding: '0.75rem 1rem',
+    backgroundColor: '#f3f4f6',
+    borderBottom: '1px solid #e5e7eb',
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: '0.875rem',
+    fontWeight: '600',
+    color: '#374151',
+    margin: 0,
+  },
+  toggleLink: {
+    fontSize: '0.75rem',
+    color: '#3b82f6',
+    background: 'none',
+    border: 'none',
+    cursor: 'pointer',
+    padding: '0.25rem 0.5rem',
+    fontWeight: '500',
+  },
+  content: {
+    padding: '0.75rem',
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: '0.5rem',
+    maxHeight: '360px',
+    overflowY: 'auto' as const,
+  },
+  sessionItem: {
+    padding: '0.625rem',
+    backgroundColor: '#ffffff',
+    border: '1px solid #e5e7eb',
+    borderRadius: '0.375rem',
+  },
+  sessionItemActive: {
+    border: '1px solid #3b82f6',
+    backgroundColor: '#eff6ff',
+  },
+  sessionName: {
+    fontSize: '0.8125rem',
+    fontWeight: '600',
+    color: '#1f2937',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap' as const,
+  },
+  nameInput: {
+    width: '100%',
+    padding: '0.25rem 0.375rem',
+    border: '1px solid #3b82f6',
+    borderRadius: '0.25rem',
+    fontSize: '0.8125rem',
+  },
+  sessionMeta: {
+    fontSize: '0.6875rem',
+    color: '#6b7280',
+    margin: '0.25rem 0 0.375rem 0',
+  },
+  actions: {
+    display: 'flex',
+    flexWrap: 'wrap' as const,
+    gap: '0.25rem',
+  },
+  actionButton: {
+    padding: '0.1875rem 0.5rem',
+    backgroundColor: '#ffffff',
+    border: '1px solid #e5e7eb',
+    borderRadius: '0.25rem',
+    cursor: 'pointer',
+    fontSize: '0.6875rem',
+    fontWeight: '500',
+    color: '#374151',
+  },
+  importButton: {
+    padding: '0.375rem 0.625rem',
+    backgroundColor: '#ffffff',
+    border: '1px dashed #9ca3af',
+    borderRadius: '0.375rem',
+    cursor: 'pointer',
+    fontSize: '0.75rem',
+    fontWeight: '500',
+    color: '#374151',
+  },
+  errorBox: {
+    padding: '0.5rem 0.625rem',
+    backgroundColor: '#fef2f2',
+    border: '1px solid #fecaca',
+    borderRadius: '0.375rem',
+    fontSize: '0.75rem',
+    color: '#991b1b',
+  },
+  errorList: {
+    margin: '0.25rem 0 0 1rem',
+    padding: 0,
+    lineHeight: '1.5',
+  },
+  helpText: {
+    fontSize: '0.75rem',
+    color: '#6b7280',
+    margin: 0,
+    lineHeight: '1.5',
+  },
+};
@@ -0,0 +1,235 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { TranscriptLine } from '@/hooks/useTranslator';
+import { formatSpeakerName, resolveSpeaker, SpeakerRegistry } from '@/utils/speakerRegistry';
+
+/**
+ * Speaker Manager Component
+ *
+ * Lists the speakers detected by diarization with their colors.
+ * Speakers can be renamed (past lines and exports update too) and merged
+ * when diarization split one person into two labels. Merges can be undone.
+ */
+
+interface SpeakerManagerProps {
+  registry: SpeakerRegistry;
+  lines: TranscriptLine[]; // Displayed lines (for per-speaker line counts)
+  onRename: (label: string, name: string) => void;
+  onMerge: (from: string, into: string) => void;
+  onUnmerge: (label: string) => void;
+}
+
+export function SpeakerManager({
+  registry,
+  lines,
+  onRename,
+  onMerge,
+  onUnmerge,
+}: SpeakerManagerProps) {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const profiles = Object.values(registry);
+  const activeProfiles = profiles.filter(profile => !profile.mergedInto);
+  const mergedProfiles = profiles.filter(profile => profile.mergedInto);
+
+  const lineCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    lines.forEach(line => {
+      if (line.speaker && !line.isGap) {
+        counts[line.speaker] = (counts[line.speaker] || 0) + 1;
+      }
+    });
+    return counts;
+  }, [lines]);
+
+  /**
+   * Save the edited name (an empty name restores the default)
+   */
+  const commitName = (label: string) => {
+    const draft = drafts[label];
+    if (draft === undefined) return;
+    if (draft.trim() !== (registry[label]?.name || '')) {
+      onRename(label, draft);
+    }
+    setDrafts(prev => {
+      const { [label]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  if (profiles.length === 0) {
+    return null;
+  }
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <h4 style={styles.title}>👥 Speakers ({activeProfiles.length})</h4>
+        <button onClick={() => setIsExpanded(!isExpanded)} style={styles.toggleLink}>
+          {isExpanded ? '▼ Hide' : '▶ Show'}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div style={styles.content}>
+          {activeProfiles.map(profile => (
+            <div key={profile.label} style={styles.speakerRow}>
+              <span style={{ ...styles.swatch, backgroundColor: profile.color }} />
+              <input
+                type="text"
+                value={drafts[profile.label] ?? profile.name ?? ''}
+                placeholder={formatSpeakerName(profile.label)}
+                onChange={(e) => setDrafts(prev => ({ ...prev, [profile.label]: e.target.value }))}
+                onBlur={() => commitName(profile.label)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') e.currentTarget.blur();
+                }}
+                style={styles.nameInput}
+                aria-label={`Name for ${formatSpeakerName(profile.label)}`}
+              />
+              <span style={styles.count}>{lineCounts[profile.label] || 0}</span>
+              {activeProfiles.length > 1 && (
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && onMerge(profile.label, e.target.value)}
+                  style={styles.mergeSelect}
+                  title="Merge this speaker into another"
+                >
+                  <option value="">Merge into…</option>
+                  {activeProfiles
+                    .filter(other => other.label !== profile.label)
+                    .map(other => (
+                      <option key={other.label} value={other.label}>
+                        {formatSpeakerName(other.label, other.name)}
+                      </option>
+                    ))}
+                </select>
+              )}
+            </div>
+          ))}
+
+          {mergedProfiles.length > 0 && (
+            <div style={styles.mergedList}>
+              {mergedProfiles.map(profile => (
+                <div key={profile.label} style={styles.mergedRow}>
+                  <span>
+                    {formatSpeakerName(profile.label)} → {formatSpeakerName(
+                      resolveSpeaker(registry, profile.label),
+                      registry[resolveSpeaker(registry, profile.label)]?.name
+                    )}
+                  </span>
+                  <button onClick={() => onUnmerge(profile.label)} style={styles.undoButton}>
+                    Undo
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <p style={styles.helpText}>Names and merges apply to the whole transcript and to exports.</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Styles
+const styles = {
+  container: {
+    backgroundColor: '#f9fafb',
+    border: '1px solid #e5e7eb',
+    borderRadius: '0.5rem',
+    overflow: 'hidden',
+    marginTop: '1rem',
+  },
+  header: {
+    padding: '0.75rem 1rem',
+    backgroundColor: '#f3f4f6',
+    borderBottom: '1px solid #e5e7eb',
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: '0.875rem',
+    fontWeight: '600',
+    color: '#374151',
+    margin: 0,
+  },
+  toggleLink: {
+    background: 'none',
+    border: 'none',
+    color: '#3b82f6',
+    fontSize: '0.75rem',
+    cursor: 'pointer',
+    padding: 0,
+  },
+  content: {
+    padding: '0.75rem',
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: '0.5rem',
+  },
+  speakerRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.5rem',
+  },
+  swatch: {
+    width: '0.75rem',
+    height: '0.75rem',
+    borderRadius: '50%',
+    flexShrink: 0,
+  },
+  nameInput: {
+    flex: 1,
+    minWidth: 0,
+    padding: '0.25rem 0.5rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '0.375rem',
+    fontSize: '0.8125rem',
+  },
+  count: {
+    fontSize: '0.6875rem',
+    color: '#6b7280',
+    minWidth: '1.5rem',
+    textAlign: 'right' as const,
+  },
+  mergeSelect: {
+    padding: '0.25rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '0.375rem',
+    fontSize: '0.75rem',
+    backgroundColor: '#ffffff',
+    maxWidth: '7rem',
+  },
+  mergedList: {
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: '0.25rem',
+    paddingTop: '0.5rem',
+    borderTop: '1px solid #e5e7eb',
+  },
+  mergedRow: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    fontSize: '0.75rem',
+    color: '#6b7280',
+  },
+  undoButton: {
+    padding: '0.125rem 0.5rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '0.25rem',
+    backgroundColor: '#ffffff',
+    fontSize: '0.75rem',
+    cursor: 'pointer',
+  },
+  helpText: {
+    fontSize: '0.75rem',
+    color: '#6b7280',
+    margin: 0,
+  },
+};
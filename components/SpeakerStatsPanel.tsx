@@ -0,0 +1,186 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { TranscriptLine } from '@/hooks/useTranslator';
+import { getSpeakerStats } from '@/utils/speakerStats';
+
+/**
+ * Speaker Stats Panel Component
+ *
+ * Shows meeting balance per speaker: share of talk time, words, turns,
+ * average turn length and interruptions. Computed from committed lines
+ * (source lines when available, since they carry the speech timing).
+ */
+
+interface SpeakerStatsPanelProps {
+  translations: TranscriptLine[];
+  source: TranscriptLine[];
+}
+
+/**
+ * Format a duration as M:SS
+ */
+function formatTalkTime(milliseconds: number): string {
+  const totalSeconds = Math.round(milliseconds / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export function SpeakerStatsPanel({ translations, source }: SpeakerStatsPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const speakers = useMemo(
+    () => getSpeakerStats(source.length > 0 ? source : translations),
+    [translations, source]
+  );
+
+  if (speakers.length === 0) {
+    return null;
+  }
+
+  const hasTiming = speakers.some(speaker => speaker.talkTimeMs > 0);
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <h4 style={styles.title}>📊 Speaker Balance</h4>
+        <button onClick={() => setIsExpanded(!isExpanded)} style={styles.toggleLink}>
+          {isExpanded ? '▼ Hide' : '▶ Show'}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div style={styles.content}>
+          {speakers.map(speaker => (
+            <div key={speaker.speaker} style={styles.speaker}>
+              <div style={styles.speakerHeader}>
+                <span style={{ ...styles.swatch, backgroundColor: speaker.speakerColor || '#9ca3af' }} />
+                <span style={styles.speakerName}>{speaker.speakerName}</span>
+                {hasTiming && (
+                  <span style={styles.share}>{Math.round(speaker.talkTimeShare * 100)}%</span>
+                )}
+              </div>
+
+              {hasTiming && (
+                <div style={styles.barTrack}>
+                  <div
+                    style={{
+                      ...styles.barFill,
+                      width: `${speaker.talkTimeShare * 100}%`,
+                      backgroundColor: speaker.speakerColor || '#9ca3af',
+                    }}
+                  />
+                </div>
+              )}
+
+              <div style={styles.statsGrid}>
+                {hasTiming && <span>Talk time <strong>{formatTalkTime(speaker.talkTimeMs)}</strong></span>}
+                <span>Words <strong>{speaker.wordCount}</strong></span>
+                <span>Turns <strong>{speaker.turns}</strong></span>
+                <span>
+                  Avg turn <strong>{speaker.averageTurnWords} words</strong>
+                  {speaker.averageTurnMs > 0 && ` · ${(speaker.averageTurnMs / 1000).toFixed(1)} s`}
+                </span>
+                <span>Interruptions <strong>{speaker.interruptions}</strong></span>
+                <span>Interrupted <strong>{speaker.interrupted}</strong></span>
+              </div>
+            </div>
+          ))}
+
+          {!hasTiming && (
+            <p style={styles.helpText}>Talk time is unavailable for this transcript (no audio timing).</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Styles
+const styles = {
+  container: {
+    backgroundColor: '#f9fafb',
+    border: '1px solid #e5e7eb',
+    borderRadius: '0.5rem',
+    overflow: 'hidden',
+    marginTop: '1rem',
+  },
+  header: {
+    padding: '0.75rem 1rem',
+    backgroundColor: '#f3f4f6',
+    borderBottom: '1px solid #e5e7eb',
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: '0.875rem',
+    fontWeight: '600',
+    color: '#374151',
+    margin: 0,
+  },
+  toggleLink: {
+    background: 'none',
+    border: 'none',
+    color: '#3b82f6',
+    fontSize: '0.75rem',
+    cursor: 'pointer',
+    padding: 0,
+  },
+  content: {
+    padding: '0.75rem',
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: '0.75rem',
+  },
+  speaker: {
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: '0.375rem',
+  },
+  speakerHeader: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.5rem',
+  },
+  swatch: {
+    width: '0.75rem',
+    height: '0.75rem',
+    borderRadius: '50%',
+    flexShrink: 0,
+  },
+  speakerName: {
+    flex: 1,
+    fontSize: '0.8125rem',
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  share: {
+    fontSize: '0.75rem',
+    fontWeight: '600',
+    color: '#374151',
+  },
+  barTrack: {
+    height: '0.375rem',
+    backgroundColor: '#e5e7eb',
+    borderRadius: '9999px',
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: '100%',
+    borderRadius: '9999px',
+  },
+  statsGrid: {
+    display: 'grid',
+    gridTemplateColumns: '1fr 1fr',
+    gap: '0.125rem 0.5rem',
+    fontSize: '0.6875rem',
+    color: '#6b7280',
+  },
+  helpText: {
+    fontSize: '0.75rem',
+    color: '#6b7280',
+    margin: 0,
+  },
+};
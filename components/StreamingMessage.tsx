@@ -16,6 +16,7 @@
 
 import React, { useEffect, useRef, useState } from 'react';
 import { StreamingMessage as StreamingMessageType } from '@/utils/streamingTokenProcessor';
+import { formatSpeakerName } from '@/utils/speakerRegistry';
 
 interface StreamingMessageProps {
   message: StreamingMessageType;
@@ -81,7 +82,9 @@ export function StreamingMessage({
       {showSpeaker && message.speaker && (
         <div style={styles.speakerBadge}>
           <span style={styles.speakerIcon}>👤</span>
-          <span style={styles.speakerLabel}>Speaker {message.speaker}</span>
+          <span style={{ ...styles.speakerLabel, color: message.speakerColor || styles.speakerLabel.color }}>
+            {formatSpeakerName(message.speaker, message.speakerName)}
+          </span>
         </div>
       )}
 
@@ -14,21 +14,35 @@
  * Phase 8.5 Implementation - Chat-Style Streaming
  */
 
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { StreamingMessage } from './StreamingMessage';
+import { TranscriptFilterBar } from './TranscriptFilterBar';
 import { StreamingMessage as StreamingMessageType, StreamingUpdate } from '@/utils/streamingTokenProcessor';
+import { TranscriptFilter, filterLines, getFilterOptions } from '@/utils/transcriptFilter';
 
 interface StreamingTranscriptDisplayProps {
   messages: StreamingMessageType[];
   isRecording: boolean;
   onScrollToBottom?: () => void;
+  filter?: TranscriptFilter; // Controlled filter (internal state when omitted)
+  onFilterChange?: (filter: TranscriptFilter) => void;
 }
 
 export function StreamingTranscriptDisplay({
-  messages,
+  messages: allMessages,
   isRecording,
   onScrollToBottom,
+  filter,
+  onFilterChange,
 }: StreamingTranscriptDisplayProps) {
+  const [localFilter, setLocalFilter] = useState<TranscriptFilter>({});
+  const activeFilter = filter ?? localFilter;
+  const changeFilter = onFilterChange ?? setLocalFilter;
+
+  // Focus on one speaker/language (the active message is shown only if it matches)
+  const filterOptions = useMemo(() => getFilterOptions(allMessages), [allMessages]);
+  const messages = useMemo(() => filterLines(allMessages, activeFilter), [allMessages, activeFilter]);
+
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const [isUserScrolling, setIsUserScrolling] = useState(false);
   const [showScrollButton, setShowScrollButton] = useState(false);
@@ -149,6 +163,10 @@ export function StreamingTranscriptDisplay({
         )}
       </div>
 
+      <div style={styles.filterBar}>
+        <TranscriptFilterBar options={filterOptions} filter={activeFilter} onChange={changeFilter} matchCount={messages.length} />
+      </div>
+
       {/* Messages Container */}
       <div 
         ref={scrollContainerRef}
@@ -222,6 +240,10 @@ const styles = {
     backgroundColor: '#f9fafb',
   },
 
+  filterBar: {
+    padding: '0.5rem 1.5rem 0',
+  },
+
   title: {
     fontSize: '1.125rem',
     fontWeight: '600',
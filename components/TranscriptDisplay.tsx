@@ -1,7 +1,19 @@
 'use client';
 
-import { useCallback, useRef, useEffect } from 'react';
+import { useCallback, useRef, useEffect, useMemo, useState } from 'react';
 import { TranscriptLine } from '@/hooks/useTranslator';
+import { DEFAULT_SOURCE_LANGUAGE, DEFAULT_TARGET_LANGUAGE, getLanguageName } from '@/utils/languages';
+import { formatSpeakerName } from '@/utils/speakerRegistry';
+import {
+  TranscriptFilter,
+  LiveLineInfo,
+  filterLines,
+  getFilterOptions,
+  isFilterActive,
+  matchesFilter,
+  resolveLiveLineInfo,
+} from '@/utils/transcriptFilter';
+import { TranscriptFilterBar } from './TranscriptFilterBar';
 
 /**
  * TranscriptDisplay Component
@@ -14,6 +26,7 @@ import { TranscriptLine } from '@/hooks/useTranslator';
  * - Auto-scroll to bottom on new content
  * - Visual distinction between committed and live
  * - Optional source text display
+ * - Focus on one speaker or detected language
  * 
  * Phase 2 Implementation
  */
@@ -25,16 +38,38 @@ interface TranscriptDisplayProps {
   liveSource?: string;
   showSource?: boolean;
   isRecording: boolean;
+  sourceLanguage?: string;
+  targetLanguage?: string;
+  filter?: TranscriptFilter; // Controlled filter (internal state when omitted)
+  onFilterChange?: (filter: TranscriptFilter) => void;
+  liveInfo?: LiveLineInfo; // Speaker/language of the live text (for filtering)
 }
 
 export function TranscriptDisplay({
-  committedTranslation,
-  liveTranslation,
-  committedSource = [],
-  liveSource = '',
+  committedTranslation: allTranslation,
+  liveTranslation: allLiveTranslation,
+  committedSource: allSource = [],
+  liveSource: allLiveSource = '',
   showSource = false,
   isRecording,
+  sourceLanguage = DEFAULT_SOURCE_LANGUAGE,
+  targetLanguage = DEFAULT_TARGET_LANGUAGE,
+  filter,
+  onFilterChange,
+  liveInfo,
 }: TranscriptDisplayProps) {
+  const [localFilter, setLocalFilter] = useState<TranscriptFilter>({});
+  const activeFilter = filter ?? localFilter;
+  const changeFilter = onFilterChange ?? setLocalFilter;
+
+  // Focus on one speaker/language; the live lines stay only if they match
+  const filterOptions = useMemo(() => getFilterOptions([...allSource, ...allTranslation]), [allSource, allTranslation]);
+  const committedTranslation = useMemo(() => filterLines(allTranslation, activeFilter), [allTranslation, activeFilter]);
+  const committedSource = useMemo(() => filterLines(allSource, activeFilter), [allSource, activeFilter]);
+  const showLive = !isFilterActive(activeFilter) || matchesFilter(resolveLiveLineInfo(liveInfo, allTranslation), activeFilter);
+  const liveTranslation = showLive ? allLiveTranslation : '';
+  const liveSource = showLive ? allLiveSource : '';
+
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const prevCommittedLengthRef = useRef(0);
   const lastScrollHeightRef = useRef(0);
@@ -105,6 +140,15 @@ export function TranscriptDisplay({
         )}
       </div>
 
+      <div style={styles.filterBar}>
+        <TranscriptFilterBar
+          options={filterOptions}
+          filter={activeFilter}
+          onChange={changeFilter}
+          matchCount={committedTranslation.filter(line => !line.isGap).length}
+        />
+      </div>
+
       <div 
         ref={scrollContainerRef}
         style={styles.scrollContainer}
@@ -112,8 +156,10 @@ export function TranscriptDisplay({
         {!hasContent && (
           <div style={styles.emptyState}>
             <p style={styles.emptyText}>
-              {isRecording 
-                ? 'Speak in German to see translations appear here...' 
+              {isFilterActive(activeFilter) && allTranslation.length + allSource.length > 0
+                ? 'No lines match the current filter'
+                : isRecording 
+                ? `Speak in ${sourceLanguage === 'auto' ? 'any language' : getLanguageName(sourceLanguage)} to see translations appear here...` 
                 : 'Start translation to begin'}
             </p>
           </div>
@@ -123,7 +169,7 @@ export function TranscriptDisplay({
           <div style={styles.content}>
             {/* Translation Lines - Grouped by Speaker */}
             <div style={styles.section}>
-              <div style={styles.sectionLabel}>English Translation</div>
+              <div style={styles.sectionLabel}>{getLanguageName(targetLanguage)} Translation</div>
               
               {/* Group translations by speaker */}
               {(() => {
@@ -143,7 +189,9 @@ export function TranscriptDisplay({
                   <div key={speaker} style={styles.speakerBox}>
                     <div style={styles.speakerHeader}>
                       <span style={styles.speakerIcon}>👤</span>
-                      <span style={styles.speakerName}>Speaker {speaker}</span>
+                      <span style={{ ...styles.speakerName, color: lines[0].speakerColor || styles.speakerName.color }}>
+                        {formatSpeakerName(lines[0].speaker, lines[0].speakerName)}
+                      </span>
                       <span style={styles.lineCount}>{lines.length} line{lines.length !== 1 ? 's' : ''}</span>
                     </div>
                     <div style={styles.speakerContent}>
@@ -169,7 +217,7 @@ export function TranscriptDisplay({
             {/* Source Lines (optional) - Grouped by Speaker */}
             {showSource && (committedSource.length > 0 || liveSource) && (
               <div style={styles.section}>
-                <div style={styles.sectionLabel}>German Original</div>
+                <div style={styles.sectionLabel}>{getLanguageName(sourceLanguage)} Original</div>
                 
                 {/* Group source by speaker */}
                 {(() => {
@@ -189,7 +237,9 @@ export function TranscriptDisplay({
                     <div key={speaker} style={styles.speakerBox}>
                       <div style={styles.speakerHeader}>
                         <span style={styles.speakerIcon}>👤</span>
-                        <span style={styles.speakerName}>Speaker {speaker}</span>
+                        <span style={{ ...styles.speakerName, color: lines[0].speakerColor || styles.speakerName.color }}>
+                          {formatSpeakerName(lines[0].speaker, lines[0].speakerName)}
+                        </span>
                         <span style={styles.lineCount}>{lines.length} line{lines.length !== 1 ? 's' : ''}</span>
                       </div>
                       <div style={styles.speakerContent}>
@@ -246,6 +296,9 @@ const styles = {
     borderBottom: '1px solid #e5e7eb',
     backgroundColor: '#f9fafb',
   },
+  filterBar: {
+    padding: '0.5rem 1.5rem 0',
+  },
   title: {
     fontSize: '1.125rem',
     fontWeight: '600',
@@ -0,0 +1,119 @@
+'use client';
+
+import { FilterOptions, TranscriptFilter, isFilterActive } from '@/utils/transcriptFilter';
+import { getLanguageName } from '@/utils/languages';
+import { formatSpeakerName } from '@/utils/speakerRegistry';
+
+/**
+ * Transcript Filter Bar Component
+ *
+ * Speaker and detected-language selectors shared by the transcript views.
+ * Hidden when there is nothing to choose from (one speaker, one language).
+ */
+
+interface TranscriptFilterBarProps {
+  options: FilterOptions;
+  filter: TranscriptFilter;
+  onChange: (filter: TranscriptFilter) => void;
+  matchCount?: number; // Lines shown with the filter applied
+}
+
+export function TranscriptFilterBar({ options, filter, onChange, matchCount }: TranscriptFilterBarProps) {
+  const isActive = isFilterActive(filter);
+
+  // Keep the selected values listed even if they no longer occur
+  const speakers = filter.speaker && !options.speakers.some(s => s.label === filter.speaker)
+    ? [...options.speakers, { label: filter.speaker, name: formatSpeakerName(filter.speaker) }]
+    : options.speakers;
+  const languages = filter.language && !options.languages.includes(filter.language)
+    ? [...options.languages, filter.language]
+    : options.languages;
+
+  if (!isActive && speakers.length < 2 && languages.length < 2) {
+    return null;
+  }
+
+  return (
+    <div style={styles.bar}>
+      <span style={styles.label}>🔎 Focus</span>
+
+      {speakers.length > 0 && (
+        <select
+          value={filter.speaker || ''}
+          onChange={(e) => onChange({ ...filter, speaker: e.target.value || undefined })}
+          style={styles.select}
+          aria-label="Filter by speaker"
+        >
+          <option value="">All speakers</option>
+          {speakers.map(speaker => (
+            <option key={speaker.label} value={speaker.label}>{speaker.name}</option>
+          ))}
+        </select>
+      )}
+
+      {languages.length > 0 && (
+        <select
+          value={filter.language || ''}
+          onChange={(e) => onChange({ ...filter, language: e.target.value || undefined })}
+          style={styles.select}
+          aria-label="Filter by detected language"
+        >
+          <option value="">All languages</option>
+          {languages.map(language => (
+            <option key={language} value={language}>{getLanguageName(language)}</option>
+          ))}
+        </select>
+      )}
+
+      {isActive && (
+        <>
+          {matchCount !== undefined && (
+            <span style={styles.count}>{matchCount} line{matchCount !== 1 ? 's' : ''}</span>
+          )}
+          <button onClick={() => onChange({})} style={styles.clearButton}>
+            ✕ Clear
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Styles
+const styles = {
+  bar: {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap' as const,
+    gap: '0.5rem',
+    padding: '0.5rem 0.75rem',
+    backgroundColor: 'var(--bg-secondary)',
+    border: '1px solid var(--border-color)',
+    borderRadius: '0.5rem',
+    fontSize: '0.75rem',
+    color: 'var(--text-secondary)',
+  },
+  label: {
+    fontWeight: 600 as const,
+  },
+  select: {
+    padding: '0.25rem 0.5rem',
+    border: '1px solid var(--border-color)',
+    borderRadius: '0.375rem',
+    backgroundColor: 'var(--bg-tertiary)',
+    color: 'var(--text-primary)',
+    fontSize: '0.75rem',
+  },
+  count: {
+    marginLeft: 'auto',
+  },
+  clearButton: {
+    padding: '0.25rem 0.5rem',
+    border: '1px solid var(--border-color)',
+    borderRadius: '0.375rem',
+    backgroundColor: 'transparent',
+    color: 'var(--text-secondary)',
+    fontSize: '0.75rem',
+    cursor: 'pointer',
+  },
+};
@@ -0,0 +1,195 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { TranscriptLine } from '@/hooks/useTranslator';
+import { getLanguageTag } from '@/utils/languages';
+import { formatSpeakerName } from '@/utils/speakerRegistry';
+
+/**
+ * Transcript Search Component
+ *
+ * Case-insensitive search across committed translation and source lines
+ * (e.g., to find a topic in an imported or reopened session).
+ */
+
+interface TranscriptSearchProps {
+  translations: TranscriptLine[];
+  source: TranscriptLine[];
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+interface SearchMatch {
+  line: TranscriptLine;
+  kind: 'translation' | 'source';
+}
+
+// Results shown at most (keeps rendering fast for long sessions)
+const MAX_RESULTS = 100;
+
+/**
+ * Render text with all occurrences of the query highlighted
+ */
+function highlight(text: string, query: string) {
+  const lowerText = text.toLocaleLowerCase();
+  const lowerQuery = query.toLocaleLowerCase();
+  const parts: JSX.Element[] = [];
+  let position = 0;
+
+  while (position < text.length) {
+    const index = lowerText.indexOf(lowerQuery, position);
+    if (index === -1) break;
+    parts.push(<span key={`t${position}`}>{text.slice(position, index)}</span>);
+    parts.push(<mark key={`m${index}`} style={styles.mark}>{text.slice(index, index + query.length)}</mark>);
+    position = index + query.length;
+  }
+  parts.push(<span key={`t${position}`}>{text.slice(position)}</span>);
+  return parts;
+}
+
+export function TranscriptSearch({
+  translations,
+  source,
+  sourceLanguage,
+  targetLanguage,
+}: TranscriptSearchProps) {
+  const [query, setQuery] = useState('');
+  const trimmedQuery = query.trim();
+
+  const matches = useMemo(() => {
+    if (!trimmedQuery) return [];
+    const lowerQuery = trimmedQuery.toLocaleLowerCase();
+    const found: SearchMatch[] = [
+      ...translations.map(line => ({ line, kind: 'translation' as const })),
+      ...source.map(line => ({ line, kind: 'source' as const })),
+    ].filter(({ line }) => !line.isGap && line.text.toLocaleLowerCase().includes(lowerQuery));
+    return found.sort((a, b) => a.line.timestamp - b.line.timestamp);
+  }, [translations, source, trimmedQuery]);
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <h4 style={styles.title}>🔍 Search Transcript</h4>
+        {trimmedQuery && (
+          <span style={styles.count}>{matches.length} {matches.length === 1 ? 'match' : 'matches'}</span>
+        )}
+      </div>
+
+      <div style={styles.content}>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search translation and original text..."
+          style={styles.input}
+        />
+
+        {matches.slice(0, MAX_RESULTS).map(({ line, kind }) => (
+          <div key={`${kind}-${line.id}`} style={styles.result}>
+            <div style={styles.resultMeta}>
+              <span style={kind === 'source' ? styles.sourceBadge : styles.translationBadge}>
+                {getLanguageTag(line.language || (kind === 'source' ? sourceLanguage : targetLanguage))}
+              </span>
+              {line.speaker && <span style={{ color: line.speakerColor }}>{formatSpeakerName(line.speaker, line.speakerName)}</span>}
+              <span>{new Date(line.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+            </div>
+            <div style={styles.resultText}>{highlight(line.text, trimmedQuery)}</div>
+          </div>
+        ))}
+
+        {matches.length > MAX_RESULTS && (
+          <p style={styles.helpText}>Showing the first {MAX_RESULTS} matches - refine your search to see more.</p>
+        )}
+        {trimmedQuery && matches.length === 0 && (
+          <p style={styles.helpText}>No lines contain &quot;{trimmedQuery}&quot;.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Styles
+const styles = {
+  container: {
+    backgroundColor: '#f9fafb',
+    border: '1px solid #e5e7eb',
+    borderRadius: '0.5rem',
+    overflow: 'hidden',
+    marginTop: '1rem',
+  },
+  header: {
+    padding: '0.75rem 1rem',
+    backgroundColor: '#f3f4f6',
+    borderBottom: '1px solid #e5e7eb',
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: '0.875rem',
+    fontWeight: '600',
+    color: '#374151',
+    margin: 0,
+  },
+  count: {
+    fontSize: '0.75rem',
+    color: '#6b7280',
+  },
+  content: {
+    padding: '0.75rem',
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: '0.5rem',
+    maxHeight: '360px',
+    overflowY: 'auto' as const,
+  },
+  input: {
+    width: '100%',
+    padding: '0.5rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '0.375rem',
+    fontSize: '0.8125rem',
+  },
+  result: {
+    padding: '0.5rem 0.625rem',
+    backgroundColor: '#ffffff',
+    border: '1px solid #e5e7eb',
+    borderRadius: '0.375rem',
+  },
+  resultMeta: {
+    display: 'flex',
+    gap: '0.5rem',
+    alignItems: 'center',
+    fontSize: '0.6875rem',
+    color: '#6b7280',
+    marginBottom: '0.25rem',
+  },
+  translationBadge: {
+    padding: '0 0.375rem',
+    backgroundColor: '#dbeafe',
+    color: '#1e40af',
+    borderRadius: '0.25rem',
+    fontWeight: '600',
+  },
+  sourceBadge: {
+    padding: '0 0.375rem',
+    backgroundColor: '#f3f4f6',
+    color: '#374151',
+    borderRadius: '0.25rem',
+    fontWeight: '600',
+  },
+  resultText: {
+    fontSize: '0.8125rem',
+    color: '#1f2937',
+    lineHeight: '1.5',
+  },
+  mark: {
+    backgroundColor: '#fde68a',
+    padding: 0,
+  },
+  helpText: {
+    fontSize: '0.75rem',
+    color: '#6b7280',
+    margin: 0,
+  },
+};
@@ -1,16 +1,33 @@
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useTranslator } from '@/hooks/useTranslator';
 import { TranscriptDisplay } from './TranscriptDisplay';
-import { ChatThread } from './ChatThread';
+import { ChatThread, ChatColumn } from './ChatThread';
 import { VADSettings } from './VADSettings';
 import { ReconnectingBanner } from './ReconnectingBanner';
 import { LatencyMetrics } from './LatencyMetrics';
 import { LanguageSettings } from './LanguageSettings';
 import { ExportControls } from './ExportControls';
 import { BrowserCompatWarning } from './BrowserCompatWarning';
+import { ConnectionSettings } from './ConnectionSettings';
+import { MockReplaySettings, MockReplayConfig, DEFAULT_MOCK_REPLAY_CONFIG } from './MockReplaySettings';
 import { SentenceSettings } from './SentenceSettings';
+import { FileTranslateControls } from './FileTranslateControls';
+import { MicrophoneSettings } from './MicrophoneSettings';
+import { SessionHistory } from './SessionHistory';
+import { TranscriptSearch } from './TranscriptSearch';
+import { SpeakerManager } from './SpeakerManager';
+import { SpeakerStatsPanel } from './SpeakerStatsPanel';
+import { getLanguageName, getLanguageTag } from '@/utils/languages';
+import { LIVE_INPUT_OPTIONS, LiveInputSource } from '@/utils/audioSources';
+import { DEFAULT_GROUPING_WINDOW_MS } from '@/utils/speakerGroups';
+import { TranscriptFilter } from '@/utils/transcriptFilter';
+import { createMockProviderFactory } from '@/utils/mockProvider';
+
+// Mock replay is offered in development, or when explicitly enabled
+const MOCK_PROVIDER_AVAILABLE = process.env.NODE_ENV === 'development'
+  || process.env.NEXT_PUBLIC_ENABLE_MOCK_PROVIDER === 'true';
 
 /**
  * TranslatorControls Component
@@ -21,7 +38,21 @@ import { SentenceSettings } from './SentenceSettings';
 
 export function TranslatorControls() {
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
+  const [transcriptFilter, setTranscriptFilter] = useState<TranscriptFilter>({});
   const [isDarkMode, setIsDarkMode] = useState(false);
+  const [translationView, setTranslationView] = useState<string>('split'); // 'split' or a language code
+  const [mockReplay, setMockReplay] = useState<MockReplayConfig>(DEFAULT_MOCK_REPLAY_CONFIG);
+
+  // Replay a recorded token stream instead of the live engine (development)
+  const createProvider = useMemo(() => {
+    if (!MOCK_PROVIDER_AVAILABLE || !mockReplay.enabled) return undefined;
+    return createMockProviderFactory(mockReplay.script, {
+      speed: mockReplay.speed,
+      injectedErrors: mockReplay.injectedError === 'none'
+        ? []
+        : [{ atMs: mockReplay.injectedErrorAtMs, error: mockReplay.injectedError }],
+    });
+  }, [mockReplay]);
   
   const {
     isRecording,
@@ -32,7 +63,36 @@ export function TranslatorControls() {
     liveTranslation,
     committedSource,
     liveSource,
+    targetLanguages,
+    committedTranslationByLanguage,
+    liveTranslationByLanguage,
+    liveLineInfo,
     startTranslation,
+    translateFile,
+    inputSource,
+    setInputSource,
+    fileProgress,
+    microphones,
+    microphoneDeviceId,
+    selectMicrophone,
+    inputLevel,
+    isMicTestActive,
+    toggleMicTest,
+    sessionHistory,
+    currentSessionId,
+    currentSessionStartedAt,
+    openSession,
+    renameSession,
+    deleteSession,
+    getSessionRecord,
+    importTranscript,
+    speakerRegistry,
+    renameSpeaker,
+    mergeSpeakers,
+    unmergeSpeaker,
+    resumableSession,
+    resumeSession,
+    dismissResume,
     stopTranslation,
     cancelTranslation,
     clearTranscript,
@@ -51,13 +111,21 @@ export function TranslatorControls() {
     toggleMetrics,
     sourceLanguage,
     setSourceLanguage,
+    targetLanguage,
+    setTargetLanguage,
+    translationMode,
+    setTranslationMode,
+    additionalTargetLanguages,
+    setAdditionalTargetLanguages,
     vocabularyContext,
     setVocabularyContext,
     sentenceMode,
     setSentenceMode,
     sentenceHoldMs,
     setSentenceHoldMs,
-  } = useTranslator();
+    transport,
+    setTransport,
+  } = useTranslator({ createProvider });
 
   // Listen for chat behavior controls
   if (typeof window !== 'undefined') {
@@ -71,9 +139,27 @@ export function TranslatorControls() {
     });
   }
 
-  const groupingWindowMs = (typeof window !== 'undefined' && (window as any).__CHAT_GROUPING_MS) || 4000;
+  const groupingWindowMs = (typeof window !== 'undefined' && (window as any).__CHAT_GROUPING_MS) || DEFAULT_GROUPING_WINDOW_MS;
   const smoothScroll = (typeof window !== 'undefined' && (window as any).__CHAT_SMOOTH) !== false; // default true
 
+  // Conversation mode: show each translation direction side by side
+  const conversationColumns: ChatColumn[] | undefined = translationMode === 'two_way'
+    ? [
+        { language: targetLanguage, label: `${getLanguageName(sourceLanguage)} → ${getLanguageName(targetLanguage)}` },
+        { language: sourceLanguage, label: `${getLanguageName(targetLanguage)} → ${getLanguageName(sourceLanguage)}` },
+      ]
+    : undefined;
+
+  // Multiple target languages: split view (one column per language) or a single language
+  const hasMultipleTargets = translationMode === 'one_way' && targetLanguages.length > 1;
+  const activeView = translationView === 'split' || targetLanguages.includes(translationView)
+    ? translationView
+    : 'split';
+  const targetColumns: ChatColumn[] | undefined = hasMultipleTargets && activeView === 'split'
+    ? targetLanguages.map(lang => ({ language: lang, label: getLanguageName(lang) }))
+    : undefined;
+  const singleViewLanguage = hasMultipleTargets && activeView !== 'split' ? activeView : null;
+
   const toggleSidebar = () => setSidebarCollapsed(!sidebarCollapsed);
   const toggleTheme = () => {
     const newMode = !isDarkMode;
@@ -95,6 +181,24 @@ export function TranslatorControls() {
           errorMessage={reconnectionMessage}
         />
 
+        {/* Resume after crash/reload */}
+        {resumableSession && !isRecording && !isConnecting && (
+          <div style={styles.resumeBox}>
+            <span>
+              💾 <strong>{resumableSession.sessionName}</strong> was interrupted
+              ({resumableSession.committedTranslation.length} lines saved)
+            </span>
+            <div style={styles.resumeActions}>
+              <button onClick={resumeSession} style={styles.resumeButton}>
+                ▶️ Resume session
+              </button>
+              <button onClick={dismissResume} style={styles.dismissButton}>
+                Dismiss
+              </button>
+            </div>
+          </div>
+        )}
+
         {error && !isReconnecting && (
           <div style={styles.errorBox}>
             <strong>Error:</strong> {error}
@@ -134,7 +238,7 @@ export function TranslatorControls() {
             }}>
               <span style={{marginRight: 8}}>🟢 Green = Final</span>
               <span style={{marginRight: 8}}>🔵 Blue italic = Live</span>
-              <span>🌍 DE</span>
+              <span>🌍 {getLanguageTag(sourceLanguage)} {translationMode === 'two_way' ? '⇄' : '→'} {targetLanguages.map(getLanguageTag).join(' · ')}</span>
             </div>
             {/* Status */}
             <div style={styles.statusContainer}>
@@ -148,7 +252,7 @@ export function TranslatorControls() {
                 {isRecording && (
                   <>
                     <span style={styles.statusDot('#10b981')}></span>
-                    <span>Recording & Translating</span>
+                    <span>{fileProgress ? 'Translating File' : 'Recording & Translating'}</span>
                   </>
                 )}
                 {!isConnecting && !isRecording && (
@@ -164,13 +268,27 @@ export function TranslatorControls() {
             <div style={styles.buttonContainer}>
               {!isRecording && !isConnecting && (
                 <>
-                  <button
-                    onClick={startTranslation}
-                    style={styles.primaryButton}
-                    disabled={isConnecting}
-                  >
-                    🎤 Start Translation
-                  </button>
+                  <div style={styles.startRow}>
+                    <select
+                      value={inputSource}
+                      onChange={(e) => setInputSource(e.target.value as LiveInputSource)}
+                      style={styles.inputSelect}
+                      title="Audio input source"
+                    >
+                      {LIVE_INPUT_OPTIONS.map((option) => (
+                        <option key={option.source} value={option.source}>
+                          {option.icon} {option.name}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={startTranslation}
+                      style={styles.primaryButton}
+                      disabled={isConnecting}
+                    >
+                      {LIVE_INPUT_OPTIONS.find(o => o.source === inputSource)?.icon} Start Translation
+                    </button>
+                  </div>
                   
                   {committedTranslation.length > 0 && (
                     <button
@@ -224,11 +342,40 @@ export function TranslatorControls() {
               )}
             </div>
 
+            {/* Microphone device & level (not used for tab-only or file input) */}
+            {inputSource !== 'tab' && !fileProgress && (
+              <MicrophoneSettings
+                microphones={microphones}
+                microphoneDeviceId={microphoneDeviceId}
+                selectMicrophone={selectMicrophone}
+                inputLevel={inputLevel}
+                isMicTestActive={isMicTestActive}
+                toggleMicTest={toggleMicTest}
+                isRecording={isRecording}
+              />
+            )}
+
+            {/* File Translation */}
+            {(!isRecording || fileProgress) && (
+              <FileTranslateControls
+                onTranslateFile={translateFile}
+                fileProgress={fileProgress}
+                isRecording={isRecording}
+                isConnecting={isConnecting}
+              />
+            )}
+
             {/* Language Settings (Phase 6) */}
             {!isRecording && (
               <LanguageSettings
                 sourceLanguage={sourceLanguage}
                 setSourceLanguage={setSourceLanguage}
+                targetLanguage={targetLanguage}
+                setTargetLanguage={setTargetLanguage}
+                translationMode={translationMode}
+                setTranslationMode={setTranslationMode}
+                additionalTargetLanguages={additionalTargetLanguages}
+                setAdditionalTargetLanguages={setAdditionalTargetLanguages}
                 vocabularyContext={vocabularyContext}
                 setVocabularyContext={setVocabularyContext}
                 isRecording={isRecording}
@@ -246,6 +393,24 @@ export function TranslatorControls() {
               />
             )}
 
+            {/* Connection transport */}
+            {!isRecording && (
+              <ConnectionSettings
+                transport={transport}
+                setTransport={setTransport}
+                isRecording={isRecording}
+              />
+            )}
+
+            {/* Mock replay (development) */}
+            {MOCK_PROVIDER_AVAILABLE && !isRecording && (
+              <MockReplaySettings
+                config={mockReplay}
+                setConfig={setMockReplay}
+                isRecording={isRecording}
+              />
+            )}
+
             {/* Sentence Settings */}
             {!isRecording && (
               <SentenceSettings
@@ -263,9 +428,50 @@ export function TranslatorControls() {
                 translations={committedTranslation}
                 source={committedSource}
                 includeSource={showSource}
+                sourceLanguage={sourceLanguage}
+                targetLanguage={targetLanguage}
+                translationsByLanguage={hasMultipleTargets ? committedTranslationByLanguage : undefined}
+                groupingWindowMs={groupingWindowMs}
+                session={sessionHistory.find(session => session.id === currentSessionId)}
+                sessionStartedAt={currentSessionStartedAt ?? undefined}
+                filter={transcriptFilter}
+              />
+            )}
+
+            {/* Speakers (rename, merge) */}
+            <SpeakerManager
+              registry={speakerRegistry}
+              lines={[...committedSource, ...committedTranslation]}
+              onRename={renameSpeaker}
+              onMerge={mergeSpeakers}
+              onUnmerge={unmergeSpeaker}
+            />
+
+            {/* Per-speaker statistics */}
+            <SpeakerStatsPanel translations={committedTranslation} source={committedSource} />
+
+            {/* Transcript Search */}
+            {!isRecording && committedTranslation.length > 0 && (
+              <TranscriptSearch
+                translations={committedTranslation}
+                source={committedSource}
+                sourceLanguage={sourceLanguage}
+                targetLanguage={targetLanguage}
               />
             )}
 
+            {/* Session History */}
+            <SessionHistory
+              sessions={sessionHistory}
+              currentSessionId={currentSessionId}
+              onOpen={openSession}
+              onRename={renameSession}
+              onDelete={deleteSession}
+              getSessionRecord={getSessionRecord}
+              onImport={importTranscript}
+              isRecording={isRecording}
+            />
+
             {/* Latency Metrics (Phase 5) */}
             {showMetrics && (
               <LatencyMetrics
@@ -279,9 +485,18 @@ export function TranslatorControls() {
               <h3 style={styles.infoTitle}>ℹ️ Features</h3>
               <ul style={styles.infoList}>
                 <li><strong>Multi-Language</strong> - 7 languages + auto-detect</li>
+                <li><strong>Conversation Mode</strong> - Two-way translation for bilingual meetings</li>
+                <li><strong>Tab Audio</strong> - Translate calls and webinars playing in another tab</li>
+                <li><strong>File Translation</strong> - Translate recorded audio/video files</li>
+                <li><strong>Multiple Targets</strong> - Translate into several languages at once</li>
                 <li><strong>Smart VAD</strong> - Auto-finalize on silence</li>
                 <li><strong>Sentence Mode</strong> - Stitch complete sentences for better readability</li>
-                <li><strong>Export</strong> - TXT, JSON, SRT formats</li>
+                <li><strong>Export</strong> - TXT, JSON, SRT, VTT, DOCX, Markdown/HTML formats</li>
+                <li><strong>Session History</strong> - Saved in your browser, reopen anytime</li>
+                <li><strong>Speakers</strong> - Rename, color and merge diarized speakers</li>
+                <li><strong>Focus</strong> - Filter the transcript and exports by speaker or language</li>
+                <li><strong>Speaker Balance</strong> - Talk time, turns and interruptions per speaker</li>
+                <li><strong>Import</strong> - Load JSON exports to view, search and re-export</li>
                 <li><strong>Auto-Reconnect</strong> - Resilient connection</li>
               </ul>
             </div>
@@ -312,12 +527,34 @@ export function TranslatorControls() {
               maxWidth: sidebarCollapsed ? '100%' : '75%',
               transition: 'all 0.3s ease-in-out',
             }}>
+              {/* View selector for multiple target languages */}
+              {hasMultipleTargets && (
+                <div style={styles.viewSelector}>
+                  {['split', ...targetLanguages].map(view => (
+                    <button
+                      key={view}
+                      onClick={() => setTranslationView(view)}
+                      style={{
+                        ...styles.viewButton,
+                        ...(activeView === view ? styles.viewButtonActive : {}),
+                      }}
+                    >
+                      {view === 'split' ? '▥ Split' : getLanguageName(view)}
+                    </button>
+                  ))}
+                </div>
+              )}
               <ChatThread 
-                committed={committedTranslation} 
-                liveText={liveTranslation} 
+                committed={singleViewLanguage ? committedTranslationByLanguage[singleViewLanguage] || [] : committedTranslation} 
+                liveText={singleViewLanguage ? liveTranslationByLanguage[singleViewLanguage] || '' : liveTranslation} 
                 isRecording={isRecording}
                 groupingWindowMs={groupingWindowMs}
                 smoothScroll={smoothScroll}
+                columns={conversationColumns || targetColumns}
+                liveTextByLanguage={liveTranslationByLanguage}
+                filter={transcriptFilter}
+                onFilterChange={setTranscriptFilter}
+                liveInfo={liveLineInfo}
               />
             </div>
           </div>
@@ -413,6 +650,28 @@ const styles = {
     maxWidth: '600px',
     margin: '0 auto 1rem auto',
   },
+  viewSelector: {
+    display: 'flex',
+    gap: '0.375rem',
+    marginBottom: '0.5rem',
+    flexWrap: 'wrap' as const,
+  },
+  viewButton: {
+    padding: '0.375rem 0.75rem',
+    backgroundColor: '#ffffff',
+    border: '1px solid #e5e7eb',
+    borderRadius: '0.375rem',
+    cursor: 'pointer',
+    fontSize: '0.75rem',
+    fontWeight: '500',
+    color: '#374151',
+  },
+  viewButtonActive: {
+    backgroundColor: '#eff6ff',
+    border: '1px solid #3b82f6',
+    color: '#1e40af',
+    fontWeight: '600',
+  },
   statusIndicator: {
     backgroundColor: '#f8fafc',
     border: '1px solid #e2e8f0',
@@ -462,6 +721,57 @@ const styles = {
     gap: '0.75rem',
     marginBottom: '1.5rem',
   },
+  resumeBox: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    flexWrap: 'wrap' as const,
+    gap: '0.75rem',
+    padding: '0.75rem 1rem',
+    marginBottom: '1rem',
+    backgroundColor: '#fef3c7',
+    border: '1px solid #fde047',
+    borderRadius: '0.5rem',
+    color: '#92400e',
+    fontSize: '0.875rem',
+  },
+  resumeActions: {
+    display: 'flex',
+    gap: '0.5rem',
+  },
+  resumeButton: {
+    padding: '0.375rem 0.875rem',
+    backgroundColor: '#10b981',
+    color: 'white',
+    border: 'none',
+    borderRadius: '0.375rem',
+    fontSize: '0.8125rem',
+    fontWeight: '600',
+    cursor: 'pointer',
+  },
+  dismissButton: {
+    padding: '0.375rem 0.875rem',
+    backgroundColor: 'transparent',
+    color: '#92400e',
+    border: '1px solid #f59e0b',
+    borderRadius: '0.375rem',
+    fontSize: '0.8125rem',
+    cursor: 'pointer',
+  },
+  startRow: {
+    display: 'flex',
+    gap: '0.5rem',
+    alignItems: 'stretch',
+  },
+  inputSelect: {
+    padding: '0.5rem',
+    backgroundColor: '#ffffff',
+    border: '1px solid #d1d5db',
+    borderRadius: '0.5rem',
+    fontSize: '0.8125rem',
+    color: '#374151',
+    cursor: 'pointer',
+  },
   primaryButton: {
     padding: '0.75rem 1.5rem',
     backgroundColor: '#10b981',
@@ -1,4 +1,4 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import {
   Token,
   processTranslationTokens,
@@ -6,56 +6,133 @@ import {
   commitRemainingTokens,
   generateLineId,
   cleanText,
+  extractCurrentLanguage,
+  extractSourceTokens,
+  getTokenTimeRange,
+  AudioTimeRange,
+  TokenDetail,
+  getTokenDetails,
 } from '@/utils/tokenParser';
-import { VADManager, DEFAULT_VAD_CONFIG } from '@/utils/vadManager';
+import { DEFAULT_VAD_CONFIG } from '@/utils/vadManager';
+import { compileFvadModule, loadVADWorklet, createVADWorkletNode, VADWorkletEvent } from '@/utils/vadWorklet';
 import { KeepaliveManager } from '@/utils/keepaliveManager';
 import {
   RetryManager,
   SessionStateManager,
+  SessionCheckpoint,
   classifyError,
   isRetryableError,
   getUserFriendlyMessage,
   isSessionTerminationError,
+  getApiKeyErrorMessage,
   ErrorType,
 } from '@/utils/errorHandler';
+import { getAuthHeaders } from '@/utils/authToken';
 import { LatencyTracker, LatencyMetrics as LatencyMetricsType } from '@/utils/latencyTracker';
 import { SentenceStitcher } from '@/utils/sentenceStitcher';
 import { TranslationSentenceBuffer } from '@/utils/translationSentenceBuffer';
+import { findOverlappingSourceIds, linkSourceLine } from '@/utils/segmentAlignment';
 import { StreamingTokenProcessor, StreamingMessage, StreamingUpdate } from '@/utils/streamingTokenProcessor';
+import { DEFAULT_SOURCE_LANGUAGE, DEFAULT_TARGET_LANGUAGE, SUPPORTED_LANGUAGES, getLanguageName } from '@/utils/languages';
+import {
+  AudioInputHandle,
+  FileProgress,
+  LiveInputSource,
+  MicrophoneDevice,
+  MICROPHONE_STORAGE_KEY,
+  createLiveInput,
+  createFileInput,
+  createMicrophoneInput,
+  listMicrophones,
+  getInputLevel,
+} from '@/utils/audioSources';
+import {
+  SessionRecord,
+  SessionSummary,
+  generateSessionId,
+  defaultSessionName,
+  collectSpeakers,
+  isHistoryAvailable,
+  saveSession,
+  getSession,
+  listSessions,
+  renameSession as renameStoredSession,
+  deleteSession as deleteStoredSession,
+} from '@/utils/sessionHistory';
+import { readTranscriptFile, TranscriptImportResult } from '@/utils/transcriptImport';
+import {
+  SpeakerRegistry,
+  registerSpeakers,
+  applySpeakerRegistry,
+  getSpeakerInfo,
+  registryFromLines,
+  renameSpeaker as renameSpeakerProfile,
+  mergeSpeakers as mergeSpeakerProfiles,
+  unmergeSpeaker as unmergeSpeakerProfile,
+} from '@/utils/speakerRegistry';
+import { TemporaryKeyResponse, TranslatorTransport } from '@/types/soniox';
+import {
+  TranslationProvider,
+  TranslationProviderFactory,
+  TranslatorResult,
+  ProviderError,
+  ProviderEvent,
+} from '@/utils/translationProvider';
+import { createSonioxProvider } from '@/utils/sonioxProvider';
+import { LiveLineInfo } from '@/utils/transcriptFilter';
 
 /**
  * useTranslator Hook
  * 
- * Manages real-time German to English speech translation using Soniox API.
+ * Manages real-time speech translation (configurable source → target language) using a
+ * TranslationProvider (Soniox by default).
  * 
  * Features:
- * - Microphone audio capture
+ * - Microphone, tab audio or audio/video file input
  * - Real-time translation streaming
  * - Token parsing and state management
  * - Live vs committed line separation
  * - Error handling and connection management
+ * - Session history persisted to IndexedDB
+ * - Crash-safe checkpoints with resume after reload
  * 
  * Phase 2 Implementation: Token parsing & UI state management
  */
 
-interface TranslatorResult {
-  tokens: Token[];
-  final_audio_proc_ms?: number;
-  total_audio_proc_ms?: number;
-}
-
 export interface TranscriptLine {
   id: string;
   text: string;
   timestamp: number;
   speaker?: string;  // Speaker label (e.g., "1", "2", "3")
+  language?: string;  // Language of the line text (e.g., "en")
+  sourceLanguage?: string;  // For translations: language the speech was translated from
+  isGap?: boolean;  // Marker for an interruption (e.g., resumed after a crash)
+  startMs?: number;  // Audio time of the speech, relative to the session start
+  endMs?: number;
+  sourceLineIds?: string[];  // For translations: source lines overlapping in audio time
+  tokens?: TokenDetail[];  // Recognition detail (token times relative to the session start)
+  speakerName?: string;  // Display name from the speaker registry
+  speakerColor?: string;  // Display color from the speaker registry
 }
 
+/**
+ * Translation mode
+ * - one_way: source language → target language
+ * - two_way: conversation between source and target language, each side translated into the other
+ */
+export type TranslationMode = 'one_way' | 'two_way';
+
+// Transport used until changed in the UI (NEXT_PUBLIC_TRANSLATOR_TRANSPORT=relay for locked-down networks)
+const DEFAULT_TRANSPORT: TranslatorTransport =
+  process.env.NEXT_PUBLIC_TRANSLATOR_TRANSPORT === 'relay' ? 'relay' : 'direct';
+
 interface UseTranslatorReturn {
   // Connection state
   isRecording: boolean;
   isConnecting: boolean;
   error: string | null;
+  transport: TranslatorTransport;  // direct (browser WebSocket to Soniox) or relay (through our server)
+  setTransport: (transport: TranslatorTransport) => void;
   
   // Streaming content (Phase 8.5 - Chat-style)
   streamingMessages: StreamingMessage[];
@@ -67,12 +144,51 @@ interface UseTranslatorReturn {
   committedSource: TranscriptLine[];
   liveSource: string;
   
+  // Content per target language (two-way conversation / multiple target languages)
+  targetLanguages: string[];
+  committedTranslationByLanguage: Record<string, TranscriptLine[]>;
+  liveTranslationByLanguage: Record<string, string>;
+  liveLineInfo: LiveLineInfo; // Speaker and detected language of the live text (for filtering)
+  
   // Control functions
   startTranslation: () => Promise<void>;
+  translateFile: (file: File, playbackRate?: number) => Promise<void>;
   stopTranslation: () => void;
   cancelTranslation: () => void;
   clearTranscript: () => void;
   
+  // Audio input
+  inputSource: LiveInputSource;
+  setInputSource: (source: LiveInputSource) => void;
+  fileProgress: FileProgress | null;  // null when using a live input
+  microphones: MicrophoneDevice[];
+  microphoneDeviceId: string;  // '' = system default
+  selectMicrophone: (deviceId: string) => void;
+  inputLevel: number;  // 0-1
+  isMicTestActive: boolean;
+  toggleMicTest: () => void;
+  
+  // Session history
+  sessionHistory: SessionSummary[];
+  currentSessionId: string | null;
+  currentSessionStartedAt: number | null;  // Origin of the lines' audio times (startMs/endMs)
+  openSession: (id: string) => Promise<void>;
+  renameSession: (id: string, name: string) => Promise<void>;
+  deleteSession: (id: string) => Promise<void>;
+  getSessionRecord: (id: string) => Promise<SessionRecord | null>;
+  importTranscript: (file: File) => Promise<TranscriptImportResult>;
+  
+  // Speakers (names, colors, merges)
+  speakerRegistry: SpeakerRegistry;
+  renameSpeaker: (label: string, name: string) => void;
+  mergeSpeakers: (from: string, into: string) => void;
+  unmergeSpeaker: (label: string) => void;
+  
+  // Crash recovery
+  resumableSession: SessionCheckpoint | null;
+  resumeSession: () => Promise<void>;
+  dismissResume: () => void;
+  
   // Display options
   showSource: boolean;
   toggleSource: () => void;
@@ -97,6 +213,12 @@ interface UseTranslatorReturn {
   // Language & context settings (Phase 6)
   sourceLanguage: string;
   setSourceLanguage: (lang: string) => void;
+  targetLanguage: string;
+  setTargetLanguage: (lang: string) => void;
+  translationMode: TranslationMode;
+  setTranslationMode: (mode: TranslationMode) => void;
+  additionalTargetLanguages: string[];
+  setAdditionalTargetLanguages: (langs: string[]) => void;
   vocabularyContext: string;
   setVocabularyContext: (context: string) => void;
   
@@ -110,14 +232,53 @@ interface UseTranslatorReturn {
   toggleStreamingMode: () => void;
 }
 
-export function useTranslator(): UseTranslatorReturn {
+export interface UseTranslatorOptions {
+  createProvider?: TranslationProviderFactory;  // Translation engine (default: Soniox)
+}
+
+// How long a graceful stop waits for secondary sessions to deliver their last results
+const SECONDARY_FINISH_TIMEOUT_MS = 3000;
+
+interface SecondarySession {
+  language: string;
+  provider: TranslationProvider;
+  finished: Promise<void>;  // Resolves on 'finished', 'error' or a failed start
+}
+
+/**
+ * Copy of a line without its token detail
+ */
+function withoutTokens(line: TranscriptLine): TranscriptLine {
+  if (!line.tokens) return line;
+  const { tokens: _tokens, ...rest } = line;
+  return rest;
+}
+
+/**
+ * Re-attach token detail to checkpoint lines from saved lines with the same id
+ */
+function withTokensFrom(lines: TranscriptLine[], saved: TranscriptLine[]): TranscriptLine[] {
+  const tokensById = new Map(saved.filter(l => l.tokens).map(l => [l.id, l.tokens]));
+  return lines.map(line => {
+    const tokens = tokensById.get(line.id);
+    return tokens && !line.tokens ? { ...line, tokens } : line;
+  });
+}
+
+export function useTranslator(options: UseTranslatorOptions = {}): UseTranslatorReturn {
+  // Latest provider factory (callers may pass a new function each render)
+  const createProviderRef = useRef<TranslationProviderFactory>(createSonioxProvider);
+  createProviderRef.current = options.createProvider || createSonioxProvider;
+
   // Connection state
   const [isRecording, setIsRecording] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [transport, setTransport] = useState<TranslatorTransport>(DEFAULT_TRANSPORT);
 
   // Streaming content state (Phase 8.5 - Chat-style)
   const [streamingMessages, setStreamingMessages] = useState<StreamingMessage[]>([]);
+  const [speakerRegistry, setSpeakerRegistry] = useState<SpeakerRegistry>({});
   const [isStreamingMode, setIsStreamingMode] = useState<boolean>(false); // Default to combined legacy flow
   
   // Legacy content state (for backward compatibility)
@@ -125,6 +286,25 @@ export function useTranslator(): UseTranslatorReturn {
   const [liveTranslation, setLiveTranslation] = useState<string>('');
   const [committedSource, setCommittedSource] = useState<TranscriptLine[]>([]);
   const [liveSource, setLiveSource] = useState<string>('');
+  const [liveTranslationByLanguage, setLiveTranslationByLanguage] = useState<Record<string, string>>({});
+  const [liveLineInfo, setLiveLineInfo] = useState<LiveLineInfo>({});
+  
+  // Audio input
+  const [inputSource, setInputSource] = useState<LiveInputSource>('microphone');
+  const [fileProgress, setFileProgress] = useState<FileProgress | null>(null);
+  const [microphones, setMicrophones] = useState<MicrophoneDevice[]>([]);
+  const [microphoneDeviceId, setMicrophoneDeviceId] = useState<string>('');
+  const [inputLevel, setInputLevel] = useState<number>(0);
+  const [isMicTestActive, setIsMicTestActive] = useState<boolean>(false);
+  
+  // Session history
+  const [sessionHistory, setSessionHistory] = useState<SessionSummary[]>([]);
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [currentSessionStartedAt, setCurrentSessionStartedAt] = useState<number | null>(null);
+  
+  // Crash recovery
+  const [resumableSession, setResumableSession] = useState<SessionCheckpoint | null>(null);
+  const [resumeRequested, setResumeRequested] = useState<boolean>(false);
   
   // Display options
   const [showSource, setShowSource] = useState<boolean>(false);
@@ -154,7 +334,10 @@ export function useTranslator(): UseTranslatorReturn {
   const [showMetrics, setShowMetrics] = useState<boolean>(false);
   
   // Language & context settings (Phase 6)
-  const [sourceLanguage, setSourceLanguage] = useState<string>('de'); // Default: German
+  const [sourceLanguage, setSourceLanguage] = useState<string>(DEFAULT_SOURCE_LANGUAGE); // Default: German
+  const [targetLanguage, setTargetLanguage] = useState<string>(DEFAULT_TARGET_LANGUAGE); // Default: English
+  const [translationMode, setTranslationMode] = useState<TranslationMode>('one_way');
+  const [additionalTargetLanguages, setAdditionalTargetLanguages] = useState<string[]>([]); // Extra one-way targets
   const [vocabularyContext, setVocabularyContext] = useState<string>('');
   
   // Sentence stitching settings
@@ -163,16 +346,24 @@ export function useTranslator(): UseTranslatorReturn {
 
   // Refs to maintain state across renders
   const mediaStreamRef = useRef<MediaStream | null>(null);
-  const sonioxClientRef = useRef<any>(null);
+  const audioInputRef = useRef<AudioInputHandle | null>(null);
+  const pendingFileRef = useRef<{ file: File; playbackRate: number } | null>(null);
+  const micTestRef = useRef<AudioInputHandle | null>(null);
+  
+  // Current history session (persisted as lines are committed)
+  const sessionRecordRef = useRef<{ id: string; name: string; startedAt: number; endedAt: number | null } | null>(null);
+  const hasCheckpointRef = useRef<boolean>(false);
+  // Maps Soniox audio time (restarts with each connection) to session time
+  const audioClockRef = useRef<{ offsetMs: number; scale: number }>({ offsetMs: 0, scale: 1 });
+  const providerRef = useRef<TranslationProvider | null>(null);
   
   // Token buffer for source (non-final tokens)
   // Translation tokens now handled by TranslationSentenceBuffer (Phase 8)
   const sourceBufferRef = useRef<Token[]>([]);
   
   // VAD and Keepalive managers (Phase 3)
-  const vadManagerRef = useRef<VADManager | null>(null);
   const keepaliveManagerRef = useRef<KeepaliveManager | null>(null);
-  const audioProcessorRef = useRef<ScriptProcessorNode | null>(null);
+  const audioProcessorRef = useRef<AudioWorkletNode | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   
   // Error handling managers (Phase 4)
@@ -191,6 +382,73 @@ export function useTranslator(): UseTranslatorReturn {
   
   // Streaming token processor (Phase 8.5 - Chat-style streaming)
   const streamingProcessorRef = useRef<StreamingTokenProcessor | null>(null);
+  
+  // Secondary sessions for additional target languages (one Soniox session per language)
+  const secondaryProvidersRef = useRef<SecondarySession[]>([]);
+  
+  // Latest non-final translation tokens per language, across all sessions
+  const partialTranslationRef = useRef<Record<string, Token[]>>({});
+
+  // Committed source lines, readable from token callbacks (for segment linking)
+  const committedSourceRef = useRef<TranscriptLine[]>([]);
+
+  // All output languages of the current configuration (primary target first)
+  const targetLanguages = useMemo(() => {
+    if (translationMode === 'two_way') {
+      return [targetLanguage, sourceLanguage];
+    }
+    return [targetLanguage, ...additionalTargetLanguages.filter(lang => lang !== targetLanguage)];
+  }, [translationMode, targetLanguage, sourceLanguage, additionalTargetLanguages]);
+
+  // Route tokens into per-language streams whenever more than one language is produced
+  const routeByLanguage = targetLanguages.length > 1;
+
+  // Register speakers as they appear (assigns stable colors)
+  useEffect(() => {
+    const labels = [...committedSource, ...committedTranslation, ...streamingMessages]
+      .map(item => item.speaker)
+      .filter((label): label is string => !!label);
+    setSpeakerRegistry(prev => registerSpeakers(prev, labels));
+  }, [committedTranslation, committedSource, streamingMessages]);
+
+  // Lines as displayed and exported: speaker names, colors and merges applied
+  const displayTranslation = useMemo(
+    () => applySpeakerRegistry(committedTranslation, speakerRegistry),
+    [committedTranslation, speakerRegistry]
+  );
+  const displaySource = useMemo(
+    () => applySpeakerRegistry(committedSource, speakerRegistry),
+    [committedSource, speakerRegistry]
+  );
+  const displayStreamingMessages = useMemo(
+    () => Object.keys(speakerRegistry).length === 0
+      ? streamingMessages
+      : streamingMessages.map(message => {
+          const info = getSpeakerInfo(speakerRegistry, message.speaker);
+          return { ...message, speaker: info.label, speakerName: info.name, speakerColor: info.color };
+        }),
+    [streamingMessages, speakerRegistry]
+  );
+
+  const displayLiveLineInfo = useMemo(
+    () => liveLineInfo.speaker && speakerRegistry[liveLineInfo.speaker]
+      ? { ...liveLineInfo, speaker: getSpeakerInfo(speakerRegistry, liveLineInfo.speaker).label }
+      : liveLineInfo,
+    [liveLineInfo, speakerRegistry]
+  );
+
+  // Committed translations keyed by language
+  const committedTranslationByLanguage = useMemo(() => {
+    const byLanguage: Record<string, TranscriptLine[]> = {};
+    targetLanguages.forEach(lang => {
+      byLanguage[lang] = [];
+    });
+    displayTranslation.forEach(line => {
+      const lang = line.language || targetLanguage;
+      (byLanguage[lang] = byLanguage[lang] || []).push(line);
+    });
+    return byLanguage;
+  }, [displayTranslation, targetLanguages, targetLanguage]);
 
   /**
    * Clear transcript and reset state
@@ -202,6 +460,7 @@ export function useTranslator(): UseTranslatorReturn {
     setLiveTranslation('');
     setCommittedSource([]);
     setLiveSource('');
+    setLiveTranslationByLanguage({});
     
     // Clear streaming state
     setStreamingMessages([]);
@@ -217,11 +476,332 @@ export function useTranslator(): UseTranslatorReturn {
     }
     
     sourceBufferRef.current = [];
+    partialTranslationRef.current = {};
+    setSpeakerRegistry({});
+    
+    // The cleared transcript stays in history; the next start begins a new session
+    sessionRecordRef.current = null;
+    setCurrentSessionId(null);
+    setCurrentSessionStartedAt(null);
     console.log('🗑️ Transcript cleared (legacy + streaming)');
   }, []);
 
   /**
-   * Toggle source (German original) display
+   * Reload the session history list
+   */
+  const refreshHistory = useCallback(async () => {
+    if (!isHistoryAvailable()) {
+      return;
+    }
+    try {
+      setSessionHistory(await listSessions());
+    } catch (err) {
+      console.error('❌ Failed to load session history:', err);
+    }
+  }, []);
+
+  // Load history on mount
+  useEffect(() => {
+    refreshHistory();
+  }, [refreshHistory]);
+
+  // Persist the current session whenever lines are committed or recording starts/stops
+  useEffect(() => {
+    const session = sessionRecordRef.current;
+    if (!session || !isHistoryAvailable()) {
+      return;
+    }
+
+    if (isRecording) {
+      session.endedAt = null;
+    } else if (session.endedAt === null) {
+      session.endedAt = Date.now();
+    }
+
+    if (committedTranslation.length === 0 && committedSource.length === 0) {
+      return;
+    }
+
+    const metrics = latencyTrackerRef.current.getMetrics();
+    const record: SessionRecord = {
+      ...session,
+      sourceLanguage,
+      targetLanguage,
+      targetLanguages,
+      translationMode,
+      committedTranslation,
+      committedSource,
+      speakers: collectSpeakers([...committedSource, ...committedTranslation]),
+      speakerRegistry,
+      latency: metrics.sampleCount > 0
+        ? {
+            averageLatency: metrics.averageLatency,
+            minLatency: Number.isFinite(metrics.minLatency) ? metrics.minLatency : null,
+            maxLatency: metrics.maxLatency,
+            sampleCount: metrics.sampleCount,
+          }
+        : null,
+    };
+
+    saveSession(record)
+      .then(refreshHistory)
+      .catch((err) => console.error('❌ Failed to save session:', err));
+  }, [committedTranslation, committedSource, speakerRegistry, isRecording, sourceLanguage, targetLanguage, targetLanguages, translationMode, refreshHistory]);
+
+  // Offer to resume a session interrupted by a crash or reload
+  useEffect(() => {
+    const checkpoint = sessionStateRef.current.loadCheckpoint();
+    if (checkpoint && checkpoint.committedTranslation.length + checkpoint.committedSource.length > 0) {
+      console.log(`💾 Found interrupted session: ${checkpoint.sessionName}`);
+      setResumableSession(checkpoint);
+    }
+  }, []);
+
+  // Checkpoint the running session on every commit; clear it when the session ends normally
+  useEffect(() => {
+    const session = sessionRecordRef.current;
+    const isActive = isRecording || isConnecting || isReconnecting;
+
+    if (session && isActive && (committedTranslation.length > 0 || committedSource.length > 0)) {
+      hasCheckpointRef.current = sessionStateRef.current.saveCheckpoint({
+        sessionId: session.id,
+        sessionName: session.name,
+        startedAt: session.startedAt,
+        savedAt: Date.now(),
+        // Token detail stays in the history record; localStorage space is limited
+        committedTranslation: committedTranslation.map(withoutTokens),
+        committedSource: committedSource.map(withoutTokens),
+        speakerRegistry,
+        settings: {
+          sourceLanguage,
+          targetLanguage,
+          translationMode,
+          additionalTargetLanguages,
+          vocabularyContext,
+          inputSource: fileProgress ? 'file' : inputSource,
+        },
+      });
+    } else if (!isActive && hasCheckpointRef.current) {
+      sessionStateRef.current.clearCheckpoint();
+      hasCheckpointRef.current = false;
+    }
+  }, [committedTranslation, committedSource, speakerRegistry, isRecording, isConnecting, isReconnecting, sourceLanguage, targetLanguage, translationMode, additionalTargetLanguages, vocabularyContext, inputSource, fileProgress]);
+
+  /**
+   * Resume an interrupted session
+   * Restores the transcript and settings, marks the gap, and reconnects.
+   * Token detail comes from the history record (checkpoints store lines without it).
+   */
+  const resumeSession = useCallback(async () => {
+    const checkpoint = resumableSession;
+    if (!checkpoint || isRecording || isConnecting) {
+      return;
+    }
+    setResumableSession(null);
+
+    const record = await getSession(checkpoint.sessionId).catch((err) => {
+      console.error('❌ Failed to load session for resume, restoring without token detail:', err);
+      return null;
+    });
+    if (!record) {
+      console.warn('⚠️ Interrupted session not in history - token detail is lost');
+    }
+
+    const { settings } = checkpoint;
+    setSourceLanguage(settings.sourceLanguage);
+    setTargetLanguage(settings.targetLanguage);
+    setTranslationMode(settings.translationMode);
+    setAdditionalTargetLanguages(settings.additionalTargetLanguages);
+    setVocabularyContext(settings.vocabularyContext);
+
+    // Visible marker for the audio lost while the page was gone
+    const resumedAt = Date.now();
+    const timeFormat: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit', second: '2-digit' };
+    const gapLine: TranscriptLine = {
+      id: generateLineId(),
+      text: `Session interrupted ${new Date(checkpoint.savedAt).toLocaleTimeString([], timeFormat)} – resumed ${new Date(resumedAt).toLocaleTimeString([], timeFormat)}`,
+      timestamp: resumedAt,
+      isGap: true,
+    };
+    setCommittedTranslation([
+      ...withTokensFrom(checkpoint.committedTranslation, record?.committedTranslation ?? []),
+      gapLine,
+    ]);
+    setCommittedSource(withTokensFrom(checkpoint.committedSource, record?.committedSource ?? []));
+    setSpeakerRegistry(checkpoint.speakerRegistry || {});
+    setLiveTranslation('');
+    setLiveSource('');
+    setLiveTranslationByLanguage({});
+
+    // Keep saving into the same history session
+    sessionRecordRef.current = {
+      id: checkpoint.sessionId,
+      name: checkpoint.sessionName,
+      startedAt: checkpoint.startedAt,
+      endedAt: null,
+    };
+    setCurrentSessionId(checkpoint.sessionId);
+    setCurrentSessionStartedAt(checkpoint.startedAt);
+
+    // Files cannot be replayed from where they stopped - restore the transcript only
+    if (settings.inputSource !== 'file') {
+      setInputSource(settings.inputSource);
+      setResumeRequested(true);
+    } else {
+      sessionStateRef.current.clearCheckpoint();
+    }
+    console.log(`▶️ Resuming session: ${checkpoint.sessionName}`);
+  }, [resumableSession, isRecording, isConnecting]);
+
+  /**
+   * Discard the interrupted session (it remains in history)
+   */
+  const dismissResume = useCallback(() => {
+    sessionStateRef.current.clearCheckpoint();
+    setResumableSession(null);
+  }, []);
+
+  /**
+   * Reopen a past session from history
+   */
+  const openSession = useCallback(async (id: string) => {
+    if (isRecording || isConnecting) {
+      console.warn('⚠️ Cannot open a session while recording');
+      return;
+    }
+
+    const record = await getSession(id);
+    if (!record) {
+      setError('Session not found in history.');
+      return;
+    }
+
+    sessionRecordRef.current = {
+      id: record.id,
+      name: record.name,
+      startedAt: record.startedAt,
+      endedAt: record.endedAt || record.startedAt,
+    };
+    setCurrentSessionId(record.id);
+    setCurrentSessionStartedAt(record.startedAt);
+
+    setSourceLanguage(record.sourceLanguage);
+    setTargetLanguage(record.targetLanguage);
+    setTranslationMode(record.translationMode);
+    setAdditionalTargetLanguages(
+      record.translationMode === 'one_way'
+        ? record.targetLanguages.filter(lang => lang !== record.targetLanguage)
+        : []
+    );
+
+    setCommittedTranslation(record.committedTranslation);
+    setCommittedSource(record.committedSource);
+    setSpeakerRegistry(record.speakerRegistry || {});
+    setLiveTranslation('');
+    setLiveSource('');
+    setLiveTranslationByLanguage({});
+    setStreamingMessages([]);
+    console.log(`📂 Opened session: ${record.name}`);
+  }, [isRecording, isConnecting]);
+
+  /**
+   * Import a JSON export and load it as the current transcript
+   * The transcript is stored as a new history session, so it can be
+   * reopened, searched and re-exported like a recorded one.
+   */
+  const importTranscript = useCallback(async (file: File): Promise<TranscriptImportResult> => {
+    if (isRecording || isConnecting) {
+      return { isValid: false, errors: ['Stop the current session before importing a transcript.'], warnings: [] };
+    }
+
+    const result = await readTranscriptFile(file);
+    if (!result.isValid || !result.transcript) {
+      console.warn(`⚠️ Import of ${file.name} failed:`, result.errors);
+      return result;
+    }
+
+    const transcript = result.transcript;
+    const importedTargets = Array.from(new Set(transcript.committedTranslation.map(line => line.language || transcript.targetLanguage)));
+    const session = {
+      id: generateSessionId(),
+      name: transcript.name || `Imported · ${file.name}`,
+      startedAt: transcript.startedAt,
+      endedAt: transcript.endedAt,
+    };
+    sessionRecordRef.current = session;
+    setCurrentSessionId(session.id);
+    setCurrentSessionStartedAt(session.startedAt);
+
+    setSourceLanguage(transcript.sourceLanguage);
+    setTargetLanguage(transcript.targetLanguage);
+    setTranslationMode(transcript.translationMode);
+    setAdditionalTargetLanguages(
+      transcript.translationMode === 'one_way'
+        ? importedTargets.filter(lang => lang !== transcript.targetLanguage)
+        : []
+    );
+
+    setCommittedTranslation(transcript.committedTranslation);
+    setCommittedSource(transcript.committedSource);
+    setSpeakerRegistry(registryFromLines([...transcript.committedSource, ...transcript.committedTranslation]));
+    setLiveTranslation('');
+    setLiveSource('');
+    setLiveTranslationByLanguage({});
+    setStreamingMessages([]);
+    setError(null);
+    console.log(`📥 Imported ${transcript.committedTranslation.length} lines from ${file.name} (format ${transcript.version})`);
+    return result;
+  }, [isRecording, isConnecting]);
+
+  /**
+   * Rename a speaker (applies to past lines and exports)
+   */
+  const renameSpeaker = useCallback((label: string, name: string) => {
+    setSpeakerRegistry(prev => renameSpeakerProfile(prev, label, name));
+  }, []);
+
+  /**
+   * Merge a speaker label that diarization split off into another
+   */
+  const mergeSpeakers = useCallback((from: string, into: string) => {
+    setSpeakerRegistry(prev => mergeSpeakerProfiles(prev, from, into));
+    console.log(`👥 Merged Speaker ${from} into Speaker ${into}`);
+  }, []);
+
+  /**
+   * Undo a speaker merge
+   */
+  const unmergeSpeaker = useCallback((label: string) => {
+    setSpeakerRegistry(prev => unmergeSpeakerProfile(prev, label));
+  }, []);
+
+  /**
+   * Rename a session in history
+   */
+  const renameSession = useCallback(async (id: string, name: string) => {
+    await renameStoredSession(id, name);
+    if (sessionRecordRef.current?.id === id) {
+      sessionRecordRef.current.name = name;
+    }
+    await refreshHistory();
+  }, [refreshHistory]);
+
+  /**
+   * Delete a session from history
+   * The transcript on screen is kept but no longer saved to that session.
+   */
+  const deleteSession = useCallback(async (id: string) => {
+    await deleteStoredSession(id);
+    if (sessionRecordRef.current?.id === id) {
+      sessionRecordRef.current = null;
+      setCurrentSessionId(null);
+      setCurrentSessionStartedAt(null);
+    }
+    await refreshHistory();
+  }, [refreshHistory]);
+
+  /**
+   * Toggle source (original language) display
    */
   const toggleSource = useCallback(() => {
     setShowSource(prev => !prev);
@@ -245,24 +825,59 @@ export function useTranslator(): UseTranslatorReturn {
     setShowMetrics(prev => !prev);
   }, []);
 
+  /**
+   * Stop (graceful) or cancel all secondary target-language sessions
+   * A graceful stop resolves once every session has delivered its last results
+   * (or after SECONDARY_FINISH_TIMEOUT_MS), so they can still be committed.
+   */
+  const stopSecondarySessions = useCallback(async (graceful: boolean): Promise<void> => {
+    const sessions = secondaryProvidersRef.current;
+    secondaryProvidersRef.current = [];
+
+    sessions.forEach(({ language, provider }) => {
+      try {
+        if (graceful) {
+          provider.stop();
+        } else {
+          provider.cancel();
+        }
+      } catch (err) {
+        console.error(`❌ Error stopping ${language} session:`, err);
+      }
+    });
+
+    if (!graceful || sessions.length === 0) {
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<void>((resolve) => {
+      timer = setTimeout(() => {
+        console.warn('⚠️ Secondary sessions did not finish in time');
+        resolve();
+      }, SECONDARY_FINISH_TIMEOUT_MS);
+    });
+    await Promise.race([Promise.all(sessions.map(s => s.finished)), timeout]);
+    clearTimeout(timer);
+  }, []);
+
   /**
    * Cleanup VAD and Keepalive managers
    */
   const cleanupManagers = useCallback(async () => {
+    // Cancel secondary target-language sessions still running
+    stopSecondarySessions(false);
+    partialTranslationRef.current = {};
+
     // Stop and cleanup keepalive
     if (keepaliveManagerRef.current) {
       keepaliveManagerRef.current.stop();
       keepaliveManagerRef.current = null;
     }
 
-    // Destroy and cleanup VAD
-    if (vadManagerRef.current) {
-      await vadManagerRef.current.destroy();
-      vadManagerRef.current = null;
-    }
-
-    // Cleanup audio processing
+    // Cleanup VAD worklet (its fvad instance goes with the audio context)
     if (audioProcessorRef.current) {
+      audioProcessorRef.current.port.onmessage = null;
       audioProcessorRef.current.disconnect();
       audioProcessorRef.current = null;
     }
@@ -289,6 +904,64 @@ export function useTranslator(): UseTranslatorReturn {
       streamingProcessorRef.current.reset();
       streamingProcessorRef.current = null;
     }
+  }, [stopSecondarySessions]);
+
+  /**
+   * Refresh live translation previews
+   * Stores the latest non-final tokens for the languages a session produces,
+   * then rebuilds the combined and per-language previews from all sessions.
+   */
+  const updateLiveTranslations = useCallback((languages: string[], nonFinalTokens: Token[]) => {
+    if (!translationBufferRef.current) {
+      return;
+    }
+
+    languages.forEach(lang => {
+      partialTranslationRef.current[lang] = nonFinalTokens.filter(t =>
+        t.language ? t.language === lang : lang === languages[0]
+      );
+    });
+
+    const allPartials = Object.values(partialTranslationRef.current).flat();
+    const latest = allPartials[allPartials.length - 1];
+    setLiveLineInfo(latest ? { speaker: latest.speaker, language: latest.source_language } : {});
+    setLiveTranslation(translationBufferRef.current.getLivePreview(allPartials));
+    setLiveTranslationByLanguage(translationBufferRef.current.getLivePreviewByLanguage(allPartials));
+  }, []);
+
+  useEffect(() => {
+    committedSourceRef.current = committedSource;
+  }, [committedSource]);
+
+  /**
+   * Commit a source line and link it to translations it overlaps
+   */
+  const commitSourceLine = useCallback((line: TranscriptLine) => {
+    committedSourceRef.current = [...committedSourceRef.current, line];
+    setCommittedSource(prev => [...prev, line]);
+    if (line.startMs !== undefined) {
+      setCommittedTranslation(prev => linkSourceLine(prev, line));
+    }
+  }, []);
+
+  /**
+   * Convert a Soniox audio-time range to session time (for subtitle timing)
+   */
+  const toSessionTime = useCallback((range?: AudioTimeRange): Pick<TranscriptLine, 'startMs' | 'endMs'> => {
+    if (!range) return {};
+    const { offsetMs, scale } = audioClockRef.current;
+    return {
+      startMs: Math.round(offsetMs + range.startMs * scale),
+      endMs: Math.round(offsetMs + range.endMs * scale),
+    };
+  }, []);
+
+  /**
+   * Per-token detail for a committed line, with times in session time
+   */
+  const toLineTokens = useCallback((tokens: Token[]): TokenDetail[] => {
+    const { offsetMs, scale } = audioClockRef.current;
+    return getTokenDetails(tokens, ms => Math.round(offsetMs + ms * scale));
   }, []);
 
   /**
@@ -330,10 +1003,14 @@ export function useTranslator(): UseTranslatorReturn {
       updatedBuffer: updatedSourceBuffer,
       liveText: newLiveSource,
       currentSpeaker,
+      currentLanguage,
     } = processSourceTokens(tokens, sourceBufferRef.current);
 
     sourceBufferRef.current = updatedSourceBuffer;
 
+    // Record source speech timing, used to time translation sentences
+    translationBufferRef.current?.addSourceTiming(tokens);
+
     // Update current speaker in translation buffer (Phase 8)
     console.log(`👤 Legacy mode - currentSpeaker from source tokens: ${currentSpeaker}`);
     if (translationBufferRef.current && currentSpeaker) {
@@ -343,7 +1020,7 @@ export function useTranslator(): UseTranslatorReturn {
       console.warn(`⚠️ No speaker detected in source tokens`);
     }
 
-    // Process translation tokens (English) - Phase 8: Use new buffer system
+    // Process translation tokens (target language) - Phase 8: Use new buffer system
     const {
       finalTokens,
       nonFinalTokens,
@@ -357,8 +1034,9 @@ export function useTranslator(): UseTranslatorReturn {
         translationBufferRef.current.addTranslationTokens(allTranslationTokens);
       }
       
-      const livePreview = translationBufferRef.current.getLivePreview(nonFinalTokens);
-      setLiveTranslation(livePreview);
+      // The primary session produces both directions in conversation mode
+      const primaryLanguages = translationMode === 'two_way' ? targetLanguages : [targetLanguage];
+      updateLiveTranslations(primaryLanguages, nonFinalTokens);
     } else {
       // Fallback: Old behavior if buffer not initialized
       const {
@@ -381,15 +1059,19 @@ export function useTranslator(): UseTranslatorReturn {
 
     // Commit new final source text (with speaker label)
     if (newSourceText.trim().length > 0) {
+      const finalSourceTokens = extractSourceTokens(tokens).filter(t => t.is_final);
       const cleanedText = cleanText(newSourceText);
       const newLine: TranscriptLine = {
         id: generateLineId(),
         text: cleanedText,
         timestamp: Date.now(),
         speaker: currentSpeaker,
+        language: currentLanguage,
+        ...toSessionTime(getTokenTimeRange(finalSourceTokens)),
+        tokens: toLineTokens(finalSourceTokens),
       };
       
-      setCommittedSource(prev => [...prev, newLine]);
+      commitSourceLine(newLine);
       console.log(`✅ Committed source (Speaker ${currentSpeaker || 'unknown'}): ${cleanedText}`);
     }
 
@@ -400,7 +1082,34 @@ export function useTranslator(): UseTranslatorReturn {
     if (audioProcessedMs !== undefined) {
       latencyTrackerRef.current.markTokenReceived(audioProcessedMs);
     }
-  }, [isStreamingMode]);
+  }, [isStreamingMode, translationMode, targetLanguages, targetLanguage, updateLiveTranslations, toSessionTime, toLineTokens, commitSourceLine]);
+
+  /**
+   * Process tokens from a secondary target-language session
+   * Source text and speakers come from the primary session, so only translations are used.
+   */
+  const handleSecondaryTokenUpdate = useCallback((language: string, tokens: Token[]) => {
+    const { finalTokens, nonFinalTokens } = processTranslationTokens(tokens, []);
+
+    // Make sure tokens are routed to this session's language
+    const tagged = (list: Token[]) => list.map(t => (t.language ? t : { ...t, language }));
+    const allTranslationTokens = tagged([...finalTokens, ...nonFinalTokens]);
+
+    if (streamingProcessorRef.current && isStreamingMode) {
+      streamingProcessorRef.current.processTokens(allTranslationTokens);
+      setStreamingMessages(streamingProcessorRef.current.getAllMessages());
+      return;
+    }
+
+    if (!translationBufferRef.current) {
+      return;
+    }
+
+    if (allTranslationTokens.length > 0) {
+      translationBufferRef.current.addTranslationTokens(allTranslationTokens);
+    }
+    updateLiveTranslations([language], tagged(nonFinalTokens));
+  }, [isStreamingMode, updateLiveTranslations]);
 
   /**
    * Manually finalize current utterance (Phase 3)
@@ -408,20 +1117,18 @@ export function useTranslator(): UseTranslatorReturn {
    * Phase 8: Updated to flush translation buffer
    */
   const manualFinalize = useCallback(() => {
-    if (!sonioxClientRef.current) {
+    if (!providerRef.current) {
       return;
     }
 
     try {
       console.log('⏸️ Manual finalization triggered');
       
-      // Check if client has finalize method
-      if (typeof sonioxClientRef.current.finalize === 'function') {
-        sonioxClientRef.current.finalize();
-        console.log('✅ Finalization command sent to Soniox');
-      } else {
-        console.warn('⚠️ Client does not support manual finalization');
-      }
+      providerRef.current.finalize();
+      console.log(`✅ Finalization command sent to ${providerRef.current.name}`);
+      
+      // Finalize secondary target-language sessions too
+      secondaryProvidersRef.current.forEach(({ provider }) => provider.finalize());
       
       // Commit current streaming message (Phase 8.5)
       if (streamingProcessorRef.current && isStreamingMode) {
@@ -466,42 +1173,50 @@ export function useTranslator(): UseTranslatorReturn {
         text: cleanedText,
         timestamp: Date.now(),
         speaker: currentSpeaker || undefined,
+        language: extractCurrentLanguage(sourceBufferRef.current),
+        ...toSessionTime(getTokenTimeRange(sourceBufferRef.current)),
+        tokens: toLineTokens(sourceBufferRef.current),
       };
-      setCommittedSource(prev => [...prev, newLine]);
+      commitSourceLine(newLine);
       console.log(`✅ Finalized source (Speaker ${currentSpeaker || 'unknown'}): ${cleanedText}`);
     }
 
     // Clear live text
     setLiveTranslation('');
     setLiveSource('');
+    setLiveTranslationByLanguage({});
 
     // Clear source buffer (translation buffer managed by TranslationSentenceBuffer)
     sourceBufferRef.current = [];
-  }, []);
+  }, [toSessionTime, toLineTokens, commitSourceLine]);
 
   /**
    * Fetch temporary API key from our backend
+   * Failures (sign-in required, rate limits) throw user-friendly messages.
    */
   const fetchApiKey = useCallback(async (): Promise<string> => {
     try {
       const response = await fetch('/api/soniox-temp-key', {
         method: 'POST',
+        credentials: 'same-origin',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to fetch API key: ${response.statusText}`);
+        const body = await response.json().catch(() => null);
+        throw new Error(getApiKeyErrorMessage(response.status, body, response.headers.get('Retry-After')));
       }
 
-      const data = await response.json();
+      const data: TemporaryKeyResponse = await response.json();
       
       if (!data.apiKey) {
         throw new Error('API key not found in response');
       }
 
-      console.log('✅ Successfully fetched Soniox API key');
+      console.log(`✅ Fetched temporary Soniox API key (expires ${data.expiresAt})`);
       return data.apiKey;
     } catch (err) {
       console.error('❌ Error fetching API key:', err);
@@ -510,30 +1225,179 @@ export function useTranslator(): UseTranslatorReturn {
   }, []);
 
   /**
-   * Request microphone access
+   * Acquire the audio input (live source or pending file)
+   * An active input is reused on reconnection, so file playback and screen shares continue.
    */
-  const getMicrophoneAccess = useCallback(async (): Promise<MediaStream> => {
+  const acquireAudioInput = useCallback(async (): Promise<AudioInputHandle> => {
+    if (audioInputRef.current) {
+      console.log('♻️ Reusing active audio input');
+      return audioInputRef.current;
+    }
+
+    // Input ended (file finished or sharing stopped): stop gracefully so Soniox
+    // delivers the trailing results, then onFinished finalizes and cleans up.
+    // Secondary sessions finish first, so their results are in before the buffer is torn down.
+    const handleInputEnded = () => {
+      console.log('🏁 Audio input ended - waiting for final results');
+      stopSecondarySessions(true).then(() => providerRef.current?.stop());
+    };
+
+    const pendingFile = pendingFileRef.current;
+    if (pendingFile) {
+      console.log(`📁 Decoding file: ${pendingFile.file.name}`);
+      return createFileInput(pendingFile.file, {
+        playbackRate: pendingFile.playbackRate,
+        onProgress: setFileProgress,
+        onEnded: handleInputEnded,
+      });
+    }
+
     try {
-      console.log('🎤 Requesting microphone access...');
-      
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-          channelCount: 1,
-          sampleRate: 16000, // Optimal for speech recognition
-        },
+      console.log(`🎤 Requesting audio input: ${inputSource}...`);
+      const input = await createLiveInput(inputSource, {
+        deviceId: microphoneDeviceId,
+        onEnded: handleInputEnded,
       });
+      console.log('✅ Audio input access granted');
+      return input;
+    } catch (err: any) {
+      console.error('❌ Audio input access denied:', err);
+      if (inputSource !== 'microphone' && err?.name !== 'NotAllowedError' && err?.message) {
+        throw err;
+      }
+      throw new Error(inputSource === 'microphone'
+        ? 'Microphone access denied. Please grant permission and try again.'
+        : 'Screen sharing was cancelled or denied. Please share a tab with audio and try again.');
+    }
+  }, [stopSecondarySessions, inputSource, microphoneDeviceId]);
+
+  /**
+   * Release the audio input (stop tracks, close file playback)
+   */
+  const releaseAudioInput = useCallback(() => {
+    if (audioInputRef.current) {
+      audioInputRef.current.release();
+      audioInputRef.current = null;
+    }
+    mediaStreamRef.current = null;
+    pendingFileRef.current = null;
+  }, []);
 
-      console.log('✅ Microphone access granted');
-      return stream;
+  /**
+   * Stop the microphone test preview
+   */
+  const stopMicTest = useCallback(() => {
+    if (micTestRef.current) {
+      micTestRef.current.release();
+      micTestRef.current = null;
+    }
+    setIsMicTestActive(false);
+  }, []);
+
+  /**
+   * Toggle the microphone test preview (level meter without a session)
+   */
+  const toggleMicTest = useCallback(async () => {
+    if (micTestRef.current) {
+      stopMicTest();
+      return;
+    }
+
+    try {
+      micTestRef.current = await createMicrophoneInput(microphoneDeviceId);
+      setIsMicTestActive(true);
+      // Labels become available once permission is granted
+      setMicrophones(await listMicrophones());
     } catch (err) {
-      console.error('❌ Microphone access denied:', err);
-      throw new Error('Microphone access denied. Please grant permission and try again.');
+      console.error('❌ Microphone test failed:', err);
+      setError('Microphone access denied. Please grant permission and try again.');
+    }
+  }, [microphoneDeviceId, stopMicTest]);
+
+  /**
+   * Select a microphone (remembered across visits)
+   * During a session the track is swapped without restarting Soniox.
+   */
+  const selectMicrophone = useCallback(async (deviceId: string) => {
+    setMicrophoneDeviceId(deviceId);
+    try {
+      window.localStorage.setItem(MICROPHONE_STORAGE_KEY, deviceId);
+    } catch {
+      // Storage unavailable (private mode) - choice lasts for this visit only
+    }
+
+    const activeInput = audioInputRef.current || micTestRef.current;
+    if (activeInput?.switchDevice) {
+      try {
+        await activeInput.switchDevice(deviceId);
+      } catch (err) {
+        console.error('❌ Failed to switch microphone:', err);
+        setError('Could not switch to the selected microphone.');
+      }
+    }
+  }, []);
+
+  // Load remembered microphone and keep the device list current
+  useEffect(() => {
+    try {
+      setMicrophoneDeviceId(window.localStorage.getItem(MICROPHONE_STORAGE_KEY) || '');
+    } catch {
+      // Storage unavailable
+    }
+
+    listMicrophones().then(setMicrophones).catch(() => setMicrophones([]));
+
+    if (!navigator.mediaDevices?.addEventListener) {
+      return;
     }
+    const handleDeviceChange = () => {
+      console.log('🔌 Audio devices changed');
+      listMicrophones().then(setMicrophones).catch(() => setMicrophones([]));
+    };
+    navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
   }, []);
 
+  // Mid-session device changes: swap the track if the active microphone was
+  // unplugged or the selected one became available again
+  useEffect(() => {
+    const activeInput = audioInputRef.current || micTestRef.current;
+    if (!activeInput?.switchDevice || !activeInput.activeDeviceId) {
+      return;
+    }
+
+    const selectedAvailable = microphones.some(device => device.deviceId === microphoneDeviceId);
+    const desiredDeviceId = selectedAvailable ? microphoneDeviceId : '';
+    const activeDeviceId = activeInput.activeDeviceId();
+    const activeAvailable = activeDeviceId !== null &&
+      (activeDeviceId === '' || microphones.some(device => device.deviceId === activeDeviceId));
+
+    if (!activeAvailable || (desiredDeviceId && activeDeviceId !== desiredDeviceId)) {
+      console.log('🔄 Microphone changed mid-session - swapping track');
+      activeInput.switchDevice(desiredDeviceId).catch((err) => {
+        console.error('❌ Failed to swap microphone:', err);
+        setError('Microphone disconnected. Please select another input.');
+      });
+    }
+  }, [microphones, microphoneDeviceId]);
+
+  // Input level meter (active session or microphone test)
+  useEffect(() => {
+    if (!isRecording && !isMicTestActive) {
+      setInputLevel(0);
+      return;
+    }
+
+    const timer = setInterval(() => {
+      const analyser = audioInputRef.current?.analyser || micTestRef.current?.analyser;
+      setInputLevel(analyser ? getInputLevel(analyser) : 0);
+    }, 100);
+    return () => clearInterval(timer);
+  }, [isRecording, isMicTestActive]);
+
+  // Release the microphone test on unmount
+  useEffect(() => stopMicTest, [stopMicTest]);
+
   /**
    * Attempt to reconnect after error (Phase 4)
    */
@@ -580,21 +1444,27 @@ export function useTranslator(): UseTranslatorReturn {
     setError(null);
 
     try {
-      // Step 1: Get microphone access
-      const stream = await getMicrophoneAccess();
-      mediaStreamRef.current = stream;
-
-      // Step 2: Dynamically import Soniox SDK (browser-only)
-      console.log('📦 Loading Soniox SDK...');
-      const { RecordTranscribe } = await import('@soniox/speech-to-text-web');
-
-      // Step 3: Initialize Soniox client
-      console.log('🔗 Initializing Soniox client...');
-      const client = new RecordTranscribe({
-        apiKey: fetchApiKey,
-      });
+      // Step 1: Create the translation provider (transport: SDK WebSocket or our server relay)
+      const createProvider = () => createProviderRef.current({ fetchApiKey, transport });
+      const provider = createProvider();
+      console.log(`🔗 Initializing ${provider.name} provider (${transport})...`);
+
+      // Step 2-3: Get audio input (microphone or file), unless the provider needs none (replay)
+      const needsAudio = provider.needsAudio !== false;
+      let stream: MediaStream | null = null;
+      if (needsAudio) {
+        const input = await acquireAudioInput();
+        audioInputRef.current = input;
+        stream = input.stream;
+        mediaStreamRef.current = stream;
+      } else {
+        console.log(`🔇 ${provider.name} provider needs no audio input`);
+      }
+
+      // Session can continue (reconnect) while its input is still open
+      const hasInput = () => !needsAudio || mediaStreamRef.current !== null;
 
-      sonioxClientRef.current = client;
+      providerRef.current = provider;
 
       // Step 4: Initialize Streaming Token Processor (Phase 8.5)
       // This provides chat-style streaming with final/mutable regions
@@ -624,6 +1494,7 @@ export function useTranslator(): UseTranslatorReturn {
           updateThrottleMs: 16, // ~60fps
           autoCommitOnPause: true,
           mergeConsecutiveSpeakers: true,
+          routeByLanguage,
         }
       );
 
@@ -636,7 +1507,17 @@ export function useTranslator(): UseTranslatorReturn {
             text: sentence.text,
             timestamp: Date.now(),
             speaker: sentence.speaker,
+            language: sentence.language,
+            sourceLanguage: sentence.sourceLanguage,
+            ...toSessionTime(sentence.startMs !== undefined && sentence.endMs !== undefined
+              ? { startMs: sentence.startMs, endMs: sentence.endMs }
+              : undefined),
+            tokens: toLineTokens(sentence.tokens),
           };
+          // Link to the source speech this sentence translates
+          if (newLine.startMs !== undefined) {
+            newLine.sourceLineIds = findOverlappingSourceIds(newLine, committedSourceRef.current);
+          }
           setCommittedTranslation((prev) => [...prev, newLine]);
           
           console.log(`✅ Translation sentence committed (Speaker ${sentence.speaker || 'unknown'}): ${sentence.text}`);
@@ -653,253 +1534,313 @@ export function useTranslator(): UseTranslatorReturn {
           holdMs: sentenceHoldMs,
           maxHoldMs: Math.max(2000, Math.floor(sentenceHoldMs * 3.5)),
           maxChars: 500,
+          routeByLanguage,
         }
       );
 
       // Step 5: Initialize VAD and Keepalive (Phase 3)
-      if (vadEnabled) {
+      // fvad is compiled here and instantiated inside the VAD worklet
+      let fvadModule: WebAssembly.Module | null = null;
+      if (vadEnabled && needsAudio) {
         try {
           console.log('🎙️ Initializing VAD...');
-          const vadManager = new VADManager({
-            silenceThreshold,
-            sampleRate: 16000,
-          });
-          await vadManager.initialize();
-          vadManagerRef.current = vadManager;
-
-          // Initialize Keepalive manager
-          const keepaliveManager = new KeepaliveManager();
-          keepaliveManager.start(client);
-          keepaliveManagerRef.current = keepaliveManager;
-
+          fvadModule = await compileFvadModule();
         } catch (vadError) {
           console.warn('⚠️ VAD initialization failed, continuing without VAD:', vadError);
-          vadManagerRef.current = null;
         }
       }
+      if (vadEnabled) {
+        const keepaliveManager = new KeepaliveManager();
+        keepaliveManager.start(provider);
+        keepaliveManagerRef.current = keepaliveManager;
+      }
 
       // Step 6: Start translation stream
       console.log('🚀 Starting translation stream...');
       
       // Prepare language hints (Phase 6)
-      const languageHints = sourceLanguage === 'auto' 
-        ? ['de', 'en', 'es', 'fr', 'it', 'pt'] // Multi-language
-        : [sourceLanguage];
+      const languageHints = translationMode === 'two_way'
+        ? [sourceLanguage, targetLanguage] // Both conversation languages
+        : sourceLanguage === 'auto' 
+          ? SUPPORTED_LANGUAGES.map(lang => lang.code) // Multi-language
+          : [sourceLanguage];
       
       // Prepare context string (Phase 6)
       const contextString = vocabularyContext.trim().length > 0
         ? vocabularyContext
         : undefined;
       
-      console.log(`🌍 Language hints: ${languageHints.join(', ')}`);
+      console.log(`🌍 Language hints: ${languageHints.join(', ')} ${translationMode === 'two_way' ? '⇄' : '→'} ${targetLanguage}`);
       if (contextString) {
         console.log(`📚 Context provided: ${contextString.substring(0, 50)}...`);
       }
       
-      await client.start({
-        model: 'stt-rt-preview-v2',
-        
-        // Translation configuration: Source → English
-        translation: {
-          type: 'one_way',
-          target_language: 'en',
-        },
-
-        // Audio configuration
-        stream: stream,
-        audioFormat: 'auto',
-
-        // Language hints for better accuracy (Phase 6: Dynamic)
-        languageHints,
-        
-        // Enable language identification (Phase 6)
-        enableLanguageIdentification: sourceLanguage === 'auto',
+      // Step 7 (on start): additional target languages run as parallel one-way sessions
+      // on the same audio stream, since a Soniox session translates into one target only
+      const extraLanguages = translationMode === 'one_way' ? targetLanguages.slice(1) : [];
+      const startSecondarySessions = () => {
+        extraLanguages.forEach((language) => {
+          const secondary = createProvider();
+          let markFinished = () => {};
+          const finished = new Promise<void>((resolve) => { markFinished = resolve; });
+          secondaryProvidersRef.current.push({ language, provider: secondary, finished });
+          console.log(`🌐 Starting additional translation session → ${language}`);
+
+          secondary.start({
+            translation: { type: 'one_way', targetLanguage: language },
+            stream,
+            languageHints,
+            enableLanguageIdentification: sourceLanguage === 'auto',
+            ...(contextString && { context: contextString }),
+            enableEndpointDetection: true,
+          }, (event: ProviderEvent) => {
+            if (event.type === 'tokens') {
+              handleSecondaryTokenUpdate(language, event.result.tokens);
+            } else if (event.type === 'finished') {
+              markFinished();
+            } else if (event.type === 'error') {
+              markFinished();
+              console.error(`❌ ${language} translation error:`, event.error.kind, event.error.message);
+              secondaryProvidersRef.current = secondaryProvidersRef.current.filter(s => s.provider !== secondary);
+              setError(`${getLanguageName(language)} translation stopped: ${event.error.message}`);
+            }
+          }).catch((err: any) => {
+            console.error(`❌ Failed to start ${language} session:`, err);
+            markFinished();
+          });
+        });
+      };
+      
+      // Provider events
+      const handleStarted = () => {
+        console.log('✅ Translation started successfully');
         
-        // Context/vocabulary hints (Phase 6)
-        ...(contextString && { context: contextString }),
-
-        // Enable endpoint detection for better finalization
-        enableEndpointDetection: true,
+        // Reset retry manager on successful connection (Phase 4)
+        retryManagerRef.current.reset();
+        setIsReconnecting(false);
+        setRetryCount(0);
+        setReconnectionMessage('');
         
-        // Enable speaker diarization for multi-speaker scenarios (Phase 8)
-        enableSpeakerDiarization: true,
-
-        // Callbacks
-        onStarted: () => {
-          console.log('✅ Translation started successfully');
-          
-          // Reset retry manager on successful connection (Phase 4)
-          retryManagerRef.current.reset();
-          setIsReconnecting(false);
-          setRetryCount(0);
-          setReconnectionMessage('');
-          
-          setIsConnecting(false);
-          setIsRecording(true);
-
-          // Setup VAD audio processing (Phase 3)
-          if (vadEnabled && vadManagerRef.current && mediaStreamRef.current) {
+        setIsConnecting(false);
+        setIsRecording(true);
+
+        // Token times restart with each connection; anchor them to the session.
+        // File audio is timed by file position (the stream is time-stretched by the playback rate).
+        const fileHandle = audioInputRef.current?.kind === 'file' ? audioInputRef.current : null;
+        audioClockRef.current = fileHandle
+          ? { offsetMs: fileHandle.positionMs?.() ?? 0, scale: pendingFileRef.current?.playbackRate ?? 1 }
+          : { offsetMs: Date.now() - (sessionRecordRef.current?.startedAt ?? Date.now()), scale: 1 };
+
+        // Begin file playback once the session is ready (no-op for microphone)
+        audioInputRef.current?.start();
+
+        // Start additional target-language sessions
+        startSecondarySessions();
+
+        // Setup VAD audio processing (Phase 3)
+        // Framing and detection run in the AudioWorklet; only its events reach this thread
+        if (vadEnabled && fvadModule && mediaStreamRef.current) {
+          const vadModule = fvadModule;
+          const vadStream = mediaStreamRef.current;
+          (async () => {
             try {
               console.log('🎙️ Setting up VAD audio processing...');
               
               // Create audio context for VAD processing
-              const audioContext = new AudioContext({ sampleRate: 16000 });
+              const audioContext = new AudioContext({ sampleRate: DEFAULT_VAD_CONFIG.sampleRate });
               audioContextRef.current = audioContext;
-
-              // Create source from media stream
-              const source = audioContext.createMediaStreamSource(mediaStreamRef.current);
-
-              // Create script processor for VAD
-              const bufferSize = 4096;
-              const processor = audioContext.createScriptProcessor(bufferSize, 1, 1);
-              audioProcessorRef.current = processor;
-
-              processor.onaudioprocess = (event) => {
-                if (!vadManagerRef.current || !sonioxClientRef.current) {
-                  return;
-                }
-
-                const inputData = event.inputBuffer.getChannelData(0);
-                
-                try {
-                  // Process audio frame with VAD
-                  const vadResult = vadManagerRef.current.processFrame(inputData);
-                  
-                  // If silence threshold reached, trigger manual finalization
-                  if (vadResult.shouldFinalize) {
-                    console.log(`⏸️ Silence detected (${vadResult.silenceDuration}ms) - finalizing`);
-                    manualFinalize();
-                  }
-                } catch (vadError) {
-                  console.error('❌ VAD processing error:', vadError);
+              await loadVADWorklet(audioContext);
+
+              // Session may have ended while the worklet was loading
+              if (audioContextRef.current !== audioContext) {
+                return;
+              }
+
+              const source = audioContext.createMediaStreamSource(vadStream);
+              const vadNode = createVADWorkletNode(audioContext, vadModule, { silenceThreshold });
+              audioProcessorRef.current = vadNode;
+
+              vadNode.port.onmessage = (event: MessageEvent<VADWorkletEvent>) => {
+                const vadEvent = event.data;
+                if (vadEvent.type === 'error') {
+                  console.error('❌ VAD worklet error, continuing without VAD:', vadEvent.message);
+                } else if (vadEvent.type === 'finalize' && providerRef.current) {
+                  // Silence threshold reached on the audio thread
+                  console.log(`⏸️ Silence detected at ${vadEvent.audioTimeMs}ms (speech ${Math.round(vadEvent.speechRatio * 100)}%) - finalizing`);
+                  manualFinalize();
                 }
               };
 
               // Connect audio pipeline
-              source.connect(processor);
-              processor.connect(audioContext.destination);
+              source.connect(vadNode);
+              vadNode.connect(audioContext.destination);
 
               console.log('✅ VAD audio processing active');
             } catch (error) {
-              console.error('❌ Failed to setup VAD audio processing:', error);
+              console.error('❌ Failed to setup VAD audio processing, continuing without VAD:', error);
             }
-          }
-        },
+          })();
+        }
+      };
 
-        onPartialResult: (result: TranslatorResult) => {
-          // Mark capture start for latency tracking (Phase 5)
-          if (result.tokens.some(t => t.is_final)) {
-            // Only track when we get final tokens
-            if (!latencyTrackerRef.current.getMetrics().currentLatency) {
-              latencyTrackerRef.current.markCaptureStart();
-            }
+      const handleResult = (result: TranslatorResult) => {
+        // Mark capture start for latency tracking (Phase 5)
+        if (result.tokens.some(t => t.is_final)) {
+          // Only track when we get final tokens
+          if (!latencyTrackerRef.current.getMetrics().currentLatency) {
+            latencyTrackerRef.current.markCaptureStart();
           }
+        }
+        
+        // Process tokens and update state
+        handleTokenUpdate(result.tokens, result.final_audio_proc_ms);
+        
+        // Keep console logging for debugging
+        console.log('📝 Partial result received:');
+        
+        // Log translation-specific details
+        result.tokens.forEach((token, idx) => {
+          const prefix = token.is_final ? '🔒' : '⏳';
+          const statusEmoji = 
+            token.translation_status === 'original' ? '🗣️' : 
+            token.translation_status === 'translation' ? '🌐' : '⚪';
           
-          // Process tokens and update state
-          handleTokenUpdate(result.tokens, result.final_audio_proc_ms);
+          console.log(
+            `  ${prefix} ${statusEmoji} [${idx}] "${token.text}" ` +
+            `(${token.translation_status}, ${token.language || 'unknown'})` +
+            (token.source_language ? ` from ${token.source_language}` : '')
+          );
+        });
+
+        if (result.final_audio_proc_ms !== undefined) {
+          console.log(`⏱️ Audio processed: ${result.final_audio_proc_ms}ms`);
+        }
+      };
+
+      const handleFinished = () => {
+        console.log('✅ Translation session finished');
+        
+        // Check if this is an unexpected termination (Phase 4)
+        // If user didn't explicitly stop, this might be a session limit
+        if (isRecording && hasInput()) {
+          console.warn('⚠️ Session terminated unexpectedly, may attempt reconnection');
           
-          // Keep console logging for debugging
-          console.log('📝 Partial result received:');
+          // Finalize any remaining tokens
+          finalizeTranscript();
           
-          // Log translation-specific details
-          result.tokens.forEach((token, idx) => {
-            const prefix = token.is_final ? '🔒' : '⏳';
-            const statusEmoji = 
-              token.translation_status === 'original' ? '🗣️' : 
-              token.translation_status === 'translation' ? '🌐' : '⚪';
-            
-            console.log(
-              `  ${prefix} ${statusEmoji} [${idx}] "${token.text}" ` +
-              `(${token.translation_status}, ${token.language || 'unknown'})` +
-              (token.source_language ? ` from ${token.source_language}` : '')
-            );
-          });
-
-          if (result.final_audio_proc_ms !== undefined) {
-            console.log(`⏱️ Audio processed: ${result.final_audio_proc_ms}ms`);
-          }
-        },
-
-        onFinished: () => {
-          console.log('✅ Translation session finished');
+          // Save state
+          sessionStateRef.current.saveState(committedTranslation.length);
           
-          // Check if this is an unexpected termination (Phase 4)
-          // If user didn't explicitly stop, this might be a session limit
-          if (isRecording && mediaStreamRef.current) {
-            console.warn('⚠️ Session terminated unexpectedly, may attempt reconnection');
-            
-            // Finalize any remaining tokens
-            finalizeTranscript();
-            
-            // Save state
-            sessionStateRef.current.saveState(committedTranslation.length);
-            
-            // Attempt reconnection if we still have media stream
-            if (retryManagerRef.current.canRetry()) {
-              console.log('🔄 Attempting automatic session restart...');
-              attemptReconnection(ErrorType.SESSION_TERMINATED);
-              return;
-            }
+          // Attempt reconnection if we still have media stream
+          if (retryManagerRef.current.canRetry()) {
+            console.log('🔄 Attempting automatic session restart...');
+            attemptReconnection(ErrorType.SESSION_TERMINATED);
+            return;
           }
+        }
+        
+        // Normal termination - finalize and cleanup
+        finalizeTranscript();
+        cleanupManagers();
+        
+        setIsRecording(false);
+        setIsConnecting(false);
+        
+        // Clean up media stream
+        releaseAudioInput();
+      };
+
+      const handleError = ({ kind, message, code }: ProviderError) => {
+        console.error('❌ Translation error:', kind, message, code);
+        
+        // No key (sign-in required, rate limited, server down): retrying won't help
+        if (kind === 'access_denied') {
+          setError(message.replace(/^Error:\s*/, ''));
+          setIsRecording(false);
+          setIsConnecting(false);
+          setIsReconnecting(false);
+          cleanupManagers();
+          releaseAudioInput();
+          return;
+        }
+
+        // Classify error type (Phase 4)
+        const errorType = classifyError(code || kind, message);
+        console.log(`🔍 Error classified as: ${errorType}`);
+        
+        // Check if this is a session termination error
+        const isTermination = isSessionTerminationError(message);
+        
+        // Determine if we should attempt reconnection
+        const shouldReconnect = isRetryableError(errorType) || isTermination;
+        
+        if (shouldReconnect && hasInput()) {
+          console.log('🔄 Error is retryable, attempting reconnection...');
           
-          // Normal termination - finalize and cleanup
-          finalizeTranscript();
+          // Don't cleanup media stream yet - we'll reuse it
+          // Just cleanup the provider session and managers
           cleanupManagers();
           
+          // Set temporary error message
+          setError(`${message} - Reconnecting...`);
           setIsRecording(false);
           setIsConnecting(false);
           
-          // Clean up media stream
-          if (mediaStreamRef.current) {
-            mediaStreamRef.current.getTracks().forEach(track => track.stop());
-            mediaStreamRef.current = null;
-          }
-        },
-
-        onError: (status: any, message: string, errorCode?: number) => {
-          console.error('❌ Translation error:', status, message, errorCode);
-          
-          // Classify error type (Phase 4)
-          const errorType = classifyError(errorCode || status, message);
-          console.log(`🔍 Error classified as: ${errorType}`);
-          
-          // Check if this is a session termination error
-          const isTermination = isSessionTerminationError(message);
+          // Attempt reconnection
+          attemptReconnection(errorType);
+        } else {
+          // Non-retryable error - full cleanup
+          console.log('❌ Error is not retryable, stopping session');
+          setError(`Error ${code || kind}: ${message}`);
+          setIsRecording(false);
+          setIsConnecting(false);
+          setIsReconnecting(false);
           
-          // Determine if we should attempt reconnection
-          const shouldReconnect = isRetryableError(errorType) || isTermination;
+          // Full cleanup
+          cleanupManagers();
           
-          if (shouldReconnect && mediaStreamRef.current) {
-            console.log('🔄 Error is retryable, attempting reconnection...');
-            
-            // Don't cleanup media stream yet - we'll reuse it
-            // Just cleanup Soniox client and managers
-            cleanupManagers();
-            
-            // Set temporary error message
-            setError(`${message} - Reconnecting...`);
-            setIsRecording(false);
-            setIsConnecting(false);
-            
-            // Attempt reconnection
-            attemptReconnection(errorType);
-          } else {
-            // Non-retryable error - full cleanup
-            console.log('❌ Error is not retryable, stopping session');
-            setError(`Error ${errorCode || status}: ${message}`);
-            setIsRecording(false);
-            setIsConnecting(false);
-            setIsReconnecting(false);
-            
-            // Full cleanup
-            cleanupManagers();
-            
-            if (mediaStreamRef.current) {
-              mediaStreamRef.current.getTracks().forEach(track => track.stop());
-              mediaStreamRef.current = null;
-            }
-          }
-        },
+          releaseAudioInput();
+        }
+      };
+
+      await provider.start({
+        // Translation configuration: Source → target, or two-way conversation between both
+        translation: translationMode === 'two_way'
+          ? { type: 'two_way', languageA: sourceLanguage, languageB: targetLanguage }
+          : { type: 'one_way', targetLanguage },
+
+        // Audio configuration
+        stream,
+
+        // Language hints for better accuracy (Phase 6: Dynamic)
+        languageHints,
+        
+        // Enable language identification (Phase 6) - required to route two-way translations
+        enableLanguageIdentification: sourceLanguage === 'auto' || translationMode === 'two_way',
+        
+        // Context/vocabulary hints (Phase 6)
+        ...(contextString && { context: contextString }),
+
+        // Enable endpoint detection for better finalization
+        enableEndpointDetection: true,
+        
+        // Enable speaker diarization for multi-speaker scenarios (Phase 8)
+        enableSpeakerDiarization: true,
+      }, (event: ProviderEvent) => {
+        switch (event.type) {
+          case 'started':
+            handleStarted();
+            break;
+          case 'tokens':
+            handleResult(event.result);
+            break;
+          case 'finished':
+            handleFinished();
+            break;
+          case 'error':
+            handleError(event.error);
+            break;
+        }
       });
 
     } catch (err: any) {
@@ -912,22 +1853,41 @@ export function useTranslator(): UseTranslatorReturn {
       await cleanupManagers();
 
       // Clean up on error
-      if (mediaStreamRef.current) {
-        mediaStreamRef.current.getTracks().forEach(track => track.stop());
-        mediaStreamRef.current = null;
-      }
+      releaseAudioInput();
     }
-  }, [getMicrophoneAccess, fetchApiKey, handleTokenUpdate, finalizeTranscript, vadEnabled, silenceThreshold, manualFinalize, cleanupManagers, attemptReconnection, sourceLanguage, vocabularyContext, sentenceMode, sentenceHoldMs]);
+  }, [acquireAudioInput, releaseAudioInput, fetchApiKey, transport, handleTokenUpdate, finalizeTranscript, vadEnabled, silenceThreshold, manualFinalize, cleanupManagers, attemptReconnection, sourceLanguage, targetLanguage, translationMode, targetLanguages, routeByLanguage, handleSecondaryTokenUpdate, vocabularyContext, sentenceMode, sentenceHoldMs, toSessionTime, toLineTokens]);
 
   /**
-   * Public start translation function
+   * Begin a new session with fresh retry state (shared by microphone and file input)
    */
-  const startTranslation = useCallback(async () => {
+  const beginSession = useCallback(async () => {
     if (isRecording || isConnecting) {
       console.warn('⚠️ Translation already in progress');
       return;
     }
 
+    // Conversation mode needs two explicit, different languages
+    if (translationMode === 'two_way' && (sourceLanguage === 'auto' || sourceLanguage === targetLanguage)) {
+      setError('Conversation mode requires two different languages. Auto-Detect cannot be used as a conversation language.');
+      return;
+    }
+
+    // The session takes over the microphone
+    stopMicTest();
+
+    // Start a new history session unless continuing the current transcript
+    if (!sessionRecordRef.current) {
+      const startedAt = Date.now();
+      sessionRecordRef.current = {
+        id: generateSessionId(),
+        name: defaultSessionName(startedAt, sourceLanguage, targetLanguages),
+        startedAt,
+        endedAt: null,
+      };
+      setCurrentSessionId(sessionRecordRef.current.id);
+      setCurrentSessionStartedAt(startedAt);
+    }
+
     // Reset retry manager for fresh start
     retryManagerRef.current.reset();
     sessionStateRef.current.reset();
@@ -935,7 +1895,40 @@ export function useTranslator(): UseTranslatorReturn {
     setIsReconnecting(false);
     
     await startTranslationInternal();
-  }, [isRecording, isConnecting, startTranslationInternal]);
+  }, [isRecording, isConnecting, startTranslationInternal, stopMicTest, translationMode, sourceLanguage, targetLanguage, targetLanguages]);
+
+  /**
+   * Public start translation function (microphone)
+   */
+  const startTranslation = useCallback(async () => {
+    pendingFileRef.current = null;
+    setFileProgress(null);
+    await beginSession();
+  }, [beginSession]);
+
+  /**
+   * Translate an uploaded audio/video file
+   * The file is decoded and played into the same pipeline as the microphone,
+   * in real-time (playbackRate 1) or faster.
+   */
+  const translateFile = useCallback(async (file: File, playbackRate: number = 1) => {
+    if (isRecording || isConnecting) {
+      console.warn('⚠️ Translation already in progress');
+      return;
+    }
+
+    pendingFileRef.current = { file, playbackRate };
+    setFileProgress({ fileName: file.name, durationMs: 0, positionMs: 0 });
+    await beginSession();
+  }, [isRecording, isConnecting, beginSession]);
+
+  // Reconnect once resumed settings have been applied (next render)
+  useEffect(() => {
+    if (resumeRequested) {
+      setResumeRequested(false);
+      startTranslation();
+    }
+  }, [resumeRequested, startTranslation]);
 
   /**
    * Stop translation (graceful)
@@ -948,35 +1941,35 @@ export function useTranslator(): UseTranslatorReturn {
     setIsReconnecting(false);
     setRetryCount(0);
     
-    if (!sonioxClientRef.current && !isReconnecting) {
+    if (!providerRef.current && !isReconnecting) {
       console.warn('⚠️ No active translation session to stop');
       return;
     }
     
-    // Finalize any remaining tokens before stopping
+    // Let secondary target-language sessions deliver their last results
+    await stopSecondarySessions(true);
+
+    // Finalize any remaining tokens (including those results) before stopping
     finalizeTranscript();
     
     // Cleanup VAD and Keepalive
     await cleanupManagers();
     
-    if (sonioxClientRef.current) {
+    if (providerRef.current) {
       try {
-        sonioxClientRef.current.stop();
+        providerRef.current.stop();
       } catch (err) {
         console.error('❌ Error stopping translation:', err);
       }
     }
 
     // Clean up media stream
-    if (mediaStreamRef.current) {
-      mediaStreamRef.current.getTracks().forEach(track => track.stop());
-      mediaStreamRef.current = null;
-    }
+    releaseAudioInput();
 
-    sonioxClientRef.current = null;
+    providerRef.current = null;
     setIsRecording(false);
     setIsConnecting(false);
-  }, [finalizeTranscript, cleanupManagers, isReconnecting]);
+  }, [finalizeTranscript, cleanupManagers, stopSecondarySessions, releaseAudioInput, isReconnecting]);
 
   /**
    * Cancel translation (abrupt)
@@ -989,7 +1982,7 @@ export function useTranslator(): UseTranslatorReturn {
     setIsReconnecting(false);
     setRetryCount(0);
     
-    if (!sonioxClientRef.current && !isReconnecting) {
+    if (!providerRef.current && !isReconnecting) {
       console.warn('⚠️ No active translation session to cancel');
       return;
     }
@@ -997,47 +1990,83 @@ export function useTranslator(): UseTranslatorReturn {
     // Cleanup VAD and Keepalive
     await cleanupManagers();
     
-    if (sonioxClientRef.current) {
+    if (providerRef.current) {
       try {
-        sonioxClientRef.current.cancel();
+        providerRef.current.cancel();
       } catch (err) {
         console.error('❌ Error canceling translation:', err);
       }
     }
 
     // Clean up media stream
-    if (mediaStreamRef.current) {
-      mediaStreamRef.current.getTracks().forEach(track => track.stop());
-      mediaStreamRef.current = null;
-    }
+    releaseAudioInput();
 
-    sonioxClientRef.current = null;
+    providerRef.current = null;
     setIsRecording(false);
     setIsConnecting(false);
-  }, [cleanupManagers, isReconnecting]);
+  }, [cleanupManagers, releaseAudioInput, isReconnecting]);
 
   return {
     // Connection state
     isRecording,
     isConnecting,
     error,
+    transport,
+    setTransport,
     
     // Streaming content (Phase 8.5 - Chat-style)
-    streamingMessages,
+    streamingMessages: displayStreamingMessages,
     isStreamingMode,
     
     // Legacy content (for backward compatibility)
-    committedTranslation,
+    committedTranslation: displayTranslation,
     liveTranslation,
-    committedSource,
+    committedSource: displaySource,
     liveSource,
+    targetLanguages,
+    committedTranslationByLanguage,
+    liveTranslationByLanguage,
+    liveLineInfo: displayLiveLineInfo,
     
     // Control functions
     startTranslation,
+    translateFile,
     stopTranslation,
     cancelTranslation,
     clearTranscript,
     
+    // Audio input
+    inputSource,
+    setInputSource,
+    fileProgress,
+    microphones,
+    microphoneDeviceId,
+    selectMicrophone,
+    inputLevel,
+    isMicTestActive,
+    toggleMicTest,
+    
+    // Crash recovery
+    resumableSession,
+    resumeSession,
+    dismissResume,
+    
+    // Session history
+    sessionHistory,
+    currentSessionId,
+    currentSessionStartedAt,
+    openSession,
+    renameSession,
+    deleteSession,
+    getSessionRecord: getSession,
+    importTranscript,
+    
+    // Speakers
+    speakerRegistry,
+    renameSpeaker,
+    mergeSpeakers,
+    unmergeSpeaker,
+    
     // Display options
     showSource,
     toggleSource,
@@ -1062,6 +2091,12 @@ export function useTranslator(): UseTranslatorReturn {
     // Language & context settings (Phase 6)
     sourceLanguage,
     setSourceLanguage,
+    targetLanguage,
+    setTargetLanguage,
+    translationMode,
+    setTranslationMode,
+    additionalTargetLanguages,
+    setAdditionalTargetLanguages,
     vocabularyContext,
     setVocabularyContext,
     
@@ -0,0 +1,166 @@
+/**
+ * Fake Soniox Upstream (development and testing)
+ *
+ * Stands in for the Soniox API so the temporary-key route and the relay can
+ * run without a Soniox account or network access:
+ * - POST /v1/auth/temporary-api-key   mints fake temporary keys
+ * - WS   /transcribe-websocket        answers audio with scripted tokens
+ *
+ * Usage:
+ *   npm run fake-upstream
+ *   SONIOX_SECRET_KEY=fake \
+ *   SONIOX_API_ENDPOINT=http://localhost:8787 \
+ *   SONIOX_WEBSOCKET_URL=ws://localhost:8787/transcribe-websocket npm run dev
+ *
+ * FAKE_SONIOX_PORT changes the port. When FAKE_SONIOX_API_KEY is set, only
+ * that key is accepted (errors like the real API otherwise).
+ */
+
+import { createServer } from 'http';
+import { randomUUID } from 'crypto';
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.FAKE_SONIOX_PORT) || 8787;
+const REQUIRED_KEY = process.env.FAKE_SONIOX_API_KEY;
+
+// Spoken phrases (with a fake translation) emitted one word per audio chunk
+const SCRIPT = [
+  { text: 'Hallo zusammen, willkommen zum Meeting.', translation: 'Hello everyone, welcome to the meeting.', language: 'de' },
+  { text: 'Heute sprechen wir über die Roadmap.', translation: 'Today we will talk about the roadmap.', language: 'de' },
+  { text: 'Gibt es Fragen zum letzten Quartal?', translation: 'Are there any questions about the last quarter?', language: 'de' },
+];
+const WORD_MS = 300;
+
+const json = (response, status, body) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+};
+
+const temporaryKeys = new Set();
+
+const isAuthorized = (key) => !!key && (!REQUIRED_KEY || key === REQUIRED_KEY);
+
+const server = createServer((request, response) => {
+  if (request.method === 'POST' && request.url === '/v1/auth/temporary-api-key') {
+    let body = '';
+    request.on('data', (chunk) => { body += chunk; });
+    request.on('end', () => {
+      const key = (request.headers.authorization || '').replace(/^Bearer\s+/i, '');
+      if (!isAuthorized(key)) {
+        json(response, 401, { error_message: 'Invalid API key' });
+        return;
+      }
+      const { expires_in_seconds: ttl = 300 } = JSON.parse(body || '{}');
+      const apiKey = `temp:${randomUUID()}`;
+      temporaryKeys.add(apiKey);
+      console.log(`🔑 Minted ${apiKey} (${ttl}s)`);
+      json(response, 200, { api_key: apiKey, expires_at: new Date(Date.now() + ttl * 1000).toISOString() });
+    });
+    return;
+  }
+  json(response, 404, { error_message: 'Not found' });
+});
+
+const wss = new WebSocketServer({ server, path: '/transcribe-websocket' });
+
+wss.on('connection', (socket) => {
+  let config = null;
+  let phrase = 0;
+  let word = 0;
+  let audioMs = 0;
+
+  const send = (message) => socket.send(JSON.stringify(message));
+
+  // Tokens of the current phrase so far (translation follows the original)
+  const phraseTokens = (isFinal) => {
+    const { text, translation, language } = SCRIPT[phrase % SCRIPT.length];
+    const words = text.split(' ').slice(0, word);
+    const startMs = audioMs - word * WORD_MS;
+    const tokens = words.map((w, i) => ({
+      text: (i > 0 ? ' ' : '') + w,
+      start_ms: startMs + i * WORD_MS,
+      end_ms: startMs + (i + 1) * WORD_MS,
+      confidence: 0.95,
+      is_final: isFinal,
+      speaker: String(1 + (phrase % 2)),
+      language,
+      translation_status: config?.translation ? 'original' : 'none',
+    }));
+    if (isFinal && config?.translation) {
+      const target = config.translation.target_language || config.translation.language_b || 'en';
+      tokens.push({
+        text: translation,
+        confidence: 0.95,
+        is_final: true,
+        speaker: String(1 + (phrase % 2)),
+        language: target,
+        source_language: language,
+        translation_status: 'translation',
+      });
+    }
+    return tokens;
+  };
+
+  const finalizePhrase = () => {
+    if (word === 0) return [];
+    const tokens = phraseTokens(true);
+    phrase++;
+    word = 0;
+    return tokens;
+  };
+
+  socket.on('message', (data, isBinary) => {
+    if (!config) {
+      try {
+        config = JSON.parse(data.toString());
+      } catch {
+        send({ error_code: 400, error_message: 'Invalid configuration message' });
+        socket.close();
+        return;
+      }
+      if (!isAuthorized(config.api_key) && !temporaryKeys.has(config.api_key)) {
+        send({ error_code: 401, error_message: 'Invalid API key' });
+        socket.close();
+        return;
+      }
+      console.log(`🎙️ Session started (model ${config.model}, translation ${JSON.stringify(config.translation || null)})`);
+      return;
+    }
+
+    const text = isBinary ? null : data.toString();
+    if (text === '') {
+      // End of audio: finalize and finish
+      send({ tokens: finalizePhrase(), final_audio_proc_ms: audioMs, total_audio_proc_ms: audioMs });
+      send({ tokens: [], final_audio_proc_ms: audioMs, total_audio_proc_ms: audioMs, finished: true });
+      console.log('🏁 Session finished');
+      socket.close();
+      return;
+    }
+    if (text !== null) {
+      let message = {};
+      try {
+        message = JSON.parse(text);
+      } catch {
+        // Not a control message
+      }
+      if (message.type === 'finalize') {
+        send({ tokens: finalizePhrase(), final_audio_proc_ms: audioMs, total_audio_proc_ms: audioMs });
+      }
+      return; // keepalive and other control messages
+    }
+
+    // Audio chunk: one more word of the current phrase
+    audioMs += WORD_MS;
+    word++;
+    const { text: phraseText } = SCRIPT[phrase % SCRIPT.length];
+    if (word >= phraseText.split(' ').length) {
+      send({ tokens: finalizePhrase(), final_audio_proc_ms: audioMs, total_audio_proc_ms: audioMs });
+    } else {
+      send({ tokens: phraseTokens(false), final_audio_proc_ms: audioMs - word * WORD_MS, total_audio_proc_ms: audioMs });
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`🧪 Fake Soniox upstream on http://localhost:${PORT} (ws://localhost:${PORT}/transcribe-websocket)`);
+});
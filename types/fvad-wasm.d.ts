@@ -1,18 +1,22 @@
 /**
  * Type declarations for @echogarden/fvad-wasm
- * Voice Activity Detection library
+ * Voice Activity Detection library (libfvad compiled to WASM with Emscripten)
  */
 
 declare module '@echogarden/fvad-wasm' {
-  export class Vad {
-    static create(config: {
-      mode?: number;
-      frameDuration?: number;
-      sampleRate?: number;
-    }): Promise<Vad>;
+  export interface FvadModule {
+    HEAP16: Int16Array;
 
-    processFrame(audioFrame: Float32Array): Promise<{ isSpeech: boolean }>;
-    destroy(): Promise<void>;
+    _fvad_new(): number;  // Instance handle (0 on failure)
+    _fvad_free(handle: number): void;
+    _fvad_reset(handle: number): void;
+    _fvad_set_mode(handle: number, mode: number): number;  // 0 on success
+    _fvad_set_sample_rate(handle: number, sampleRate: number): number;  // 0 on success
+    _fvad_process(handle: number, framePtr: number, length: number): number;  // 1 speech, 0 silence, -1 error
+
+    _malloc(size: number): number;
+    _free(ptr: number): void;
   }
-}
 
+  export default function createFvadModule(moduleArg?: Record<string, unknown>): Promise<FvadModule>;
+}
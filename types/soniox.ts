@@ -4,11 +4,54 @@
  */
 
 export interface TemporaryKeyResponse {
-  apiKey: string;
-  expiresAt?: string;
+  apiKey: string;       // Temporary key (never the permanent secret key)
+  expiresAt: string;    // ISO timestamp
   note?: string;
 }
 
+/**
+ * How the browser reaches Soniox
+ * - direct: Soniox SDK opens its WebSocket from the browser (temporary key)
+ * - relay:  audio and results pass through our server (/api/relay)
+ */
+export type TranslatorTransport = 'direct' | 'relay';
+
+/**
+ * Transcription settings for a relay session (mirrors the SDK start options)
+ */
+export interface RelaySessionConfig {
+  model: string;
+  audioFormat?: string;
+  sampleRate?: number;
+  numChannels?: number;
+  languageHints?: string[];
+  context?: string;
+  enableSpeakerDiarization?: boolean;
+  enableLanguageIdentification?: boolean;
+  enableEndpointDetection?: boolean;
+  translation?:
+    | { type: 'one_way'; target_language: string }
+    | { type: 'two_way'; language_a: string; language_b: string };
+  clientReferenceId?: string;
+}
+
+/**
+ * Control messages the browser posts to a relay session
+ */
+export interface RelayControlMessage {
+  type: 'finalize' | 'stop' | 'keepalive';
+}
+
+/**
+ * Server-Sent Events of a relay session
+ * Error statuses match the SDK's ErrorStatus values.
+ */
+export type RelayEvent =
+  | { type: 'started' }
+  | { type: 'result'; result: any }  // Soniox response, forwarded unchanged
+  | { type: 'error'; status: 'api_error' | 'websocket_error' | 'queue_limit_exceeded'; message: string; code?: number }
+  | { type: 'finished' };
+
 export interface TranslationToken {
   text: string;
   isFinal: boolean;
@@ -0,0 +1,84 @@
+/**
+ * API Access Control (server only)
+ *
+ * Authentication and rate limiting for the routes that start Soniox usage
+ * (temporary keys and relay sessions share one set of limits):
+ * - Authentication mode from TEMP_KEY_AUTH_MODE (401 when it fails)
+ * - Per-user/per-IP rate limit and daily usage caps (429 with Retry-After)
+ *
+ * See utils/routeAuth.ts and utils/rateLimiter.ts. State is kept per server process.
+ */
+
+import { NextResponse } from 'next/server';
+import { Authenticator, createAuthenticator } from '@/utils/routeAuth';
+import { RateLimitConfig, RateLimiter, getClientIP, getRateLimitConfig } from '@/utils/rateLimiter';
+
+export type ApiAccessResult =
+  | { ok: true; clientId: string }   // user:<id>, ip:<address>, or anonymous:<auth mode> without either
+  | { ok: false; response: NextResponse };
+
+let authenticator: Authenticator | null = null;
+let rateLimiter: RateLimiter | null = null;
+let rateLimitConfig: RateLimitConfig | null = null;
+let warnedNoClientAddress = false;
+
+/**
+ * Authenticate the request and count it against the limits
+ */
+export async function checkApiAccess(request: Request): Promise<ApiAccessResult> {
+  authenticator = authenticator || createAuthenticator();
+  rateLimitConfig = rateLimitConfig || getRateLimitConfig();
+  rateLimiter = rateLimiter || new RateLimiter(rateLimitConfig);
+
+  const auth = await authenticator.authenticate(request);
+  if (!auth.ok) {
+    if (auth.status === 500) {
+      console.error('API auth misconfigured:', auth.error);
+      return {
+        ok: false,
+        response: NextResponse.json({ error: 'Server configuration error: authentication not configured' }, { status: 500 }),
+      };
+    }
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: auth.error, reason: 'unauthorized' },
+        {
+          status: 401,
+          headers: authenticator.mode === 'oidc' ? { 'WWW-Authenticate': 'Bearer' } : undefined,
+        }
+      ),
+    };
+  }
+
+  const clientIP = getClientIP(request, rateLimitConfig.trustedProxyHops);
+  if (!auth.userId && !clientIP && !warnedNoClientAddress) {
+    warnedNoClientAddress = true;
+    console.warn(
+      `⚠️ No client address available (TRUSTED_PROXY_HOPS=${rateLimitConfig.trustedProxyHops}): ` +
+      `all ${authenticator.mode === 'none' ? 'anonymous clients' : `${authenticator.mode} clients without a user id`} ` +
+      'share one rate limit and daily cap. Set TRUSTED_PROXY_HOPS behind a proxy, or use per-user authentication.'
+    );
+  }
+  // Without a user id or address, clients are keyed by how they authenticated (one shared bucket per mode)
+  const clientId = auth.userId
+    ? `user:${auth.userId}`
+    : clientIP ? `ip:${clientIP}` : `anonymous:${authenticator.mode}`;
+  const limit = rateLimiter.check(clientId);
+  if (!limit.allowed) {
+    console.warn(`⚠️ ${limit.reason} for ${clientId} (retry in ${limit.retryAfterSeconds}s)`);
+    return {
+      ok: false,
+      response: NextResponse.json(
+        {
+          error: limit.reason === 'daily_cap' ? 'Daily usage limit reached' : 'Too many requests',
+          reason: limit.reason,
+          retryAfter: limit.retryAfterSeconds,
+        },
+        { status: 429, headers: { 'Retry-After': String(limit.retryAfterSeconds) } }
+      ),
+    };
+  }
+
+  return { ok: true, clientId };
+}
@@ -0,0 +1,401 @@
+/**
+ * Audio Input Sources
+ *
+ * Builds the MediaStream that feeds the Soniox client and the VAD pipeline.
+ * Inputs are routed through an AudioContext, so the microphone device can be
+ * swapped without replacing the stream, and an analyser provides input levels.
+ *
+ * Sources:
+ * - Microphone (getUserMedia)
+ * - Browser tab / screen-share audio (getDisplayMedia)
+ * - Microphone + tab audio mixed together
+ * - Uploaded audio/video file (played by a media element into a stream)
+ */
+
+export type LiveInputSource = 'microphone' | 'tab' | 'mix';
+export type AudioInputKind = LiveInputSource | 'file';
+
+export interface LiveInputOption {
+  source: LiveInputSource;
+  name: string;
+  icon: string;
+}
+
+// Live input sources offered next to the start button
+export const LIVE_INPUT_OPTIONS: LiveInputOption[] = [
+  { source: 'microphone', name: 'Microphone', icon: '🎤' },
+  { source: 'tab', name: 'Tab Audio', icon: '🖥️' },
+  { source: 'mix', name: 'Mic + Tab', icon: '🎛️' },
+];
+
+/**
+ * Handle for an acquired audio input
+ */
+export interface AudioInputHandle {
+  kind: AudioInputKind;
+  stream: MediaStream;
+  analyser: AnalyserNode;  // Input level metering
+  start: () => void;    // Begin producing audio (no-op for live sources)
+  release: () => void;  // Stop tracks and free audio resources
+  switchDevice?: (deviceId: string) => Promise<void>;  // Microphone inputs only
+  activeDeviceId?: () => string | null;  // Current microphone, null if its track ended
+  positionMs?: () => number;  // File inputs only: playback position in the file
+}
+
+export interface MicrophoneDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface FileProgress {
+  fileName: string;
+  durationMs: number;
+  positionMs: number;
+}
+
+export interface LiveInputOptions {
+  deviceId?: string;     // Microphone device ('' = system default)
+  onEnded?: () => void;  // Called when the user stops sharing
+}
+
+export interface FileInputOptions {
+  playbackRate?: number;  // 1 = real-time, >1 = faster than real-time
+  onProgress?: (progress: FileProgress) => void;
+  onEnded?: () => void;
+}
+
+// Speech-optimized microphone constraints
+const MICROPHONE_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  channelCount: 1,
+  sampleRate: 16000, // Optimal for speech recognition
+};
+
+// Playback speeds offered for file translation
+export const FILE_PLAYBACK_RATES = [1, 1.25, 1.5, 2];
+
+// Accepted file types for the file picker
+export const ACCEPTED_FILE_TYPES = 'audio/*,video/*,.wav,.mp3,.mp4,.m4a,.ogg,.webm';
+
+// Remembered microphone choice
+export const MICROPHONE_STORAGE_KEY = 'translang:microphoneDeviceId';
+
+/**
+ * List available microphones
+ * Labels are empty until microphone permission has been granted.
+ */
+export async function listMicrophones(): Promise<MicrophoneDevice[]> {
+  if (typeof navigator === 'undefined' || !navigator.mediaDevices?.enumerateDevices) {
+    return [];
+  }
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'audioinput' && device.deviceId !== 'default')
+    .map((device, index) => ({
+      deviceId: device.deviceId,
+      label: device.label || `Microphone ${index + 1}`,
+    }));
+}
+
+/**
+ * Open a microphone track, falling back to the default device if the
+ * requested one is no longer available
+ */
+async function openMicrophone(deviceId?: string): Promise<MediaStream> {
+  if (deviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        audio: { ...MICROPHONE_CONSTRAINTS, deviceId: { exact: deviceId } },
+      });
+    } catch (err: any) {
+      if (err?.name !== 'OverconstrainedError' && err?.name !== 'NotFoundError') {
+        throw err;
+      }
+      console.warn('⚠️ Selected microphone unavailable, using default device');
+    }
+  }
+
+  return navigator.mediaDevices.getUserMedia({
+    audio: MICROPHONE_CONSTRAINTS,
+  });
+}
+
+/**
+ * Request microphone access
+ *
+ * The device is routed into a MediaStreamAudioDestinationNode, so
+ * switchDevice() replaces the source while the output stream (and the
+ * Soniox session recording it) keeps running.
+ */
+export async function createMicrophoneInput(deviceId?: string): Promise<AudioInputHandle> {
+  let deviceStream = await openMicrophone(deviceId);
+
+  const audioContext = new AudioContext();
+  const destination = audioContext.createMediaStreamDestination();
+  const analyser = createAnalyser(audioContext);
+  let source = audioContext.createMediaStreamSource(deviceStream);
+  source.connect(destination);
+  source.connect(analyser);
+
+  return {
+    kind: 'microphone',
+    stream: destination.stream,
+    analyser,
+    start: () => {},
+    release: () => {
+      stopStream(deviceStream);
+      stopStream(destination.stream);
+      audioContext.close();
+    },
+    switchDevice: async (nextDeviceId: string) => {
+      const nextStream = await openMicrophone(nextDeviceId);
+      const nextSource = audioContext.createMediaStreamSource(nextStream);
+      nextSource.connect(destination);
+      nextSource.connect(analyser);
+
+      source.disconnect();
+      stopStream(deviceStream);
+      source = nextSource;
+      deviceStream = nextStream;
+      console.log(`🎤 Switched microphone: ${nextStream.getAudioTracks()[0]?.label || 'default'}`);
+    },
+    activeDeviceId: () => {
+      const track = deviceStream.getAudioTracks()[0];
+      if (!track || track.readyState === 'ended') return null;
+      return track.getSettings().deviceId || '';
+    },
+  };
+}
+
+/**
+ * Capture browser tab / screen-share audio
+ *
+ * Browsers only offer audio together with a video share, so the video
+ * track is kept alive (stopping it ends the share) but not forwarded.
+ */
+export async function createTabInput(options: LiveInputOptions = {}): Promise<AudioInputHandle> {
+  const displayStream = await navigator.mediaDevices.getDisplayMedia({
+    video: true,
+    audio: true,
+  });
+
+  const audioTracks = displayStream.getAudioTracks();
+  if (audioTracks.length === 0) {
+    stopStream(displayStream);
+    throw new Error('No audio was shared. Please choose a tab and enable "Share tab audio".');
+  }
+
+  // Sharing can be stopped from the browser's own UI
+  audioTracks[0].addEventListener('ended', () => {
+    console.log('🖥️ Tab audio sharing ended');
+    options.onEnded?.();
+  });
+
+  const stream = new MediaStream(audioTracks);
+  const audioContext = new AudioContext();
+  const analyser = createAnalyser(audioContext);
+  audioContext.createMediaStreamSource(stream).connect(analyser);
+
+  return {
+    kind: 'tab',
+    stream,
+    analyser,
+    start: () => {},
+    release: () => {
+      stopStream(displayStream);
+      audioContext.close();
+    },
+  };
+}
+
+/**
+ * Mix microphone and tab audio into a single stream
+ */
+export async function createMixedInput(options: LiveInputOptions = {}): Promise<AudioInputHandle> {
+  const tab = await createTabInput(options);
+
+  let microphone: AudioInputHandle;
+  try {
+    microphone = await createMicrophoneInput(options.deviceId);
+  } catch (err) {
+    tab.release();
+    throw err;
+  }
+
+  const audioContext = new AudioContext();
+  const destination = audioContext.createMediaStreamDestination();
+  const analyser = createAnalyser(audioContext);
+  audioContext.createMediaStreamSource(tab.stream).connect(destination);
+  audioContext.createMediaStreamSource(microphone.stream).connect(destination);
+  audioContext.createMediaStreamSource(destination.stream).connect(analyser);
+
+  return {
+    kind: 'mix',
+    stream: destination.stream,
+    analyser,
+    start: () => {},
+    release: () => {
+      tab.release();
+      microphone.release();
+      stopStream(destination.stream);
+      audioContext.close();
+    },
+    switchDevice: microphone.switchDevice,
+    activeDeviceId: microphone.activeDeviceId,
+  };
+}
+
+/**
+ * Acquire a live input source
+ */
+export function createLiveInput(
+  source: LiveInputSource,
+  options: LiveInputOptions = {}
+): Promise<AudioInputHandle> {
+  switch (source) {
+    case 'tab':
+      return createTabInput(options);
+    case 'mix':
+      return createMixedInput(options);
+    default:
+      return createMicrophoneInput(options.deviceId);
+  }
+}
+
+/**
+ * Play an audio/video file into a MediaStream
+ *
+ * The file is played by a media element with pitch preservation, so faster
+ * than real-time playback time-stretches the speech instead of raising its
+ * pitch. Positions come from the element's clock, which is in file time at
+ * any playback rate.
+ *
+ * Playback only begins when start() is called, so no audio is lost
+ * while the translation session is connecting.
+ */
+export async function createFileInput(
+  file: File,
+  options: FileInputOptions = {}
+): Promise<AudioInputHandle> {
+  const playbackRate = options.playbackRate || 1;
+  const url = URL.createObjectURL(file);
+  const media = new Audio();
+  media.preload = 'auto';
+  media.preservesPitch = true;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      media.onloadedmetadata = () => resolve();
+      media.onerror = () => reject(media.error);
+      media.src = url;
+    });
+  } catch (err) {
+    URL.revokeObjectURL(url);
+    throw new Error(`Could not decode "${file.name}". Please use a WAV, MP3 or MP4 file.`);
+  }
+
+  const audioContext = new AudioContext();
+  const destination = audioContext.createMediaStreamDestination();
+  const analyser = createAnalyser(audioContext);
+  const source = audioContext.createMediaElementSource(media);  // Not routed to the speakers
+  source.connect(destination);
+  source.connect(analyser);
+
+  const durationMs = Number.isFinite(media.duration) ? Math.round(media.duration * 1000) : 0;
+  let started = false;
+  let progressTimer: NodeJS.Timeout | null = null;
+  let released = false;
+
+  const getPositionMs = () => {
+    if (!started) return 0;
+    const positionMs = Math.round(media.currentTime * 1000);
+    return durationMs > 0 ? Math.min(durationMs, positionMs) : positionMs;
+  };
+
+  const reportProgress = () => {
+    if (!started) return;
+    options.onProgress?.({
+      fileName: file.name,
+      durationMs,
+      positionMs: getPositionMs(),
+    });
+  };
+
+  media.onended = () => {
+    if (progressTimer) {
+      clearInterval(progressTimer);
+      progressTimer = null;
+    }
+    if (released) return;
+    reportProgress();
+    console.log(`🏁 File playback finished: ${file.name}`);
+    options.onEnded?.();
+  };
+
+  console.log(`📁 Loaded ${file.name} (${(durationMs / 1000).toFixed(1)}s, ${playbackRate}x)`);
+
+  return {
+    kind: 'file',
+    stream: destination.stream,
+    analyser,
+    start: () => {
+      if (started || released) return;
+      started = true;
+      media.playbackRate = playbackRate;
+      media.play().catch((err) => {
+        console.error('❌ File playback failed:', err);
+      });
+      progressTimer = setInterval(reportProgress, 500);
+      reportProgress();
+    },
+    release: () => {
+      if (released) return;
+      released = true;
+      if (progressTimer) {
+        clearInterval(progressTimer);
+        progressTimer = null;
+      }
+      media.pause();
+      media.removeAttribute('src');
+      media.load();
+      URL.revokeObjectURL(url);
+      stopStream(destination.stream);
+      audioContext.close();
+    },
+    positionMs: getPositionMs,
+  };
+}
+
+/**
+ * Read the current input level (RMS, 0-1) from an analyser
+ */
+export function getInputLevel(analyser: AnalyserNode): number {
+  const samples = new Float32Array(analyser.fftSize);
+  analyser.getFloatTimeDomainData(samples);
+
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  // Scale so normal speech fills most of the meter
+  return Math.min(1, Math.sqrt(sum / samples.length) * 4);
+}
+
+/**
+ * Create an analyser for level metering
+ */
+function createAnalyser(audioContext: AudioContext): AnalyserNode {
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 1024;
+  return analyser;
+}
+
+/**
+ * Stop all tracks of a stream
+ */
+function stopStream(stream: MediaStream): void {
+  stream.getTracks().forEach(track => track.stop());
+}
@@ -0,0 +1,44 @@
+/**
+ * Auth Token (client)
+ *
+ * Token sent with API requests as "Authorization: Bearer <token>" when the
+ * server requires one (OIDC sign-in token or a shared access secret).
+ * Stored in sessionStorage by the embedding page or sign-in flow; signed
+ * session cookies need no client code (the browser sends them).
+ */
+
+export const AUTH_TOKEN_STORAGE_KEY = 'translang:authToken';
+
+/**
+ * Get the stored token (null when none is set or storage is unavailable)
+ */
+export function getAuthToken(): string | null {
+  try {
+    return typeof window !== 'undefined' ? window.sessionStorage.getItem(AUTH_TOKEN_STORAGE_KEY) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store or clear the token
+ */
+export function setAuthToken(token: string | null): void {
+  try {
+    if (token) {
+      window.sessionStorage.setItem(AUTH_TOKEN_STORAGE_KEY, token);
+    } else {
+      window.sessionStorage.removeItem(AUTH_TOKEN_STORAGE_KEY);
+    }
+  } catch (err) {
+    console.warn('⚠️ Could not store auth token:', err);
+  }
+}
+
+/**
+ * Authorization headers for API requests
+ */
+export function getAuthHeaders(): Record<string, string> {
+  const token = getAuthToken();
+  return token ? { 'Authorization': `Bearer ${token}` } : {};
+}
@@ -7,6 +7,10 @@
  * Phase 4 Implementation
  */
 
+import { TranscriptLine, TranslationMode } from '@/hooks/useTranslator';
+import { LiveInputSource } from '@/utils/audioSources';
+import { SpeakerRegistry } from '@/utils/speakerRegistry';
+
 export interface RetryConfig {
   maxRetries: number;
   initialDelay: number;
@@ -236,10 +240,36 @@ export class RetryManager {
   }
 }
 
+// Durable checkpoint of the running session (survives tab crashes)
+const CHECKPOINT_STORAGE_KEY = 'translang:sessionCheckpoint';
+
+/**
+ * Checkpoint of a running session, saved on every commit
+ */
+export interface SessionCheckpoint {
+  sessionId: string;
+  sessionName: string;
+  startedAt: number;
+  savedAt: number;
+  committedTranslation: TranscriptLine[];
+  committedSource: TranscriptLine[];
+  speakerRegistry?: SpeakerRegistry;
+  settings: {
+    sourceLanguage: string;
+    targetLanguage: string;
+    translationMode: TranslationMode;
+    additionalTargetLanguages: string[];
+    vocabularyContext: string;
+    inputSource: LiveInputSource | 'file'; // File sessions restore the transcript only
+  };
+}
+
 /**
  * Session State Manager
  * 
- * Tracks session state and helps with recovery
+ * Tracks session state and helps with recovery.
+ * Checkpoints are written synchronously to localStorage, so the last
+ * committed transcript survives a crash or reload.
  */
 export class SessionStateManager {
   private lastKnownGoodState: {
@@ -284,6 +314,53 @@ export class SessionStateManager {
     this.lastKnownGoodState = null;
     console.log('🔄 Session state reset');
   }
+
+  /**
+   * Save a durable checkpoint of the running session
+   * 
+   * @returns false if storage is unavailable or full
+   */
+  saveCheckpoint(checkpoint: SessionCheckpoint): boolean {
+    this.saveState(checkpoint.committedTranslation.length);
+    try {
+      window.localStorage.setItem(CHECKPOINT_STORAGE_KEY, JSON.stringify(checkpoint));
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to save session checkpoint:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Load the checkpoint left by an interrupted session
+   */
+  loadCheckpoint(): SessionCheckpoint | null {
+    try {
+      const stored = window.localStorage.getItem(CHECKPOINT_STORAGE_KEY);
+      if (!stored) {
+        return null;
+      }
+      const checkpoint = JSON.parse(stored) as SessionCheckpoint;
+      if (!checkpoint.sessionId || !Array.isArray(checkpoint.committedTranslation)) {
+        return null;
+      }
+      return checkpoint;
+    } catch (error) {
+      console.error('❌ Failed to load session checkpoint:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Remove the checkpoint (session ended normally)
+   */
+  clearCheckpoint(): void {
+    try {
+      window.localStorage.removeItem(CHECKPOINT_STORAGE_KEY);
+    } catch {
+      // Storage unavailable
+    }
+  }
 }
 
 /**
@@ -317,3 +394,42 @@ export function isSessionTerminationError(message: string): boolean {
   return terminationKeywords.some(keyword => messageLower.includes(keyword));
 }
 
+
+/**
+ * Format a wait time for error messages (e.g., "45 seconds", "3 hours")
+ */
+function formatWaitTime(seconds: number): string {
+  if (seconds < 90) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  if (seconds < 90 * 60) return `${Math.round(seconds / 60)} minutes`;
+  return `${Math.round(seconds / 3600)} hours`;
+}
+
+/**
+ * User-friendly message for a failed temporary key request
+ * (401 = sign-in required, 429 = rate limit or daily cap)
+ */
+export function getApiKeyErrorMessage(
+  status: number,
+  body: { error?: string; reason?: string; retryAfter?: number } | null,
+  retryAfterHeader: string | null
+): string {
+  const retryAfter = body?.retryAfter ?? (retryAfterHeader ? parseInt(retryAfterHeader, 10) : NaN);
+
+  if (status === 401) {
+    return `Please sign in to use translation${body?.error ? ` (${body.error})` : ''}.`;
+  }
+  if (status === 429) {
+    if (body?.reason === 'daily_cap') {
+      return Number.isFinite(retryAfter)
+        ? `The daily translation limit has been reached. It resets in about ${formatWaitTime(retryAfter)}.`
+        : 'The daily translation limit has been reached. Please try again tomorrow.';
+    }
+    return Number.isFinite(retryAfter)
+      ? `Too many sessions started in a short time. Please wait ${formatWaitTime(retryAfter)} and try again.`
+      : 'Too many sessions started in a short time. Please wait a moment and try again.';
+  }
+  if (status >= 500) {
+    return `The translation service is unavailable right now${body?.error ? ` (${body.error})` : ''}. Please try again shortly.`;
+  }
+  return `Could not start translation (error ${status}).`;
+}
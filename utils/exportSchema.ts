@@ -0,0 +1,165 @@
+/**
+ * JSON Export Schema (v2)
+ *
+ * Version 2 of the JSON export carries everything needed to analyse
+ * recognition quality downstream:
+ * - Source and translation lines as separate lists, linked by sourceLineIds
+ * - Speaker, language and audio timing per line
+ * - Speaker display names (renamed speakers; optional, absent in early 2.0 files)
+ * - Per-token text, confidence, start_ms/end_ms, speaker, language and
+ *   finality (field names as in the Soniox Token interface)
+ *
+ * All times are milliseconds. startMs/endMs and token start_ms/end_ms are
+ * relative to the session start; timestamp is the wall-clock commit time.
+ * Optional values are written as null rather than omitted.
+ */
+
+export const EXPORT_SCHEMA_VERSION = '2.0';
+
+export interface ExportTokenV2 {
+  text: string;
+  confidence: number | null;
+  start_ms: number | null;
+  end_ms: number | null;
+  speaker: string | null;
+  language: string | null;
+  is_final: boolean;
+}
+
+export interface ExportLineV2 {
+  index: number;
+  id: string;
+  text: string;
+  timestamp: number;
+  startMs: number | null;
+  endMs: number | null;
+  speaker: string | null;
+  speakerName?: string | null;
+  language: string | null;
+  isGap: boolean;
+  tokens: ExportTokenV2[];
+}
+
+export interface ExportTranslationLineV2 extends ExportLineV2 {
+  sourceLanguage: string | null;
+  sourceLineIds: string[];
+  source: string | null; // Text of the linked source lines (convenience)
+}
+
+export interface ExportMetadataV2 {
+  totalLines: number;
+  sourceLanguage: string;
+  targetLanguage: string;
+  [key: string]: unknown; // Session name, statistics (totals and per-speaker, see speakerStats.ts), ...
+}
+
+export interface TranscriptExportV2 {
+  version: typeof EXPORT_SCHEMA_VERSION;
+  exportDate: string;
+  metadata: ExportMetadataV2;
+  translations: ExportTranslationLineV2[];
+  source: ExportLineV2[];
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumberOrNull = (value: unknown) => value === null || (typeof value === 'number' && Number.isFinite(value));
+const isStringOrNull = (value: unknown) => value === null || typeof value === 'string';
+
+/**
+ * Check a value against an expected type, recording an error with its path
+ */
+function expect(errors: string[], path: string, valid: boolean, expected: string): void {
+  if (!valid) {
+    errors.push(`${path}: expected ${expected}`);
+  }
+}
+
+function validateToken(token: unknown, path: string, errors: string[]): void {
+  if (!isObject(token)) {
+    errors.push(`${path}: expected an object`);
+    return;
+  }
+  expect(errors, `${path}.text`, typeof token.text === 'string', 'a string');
+  expect(errors, `${path}.confidence`, isNumberOrNull(token.confidence), 'a number or null');
+  expect(errors, `${path}.start_ms`, isNumberOrNull(token.start_ms), 'a number or null');
+  expect(errors, `${path}.end_ms`, isNumberOrNull(token.end_ms), 'a number or null');
+  expect(errors, `${path}.speaker`, isStringOrNull(token.speaker), 'a string or null');
+  expect(errors, `${path}.language`, isStringOrNull(token.language), 'a string or null');
+  expect(errors, `${path}.is_final`, typeof token.is_final === 'boolean', 'a boolean');
+}
+
+function validateLine(line: unknown, path: string, errors: string[], isTranslation: boolean): void {
+  if (!isObject(line)) {
+    errors.push(`${path}: expected an object`);
+    return;
+  }
+  expect(errors, `${path}.index`, typeof line.index === 'number', 'a number');
+  expect(errors, `${path}.id`, typeof line.id === 'string' && line.id.length > 0, 'a non-empty string');
+  expect(errors, `${path}.text`, typeof line.text === 'string', 'a string');
+  expect(errors, `${path}.timestamp`, typeof line.timestamp === 'number' && Number.isFinite(line.timestamp), 'a number');
+  expect(errors, `${path}.startMs`, isNumberOrNull(line.startMs), 'a number or null');
+  expect(errors, `${path}.endMs`, isNumberOrNull(line.endMs), 'a number or null');
+  expect(errors, `${path}.speaker`, isStringOrNull(line.speaker), 'a string or null');
+  expect(errors, `${path}.speakerName`, line.speakerName === undefined || isStringOrNull(line.speakerName), 'a string or null');
+  expect(errors, `${path}.language`, isStringOrNull(line.language), 'a string or null');
+  expect(errors, `${path}.isGap`, typeof line.isGap === 'boolean', 'a boolean');
+
+  if (!Array.isArray(line.tokens)) {
+    errors.push(`${path}.tokens: expected an array`);
+  } else {
+    line.tokens.forEach((token: unknown, i: number) => validateToken(token, `${path}.tokens[${i}]`, errors));
+  }
+
+  if (isTranslation) {
+    expect(errors, `${path}.sourceLanguage`, isStringOrNull(line.sourceLanguage), 'a string or null');
+    expect(errors, `${path}.source`, isStringOrNull(line.source), 'a string or null');
+    expect(
+      errors,
+      `${path}.sourceLineIds`,
+      Array.isArray(line.sourceLineIds) && line.sourceLineIds.every((id: unknown) => typeof id === 'string'),
+      'an array of strings'
+    );
+  }
+}
+
+/**
+ * Validate a parsed document against the v2 schema
+ * Unknown additional fields are allowed (forward compatible within 2.x).
+ */
+export function validateTranscriptExportV2(data: unknown): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  if (!isObject(data)) {
+    return { isValid: false, errors: ['document: expected an object'] };
+  }
+
+  expect(errors, 'version', typeof data.version === 'string' && data.version.startsWith('2.'), 'a 2.x version string');
+  expect(errors, 'exportDate', typeof data.exportDate === 'string', 'a string');
+
+  if (!isObject(data.metadata)) {
+    errors.push('metadata: expected an object');
+  } else {
+    expect(errors, 'metadata.totalLines', typeof data.metadata.totalLines === 'number', 'a number');
+    expect(errors, 'metadata.sourceLanguage', typeof data.metadata.sourceLanguage === 'string', 'a string');
+    expect(errors, 'metadata.targetLanguage', typeof data.metadata.targetLanguage === 'string', 'a string');
+  }
+
+  if (!Array.isArray(data.translations)) {
+    errors.push('translations: expected an array');
+  } else {
+    data.translations.forEach((line: unknown, i: number) => validateLine(line, `translations[${i}]`, errors, true));
+  }
+
+  if (!Array.isArray(data.source)) {
+    errors.push('source: expected an array');
+  } else {
+    data.source.forEach((line: unknown, i: number) => validateLine(line, `source[${i}]`, errors, false));
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
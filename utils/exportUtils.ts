@@ -5,38 +5,79 @@
  * - Plain text (.txt)
  * - JSON with metadata (.json)
  * - SRT subtitle format (.srt)
+ * - WebVTT captions (.vtt) for HTML5 players
+ * - Aligned source/translation tables (.md, .html) and TMX translation memory (.tmx)
+ * - Meeting minutes (.md, .html) grouped by speaker
+ * - Word documents (.docx, Office Open XML built in the browser)
  * 
  * Phase 6 Implementation
  */
 
 import { TranscriptLine } from '@/hooks/useTranslator';
+import {
+  DEFAULT_SOURCE_LANGUAGE,
+  DEFAULT_TARGET_LANGUAGE,
+  getLanguageName,
+  getLanguageTag,
+} from '@/utils/languages';
+import { alignSegments, joinSegmentText, AlignedSegment } from '@/utils/segmentAlignment';
+import { groupBySpeaker, SpeakerGroup, DEFAULT_GROUPING_WINDOW_MS } from '@/utils/speakerGroups';
+import { formatSpeakerName } from '@/utils/speakerRegistry';
+import { getSpeakerStats, SpeakerStats } from '@/utils/speakerStats';
+import { createZipArchive } from '@/utils/zipArchive';
+import {
+  EXPORT_SCHEMA_VERSION,
+  ExportLineV2,
+  ExportTokenV2,
+  TranscriptExportV2,
+} from '@/utils/exportSchema';
+import { TokenDetail } from '@/utils/tokenParser';
+
+/**
+ * Language pair used to label exported transcripts
+ */
+export interface ExportLanguages {
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+export const DEFAULT_EXPORT_LANGUAGES: ExportLanguages = {
+  sourceLanguage: DEFAULT_SOURCE_LANGUAGE,
+  targetLanguage: DEFAULT_TARGET_LANGUAGE,
+};
 
 /**
  * Export transcript as plain text
  */
 export function exportAsText(
   translations: TranscriptLine[],
-  includeSource?: TranscriptLine[]
+  includeSource?: TranscriptLine[],
+  languages: ExportLanguages = DEFAULT_EXPORT_LANGUAGES
 ): string {
+  const sourceName = getLanguageName(languages.sourceLanguage);
+  const targetName = getLanguageName(languages.targetLanguage);
   let text = '=== TransLang Translation Transcript ===\n\n';
   
   if (includeSource && includeSource.length > 0) {
     // Interleave source and translation
-    text += 'Format: [German] Original → [English] Translation\n\n';
+    text += `Format: [${sourceName}] Original → [${targetName}] Translation\n\n`;
     
-    const maxLength = Math.max(translations.length, includeSource.length);
-    for (let i = 0; i < maxLength; i++) {
-      if (includeSource[i]) {
-        text += `[DE] ${includeSource[i].text}\n`;
-      }
-      if (translations[i]) {
-        text += `[EN] ${translations[i].text}\n`;
-      }
+    // Source and translation are paired by audio-time links, not by index
+    alignSegments(translations, includeSource).forEach(segment => {
+      // Lines carry their own language in two-way conversation mode
+      segment.source.forEach(line => {
+        const tag = getLanguageTag(line.language || languages.sourceLanguage);
+        text += `[${tag}] ${line.text}\n`;
+      });
+      segment.translations.forEach(line => {
+        const tag = getLanguageTag(line.language || languages.targetLanguage);
+        text += `[${tag}] ${line.text}\n`;
+      });
       text += '\n';
-    }
+    });
   } else {
     // Translation only
-    text += 'English Translations:\n\n';
+    text += `${targetName} Translations:\n\n`;
     translations.forEach((line, index) => {
       text += `${index + 1}. ${line.text}\n`;
     });
@@ -49,57 +90,242 @@ export function exportAsText(
 }
 
 /**
- * Export transcript as JSON with metadata
+ * Convert token detail to the export schema (v2)
+ */
+function toExportToken(token: TokenDetail): ExportTokenV2 {
+  return {
+    text: token.text,
+    confidence: token.confidence ?? null,
+    start_ms: token.start_ms ?? null,
+    end_ms: token.end_ms ?? null,
+    speaker: token.speaker ?? null,
+    language: token.language ?? null,
+    is_final: token.is_final,
+  };
+}
+
+/**
+ * Convert a transcript line to the export schema (v2)
+ */
+function toExportLine(line: TranscriptLine, index: number, defaultLanguage: string): ExportLineV2 {
+  return {
+    index,
+    id: line.id,
+    text: line.text,
+    timestamp: line.timestamp,
+    startMs: line.startMs ?? null,
+    endMs: line.endMs ?? null,
+    speaker: line.speaker ?? null,
+    speakerName: line.speaker ? formatSpeakerName(line.speaker, line.speakerName) : null,
+    language: line.isGap ? null : line.language || defaultLanguage,
+    isGap: !!line.isGap,
+    tokens: (line.tokens || []).map(toExportToken),
+  };
+}
+
+/**
+ * Export transcript as JSON with metadata (schema v2, see exportSchema.ts)
  */
 export function exportAsJSON(
   translations: TranscriptLine[],
   source?: TranscriptLine[],
-  metadata?: any
+  metadata?: any,
+  languages: ExportLanguages = DEFAULT_EXPORT_LANGUAGES
 ): string {
-  const exportData = {
-    version: '1.0',
+  // Source text of the segment each translation belongs to
+  const sourceByTranslation = new Map<string, string>();
+  if (source && source.length > 0) {
+    alignSegments(translations, source).forEach(segment => {
+      if (segment.source.length === 0) return;
+      const sourceText = joinSegmentText(segment.source);
+      segment.translations.forEach(line => sourceByTranslation.set(line.id, sourceText));
+    });
+  }
+
+  const exportData: TranscriptExportV2 = {
+    version: EXPORT_SCHEMA_VERSION,
     exportDate: new Date().toISOString(),
     metadata: {
       totalLines: translations.length,
-      sourceLanguage: 'de',
-      targetLanguage: 'en',
+      sourceLanguage: languages.sourceLanguage,
+      targetLanguage: languages.targetLanguage,
       ...metadata,
     },
     translations: translations.map((line, index) => ({
-      index,
-      id: line.id,
-      text: line.text,
-      timestamp: line.timestamp,
-      source: source && source[index] ? source[index].text : null,
+      ...toExportLine(line, index, languages.targetLanguage),
+      sourceLanguage: line.sourceLanguage ?? null,
+      sourceLineIds: line.sourceLineIds || [],
+      source: sourceByTranslation.get(line.id) ?? null,
     })),
+    source: (source || []).map((line, index) => toExportLine(line, index, languages.sourceLanguage)),
   };
   
   return JSON.stringify(exportData, null, 2);
 }
 
+/**
+ * Subtitle layout options (SRT)
+ */
+export interface SubtitleOptions {
+  maxCharsPerLine: number;    // Wrap text at this many characters
+  maxLinesPerCue: number;     // Split longer text into several cues
+  defaultDurationMs: number;  // Duration for lines without audio timing
+}
+
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleOptions = {
+  maxCharsPerLine: 42,
+  maxLinesPerCue: 2,
+  defaultDurationMs: 3000,
+};
+
+/**
+ * A single subtitle cue (times relative to the start of the recording)
+ */
+export interface SubtitleCue {
+  startMs: number;
+  endMs: number;
+  lines: string[];
+  speaker?: string;
+  speakerName?: string;
+}
+
+/**
+ * Build subtitle cues from transcript lines
+ *
+ * Uses the audio timing of each line (startMs/endMs) when available and
+ * falls back to the commit time relative to startTime otherwise.
+ * Long lines are wrapped and split into several cues, with the line's
+ * duration shared between them by character count.
+ */
+export function buildSubtitleCues(
+  lines: TranscriptLine[],
+  startTime: number = 0,
+  options: Partial<SubtitleOptions> = {}
+): SubtitleCue[] {
+  const config = { ...DEFAULT_SUBTITLE_OPTIONS, ...options };
+  const timedLines = lines.filter(line => !line.isGap && line.text.trim().length > 0);
+  const cues: SubtitleCue[] = [];
+
+  timedLines.forEach((line, index) => {
+    const startMs = Math.max(0, line.startMs ?? line.timestamp - startTime);
+
+    // Without an end time, run until the next line (at most the default duration)
+    let endMs = line.endMs;
+    if (endMs === undefined || endMs <= startMs) {
+      const next = timedLines[index + 1];
+      const nextStartMs = next ? next.startMs ?? next.timestamp - startTime : Infinity;
+      endMs = startMs + config.defaultDurationMs;
+      if (nextStartMs > startMs) {
+        endMs = Math.min(endMs, nextStartMs);
+      }
+    }
+
+    const wrapped = wrapText(line.text, config.maxCharsPerLine);
+    const chunks: string[][] = [];
+    for (let i = 0; i < wrapped.length; i += config.maxLinesPerCue) {
+      chunks.push(wrapped.slice(i, i + config.maxLinesPerCue));
+    }
+
+    const totalChars = wrapped.reduce((sum, text) => sum + text.length, 0);
+    let cueStart = startMs;
+    chunks.forEach((chunk, chunkIndex) => {
+      const chunkChars = chunk.reduce((sum, text) => sum + text.length, 0);
+      const cueEnd = chunkIndex === chunks.length - 1
+        ? endMs!
+        : cueStart + ((endMs! - startMs) * chunkChars) / totalChars;
+      cues.push({
+        startMs: Math.round(cueStart),
+        endMs: Math.round(cueEnd),
+        lines: chunk,
+        speaker: line.speaker,
+        speakerName: line.speakerName,
+      });
+      cueStart = cueEnd;
+    });
+  });
+
+  return cues;
+}
+
+/**
+ * Word-wrap text to a maximum line length
+ * Words longer than the limit are kept on their own line.
+ */
+function wrapText(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  text.trim().split(/\s+/).forEach(word => {
+    if (current && current.length + 1 + word.length > maxChars) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  });
+
+  if (current) {
+    lines.push(current);
+  }
+  return lines;
+}
+
 /**
  * Export transcript as SRT subtitle format
  */
 export function exportAsSRT(
   translations: TranscriptLine[],
-  startTime: number = 0
+  startTime: number = 0,
+  options: Partial<SubtitleOptions> = {}
 ): string {
-  let srt = '';
-  
-  translations.forEach((line, index) => {
-    // SRT index (1-based)
-    srt += `${index + 1}\n`;
-    
-    // Calculate timestamps (estimate 3 seconds per line if not tracked)
-    const relativeTime = line.timestamp - startTime;
-    const start = formatSRTTime(relativeTime);
-    const end = formatSRTTime(relativeTime + 3000); // 3 seconds duration
-    
-    srt += `${start} --> ${end}\n`;
-    srt += `${line.text}\n\n`;
+  return buildSubtitleCues(translations, startTime, options)
+    .map((cue, index) => {
+      const start = formatSRTTime(cue.startMs);
+      const end = formatSRTTime(cue.endMs);
+      // SRT index (1-based)
+      return `${index + 1}\n${start} --> ${end}\n${cue.lines.join('\n')}\n`;
+    })
+    .join('\n');
+}
+
+/**
+ * Export transcript as a WebVTT track
+ *
+ * Cues carry <v Speaker N> voice tags when the speaker is known. Source and
+ * translation are exported as separate tracks (one call per track); the
+ * optional title is written to the header (e.g., "English translation").
+ */
+export function exportAsVTT(
+  lines: TranscriptLine[],
+  startTime: number = 0,
+  title?: string,
+  options: Partial<SubtitleOptions> = {}
+): string {
+  const header = title ? `WEBVTT - ${title.replace(/-->|\n/g, ' ')}` : 'WEBVTT';
+
+  const cues = buildSubtitleCues(lines, startTime, options).map(cue => {
+    const start = formatVTTTime(cue.startMs);
+    const end = formatVTTTime(cue.endMs);
+    const text = cue.lines.map(escapeVTT).join('\n');
+    const payload = cue.speaker ? `<v ${escapeVTT(formatSpeakerName(cue.speaker, cue.speakerName))}>${text}</v>` : text;
+    return `${start} --> ${end}\n${payload}\n`;
   });
-  
-  return srt;
+
+  return [`${header}\n`, ...cues].join('\n');
+}
+
+/**
+ * Escape cue text for WebVTT (&, < and > are markup)
+ */
+function escapeVTT(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Format time for WebVTT (HH:MM:SS.mmm)
+ */
+function formatVTTTime(milliseconds: number): string {
+  return formatSRTTime(milliseconds).replace(',', '.');
 }
 
 /**
@@ -122,15 +348,493 @@ function padZero(num: number, length: number): string {
   return num.toString().padStart(length, '0');
 }
 
+/**
+ * Column headings for aligned exports
+ */
+function alignedHeadings(languages: ExportLanguages): { source: string; translation: string } {
+  return {
+    source: `Original (${getLanguageName(languages.sourceLanguage)})`,
+    translation: `Translation (${getLanguageName(languages.targetLanguage)})`,
+  };
+}
+
+/**
+ * Export aligned source and translation as a Markdown table
+ */
+export function exportAsAlignedMarkdown(
+  translations: TranscriptLine[],
+  source: TranscriptLine[],
+  languages: ExportLanguages = DEFAULT_EXPORT_LANGUAGES
+): string {
+  const headings = alignedHeadings(languages);
+  const cell = (text: string) => text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+  const rows = alignSegments(translations, source).map(segment =>
+    `| ${segment.speaker ? cell(formatSpeakerName(segment.speaker, segment.speakerName)) : ''} | ${cell(joinSegmentText(segment.source))} | ${cell(joinSegmentText(segment.translations))} |`
+  );
+
+  return [
+    '# TransLang Aligned Transcript',
+    '',
+    `| Speaker | ${headings.source} | ${headings.translation} |`,
+    '| --- | --- | --- |',
+    ...rows,
+    '',
+  ].join('\n');
+}
+
+/**
+ * Export aligned source and translation as a self-contained HTML table
+ */
+export function exportAsAlignedHTML(
+  translations: TranscriptLine[],
+  source: TranscriptLine[],
+  languages: ExportLanguages = DEFAULT_EXPORT_LANGUAGES
+): string {
+  const headings = alignedHeadings(languages);
+  const rows = alignSegments(translations, source).map((segment: AlignedSegment) => `      <tr>
+        <td class="speaker">${segment.speaker ? escapeXML(formatSpeakerName(segment.speaker, segment.speakerName)) : ''}</td>
+        <td lang="${escapeXML(segment.source[0]?.language || languages.sourceLanguage)}">${escapeXML(joinSegmentText(segment.source))}</td>
+        <td lang="${escapeXML(segment.translations[0]?.language || languages.targetLanguage)}">${escapeXML(joinSegmentText(segment.translations))}</td>
+      </tr>`);
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>TransLang Aligned Transcript</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { border: 1px solid #e5e7eb; padding: 0.5rem 0.75rem; text-align: left; vertical-align: top; }
+    th { background: #f3f4f6; }
+    td.speaker { white-space: nowrap; color: #6b7280; font-size: 0.875rem; }
+  </style>
+</head>
+<body>
+  <h1>TransLang Aligned Transcript</h1>
+  <table>
+    <thead>
+      <tr><th>Speaker</th><th>${escapeXML(headings.source)}</th><th>${escapeXML(headings.translation)}</th></tr>
+    </thead>
+    <tbody>
+${rows.join('\n')}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+}
+
+/**
+ * Export aligned segments as a TMX 1.4 translation memory
+ * Only segments with both source and translation text become translation units.
+ */
+export function exportAsTMX(
+  translations: TranscriptLine[],
+  source: TranscriptLine[],
+  languages: ExportLanguages = DEFAULT_EXPORT_LANGUAGES
+): string {
+  const units = alignSegments(translations, source)
+    .filter(segment => segment.source.length > 0 && segment.translations.length > 0)
+    .map(segment => {
+      const sourceLanguage = segment.source[0].language || languages.sourceLanguage;
+      const targetLanguage = segment.translations[0].language || languages.targetLanguage;
+      return `    <tu>
+      <tuv xml:lang="${escapeXML(sourceLanguage)}"><seg>${escapeXML(joinSegmentText(segment.source))}</seg></tuv>
+      <tuv xml:lang="${escapeXML(targetLanguage)}"><seg>${escapeXML(joinSegmentText(segment.translations))}</seg></tuv>
+    </tu>`;
+    });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tmx version="1.4">
+  <header creationtool="TransLang" creationtoolversion="1.0" datatype="plaintext" segtype="sentence" adminlang="en" srclang="${escapeXML(languages.sourceLanguage)}" o-tmf="TransLang"/>
+  <body>
+${units.join('\n')}
+  </body>
+</tmx>
+`;
+}
+
+/**
+ * Meeting minutes options
+ */
+export interface MinutesOptions {
+  title?: string;
+  startedAt?: number;          // Session start (first line if omitted)
+  endedAt?: number;            // Session end (last line if omitted)
+  groupingWindowMs?: number;   // Same speaker grouping as the chat view
+  includeTimestamps?: boolean; // Time offset at the start of each speaker turn
+  includeSource?: boolean;     // Collapsible original-language section
+}
+
+/**
+ * Shared content of the Markdown and HTML minutes
+ */
+interface MinutesContent {
+  title: string;
+  date: string;
+  duration: string;
+  languages: string;
+  speakers: string[];
+  sourceHeading: string;
+  translationHeading: string;
+  translationGroups: SpeakerGroup[];
+  sourceGroups: SpeakerGroup[];
+  startedAt: number;
+}
+
+/**
+ * Collect the content shared by both minutes formats
+ */
+function buildMinutesContent(
+  translations: TranscriptLine[],
+  source: TranscriptLine[],
+  languages: ExportLanguages,
+  options: MinutesOptions
+): MinutesContent {
+  const firstLine = [...translations, ...source].reduce<TranscriptLine | null>(
+    (earliest, line) => (!earliest || line.timestamp < earliest.timestamp ? line : earliest),
+    null
+  );
+  const startedAt = options.startedAt ?? firstLine?.timestamp ?? 0;
+  const lastLine = [...translations, ...source].reduce<TranscriptLine | null>(
+    (latest, line) => (!latest || line.timestamp > latest.timestamp ? line : latest),
+    null
+  );
+  const endedAt = options.endedAt ?? lastLine?.timestamp ?? startedAt;
+  const groupingWindowMs = options.groupingWindowMs ?? DEFAULT_GROUPING_WINDOW_MS;
+
+  return {
+    title: options.title || 'Meeting Minutes',
+    date: new Date(startedAt).toLocaleString(undefined, { dateStyle: 'full', timeStyle: 'short' }),
+    duration: formatDuration(endedAt - startedAt),
+    languages: `${getLanguageName(languages.sourceLanguage)} → ${getLanguageName(languages.targetLanguage)}`,
+    speakers: collectSpeakerNames([...source, ...translations]),
+    sourceHeading: `Original (${getLanguageName(languages.sourceLanguage)})`,
+    translationHeading: `Transcript (${getLanguageName(languages.targetLanguage)})`,
+    translationGroups: groupBySpeaker(translations, groupingWindowMs),
+    sourceGroups: options.includeSource ? groupBySpeaker(source, groupingWindowMs) : [],
+    startedAt,
+  };
+}
+
+/**
+ * Display names of the speakers in order of appearance
+ */
+function collectSpeakerNames(lines: TranscriptLine[]): string[] {
+  const names = new Map<string, string>();
+  lines.forEach(line => {
+    if (line.speaker && !names.has(line.speaker)) {
+      names.set(line.speaker, formatSpeakerName(line.speaker, line.speakerName));
+    }
+  });
+  return Array.from(names.values());
+}
+
+/**
+ * Time offset of a line from the session start (HH:MM:SS)
+ */
+function formatLineTime(line: TranscriptLine, startedAt: number): string {
+  const offsetMs = Math.max(0, line.startMs ?? line.timestamp - startedAt);
+  return formatSRTTime(Math.round(offsetMs)).split(',')[0];
+}
+
+/**
+ * Time offset of a speaker turn from the session start (HH:MM:SS)
+ */
+function formatGroupTime(group: SpeakerGroup, startedAt: number): string {
+  return formatLineTime(group.lines[0], startedAt);
+}
+
+/**
+ * Human-readable duration (e.g., "1 h 5 min", "12 min", "45 s")
+ */
+function formatDuration(milliseconds: number): string {
+  const totalSeconds = Math.max(0, Math.round(milliseconds / 1000));
+  if (totalSeconds < 60) return `${totalSeconds} s`;
+  const totalMinutes = Math.round(totalSeconds / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours} h ${minutes} min` : `${minutes} min`;
+}
+
+/**
+ * Export meeting minutes as Markdown (for pasting into a wiki)
+ */
+export function exportAsMinutesMarkdown(
+  translations: TranscriptLine[],
+  source: TranscriptLine[] = [],
+  languages: ExportLanguages = DEFAULT_EXPORT_LANGUAGES,
+  options: MinutesOptions = {}
+): string {
+  const content = buildMinutesContent(translations, source, languages, options);
+
+  const renderGroups = (groups: SpeakerGroup[]) => groups.map(group => {
+    if (group.isGap) {
+      return `> ⚠️ _${group.lines[0].text}_`;
+    }
+    const time = options.includeTimestamps ? ` · ${formatGroupTime(group, content.startedAt)}` : '';
+    return `**${formatSpeakerName(group.speaker, group.speakerName)}**${time}  \n${joinSegmentText(group.lines)}`;
+  }).join('\n\n');
+
+  let markdown = `# ${content.title}\n\n`;
+  markdown += `- **Date:** ${content.date}\n`;
+  markdown += `- **Duration:** ${content.duration}\n`;
+  markdown += `- **Languages:** ${content.languages}\n`;
+  markdown += `- **Speakers:** ${content.speakers.length > 0 ? content.speakers.join(', ') : '—'}\n\n`;
+  markdown += `## ${content.translationHeading}\n\n${renderGroups(content.translationGroups)}\n`;
+
+  if (content.sourceGroups.length > 0) {
+    // <details> renders as a collapsible section in most wikis
+    markdown += `\n<details>\n<summary>${content.sourceHeading}</summary>\n\n`;
+    markdown += `${renderGroups(content.sourceGroups)}\n\n</details>\n`;
+  }
+
+  return markdown;
+}
+
+/**
+ * Export meeting minutes as a self-contained HTML page
+ */
+export function exportAsMinutesHTML(
+  translations: TranscriptLine[],
+  source: TranscriptLine[] = [],
+  languages: ExportLanguages = DEFAULT_EXPORT_LANGUAGES,
+  options: MinutesOptions = {}
+): string {
+  const content = buildMinutesContent(translations, source, languages, options);
+
+  const renderGroups = (groups: SpeakerGroup[]) => groups.map(group => {
+    if (group.isGap) {
+      return `    <p class="gap">⚠️ ${escapeXML(group.lines[0].text)}</p>`;
+    }
+    const time = options.includeTimestamps
+      ? ` <span class="time">${formatGroupTime(group, content.startedAt)}</span>`
+      : '';
+    return `    <section class="turn">
+      <h3>${escapeXML(formatSpeakerName(group.speaker, group.speakerName))}${time}</h3>
+      <p>${escapeXML(joinSegmentText(group.lines))}</p>
+    </section>`;
+  }).join('\n');
+
+  const sourceSection = content.sourceGroups.length > 0
+    ? `
+  <details>
+    <summary>${escapeXML(content.sourceHeading)}</summary>
+${renderGroups(content.sourceGroups)}
+  </details>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeXML(content.title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1f2937; line-height: 1.6; }
+    dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; color: #374151; }
+    dt { font-weight: 600; }
+    dd { margin: 0; }
+    .turn h3 { font-size: 0.9375rem; margin: 1.25rem 0 0.25rem; }
+    .turn p { margin: 0; }
+    .time { font-weight: 400; color: #6b7280; font-size: 0.8125rem; margin-left: 0.5rem; }
+    .gap { color: #b45309; font-style: italic; border-top: 1px dashed #d1d5db; padding-top: 0.5rem; }
+    details { margin-top: 2rem; border-top: 1px solid #e5e7eb; padding-top: 1rem; }
+    summary { cursor: pointer; font-weight: 600; }
+  </style>
+</head>
+<body>
+  <h1>${escapeXML(content.title)}</h1>
+  <dl>
+    <dt>Date</dt><dd>${escapeXML(content.date)}</dd>
+    <dt>Duration</dt><dd>${escapeXML(content.duration)}</dd>
+    <dt>Languages</dt><dd>${escapeXML(content.languages)}</dd>
+    <dt>Speakers</dt><dd>${escapeXML(content.speakers.join(', ') || '—')}</dd>
+  </dl>
+  <h2>${escapeXML(content.translationHeading)}</h2>
+${renderGroups(content.translationGroups)}${sourceSection}
+</body>
+</html>
+`;
+}
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/**
+ * Word document options (document properties come from the session)
+ */
+export interface DocxOptions extends MinutesOptions {
+  author?: string;
+}
+
+/**
+ * Word paragraph with an optional style
+ */
+function docxParagraph(text: string, style?: string, bold: boolean = false): string {
+  const properties = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : '';
+  const runProperties = bold ? '<w:rPr><w:b/></w:rPr>' : '';
+  return `<w:p>${properties}<w:r>${runProperties}<w:t xml:space="preserve">${escapeXML(text)}</w:t></w:r></w:p>`;
+}
+
+/**
+ * Word table cell
+ */
+function docxCell(text: string, widthTwips: number, isHeader: boolean = false): string {
+  const shading = isHeader ? '<w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/>' : '';
+  return `<w:tc><w:tcPr><w:tcW w:w="${widthTwips}" w:type="dxa"/>${shading}</w:tcPr>${docxParagraph(text, undefined, isHeader)}</w:tc>`;
+}
+
+/**
+ * Export transcript as a Word document (.docx)
+ *
+ * Contains a session summary, speaker-grouped paragraphs (with optional
+ * timestamps) and, when source lines are given, an aligned
+ * source/translation table. Title, author, subject, keywords and dates
+ * are written to the document properties.
+ */
+export function exportAsDOCX(
+  translations: TranscriptLine[],
+  source: TranscriptLine[] = [],
+  languages: ExportLanguages = DEFAULT_EXPORT_LANGUAGES,
+  options: DocxOptions = {}
+): Blob {
+  const content = buildMinutesContent(translations, source, languages, { ...options, includeSource: false });
+  const title = options.title || 'TransLang Transcript';
+  const body: string[] = [];
+
+  body.push(docxParagraph(title, 'Title'));
+  body.push(docxParagraph(`Date: ${content.date}`));
+  body.push(docxParagraph(`Duration: ${content.duration}`));
+  body.push(docxParagraph(`Languages: ${content.languages}`));
+  body.push(docxParagraph(`Speakers: ${content.speakers.join(', ') || '—'}`));
+
+  body.push(docxParagraph(content.translationHeading, 'Heading1'));
+  content.translationGroups.forEach(group => {
+    if (group.isGap) {
+      body.push(docxParagraph(`⚠️ ${group.lines[0].text}`, 'Note'));
+      return;
+    }
+    const time = options.includeTimestamps !== false ? ` (${formatGroupTime(group, content.startedAt)})` : '';
+    body.push(docxParagraph(`${formatSpeakerName(group.speaker, group.speakerName)}${time}`, 'Heading2'));
+    body.push(docxParagraph(joinSegmentText(group.lines)));
+  });
+
+  if (source.length > 0) {
+    // Column widths in twips (A4 text width ≈ 9000)
+    const widths = [1100, 1300, 3300, 3300];
+    const headerRow = `<w:tr><w:trPr><w:tblHeader/></w:trPr>${[
+      'Time', 'Speaker', content.sourceHeading, `Translation (${getLanguageName(languages.targetLanguage)})`,
+    ].map((text, i) => docxCell(text, widths[i], true)).join('')}</w:tr>`;
+
+    const rows = alignSegments(translations, source).map(segment => {
+      const firstLine = segment.source[0] || segment.translations[0];
+      return `<w:tr>${[
+        formatLineTime(firstLine, content.startedAt),
+        segment.speaker ? formatSpeakerName(segment.speaker, segment.speakerName) : '',
+        joinSegmentText(segment.source),
+        joinSegmentText(segment.translations),
+      ].map((text, i) => docxCell(text, widths[i])).join('')}</w:tr>`;
+    });
+
+    body.push(docxParagraph('Source and Translation', 'Heading1'));
+    body.push(`<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="0" w:type="auto"/></w:tblPr><w:tblGrid>${
+      widths.map(width => `<w:gridCol w:w="${width}"/>`).join('')
+    }</w:tblGrid>${headerRow}${rows.join('')}</w:tbl>`);
+  }
+
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:body>${body.join('')}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body>
+</w:document>`;
+
+  const style = (id: string, name: string, runProperties: string, paragraphProperties: string = '') =>
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>${
+      paragraphProperties ? `<w:pPr>${paragraphProperties}</w:pPr>` : ''
+    }<w:rPr>${runProperties}</w:rPr></w:style>`;
+
+  const stylesXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+${style('Title', 'Title', '<w:b/><w:sz w:val="40"/>', '<w:spacing w:after="240"/>')}
+${style('Heading1', 'heading 1', '<w:b/><w:color w:val="1E40AF"/><w:sz w:val="30"/>', '<w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="0"/>')}
+${style('Heading2', 'heading 2', '<w:b/><w:color w:val="374151"/><w:sz w:val="24"/>', '<w:keepNext/><w:spacing w:before="240" w:after="60"/><w:outlineLvl w:val="1"/>')}
+${style('Note', 'Note', '<w:i/><w:color w:val="B45309"/>')}
+<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders><w:top w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/><w:left w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/><w:bottom w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/><w:right w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/><w:insideH w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/><w:insideV w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/></w:tblBorders></w:tblPr></w:style>
+</w:styles>`;
+
+  const created = new Date(content.startedAt || Date.now()).toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const coreXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${escapeXML(title)}</dc:title>
+<dc:subject>${escapeXML(`Translation ${content.languages}`)}</dc:subject>
+<dc:creator>${escapeXML(options.author || 'TransLang')}</dc:creator>
+<cp:keywords>${escapeXML(['translation', languages.sourceLanguage, languages.targetLanguage].join(', '))}</cp:keywords>
+<dc:description>${escapeXML(`${content.duration}; ${content.speakers.join(', ') || 'no speakers detected'}`)}</dc:description>
+<dc:language>${escapeXML(languages.targetLanguage)}</dc:language>
+<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created>
+<dcterms:modified xsi:type="dcterms:W3CDTF">${modified}</dcterms:modified>
+</cp:coreProperties>`;
+
+  const appXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"><Application>TransLang</Application></Properties>`;
+
+  const contentTypesXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+<Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>
+</Types>`;
+
+  const rootRelsXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/extended-properties" Target="docProps/app.xml"/>
+</Relationships>`;
+
+  const documentRelsXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+  const archive = createZipArchive([
+    { path: '[Content_Types].xml', content: contentTypesXml },
+    { path: '_rels/.rels', content: rootRelsXml },
+    { path: 'word/document.xml', content: documentXml },
+    { path: 'word/styles.xml', content: stylesXml },
+    { path: 'word/_rels/document.xml.rels', content: documentRelsXml },
+    { path: 'docProps/core.xml', content: coreXml },
+    { path: 'docProps/app.xml', content: appXml },
+  ]);
+  return new Blob([archive.buffer as ArrayBuffer], { type: DOCX_MIME_TYPE });
+}
+
+/**
+ * Escape text for XML/HTML
+ */
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
 /**
  * Download file to user's computer
  */
 export function downloadFile(
-  content: string,
+  content: string | Blob,
   filename: string,
   mimeType: string = 'text/plain'
 ): void {
-  const blob = new Blob([content], { type: mimeType });
+  const blob = typeof content === 'string' ? new Blob([content], { type: mimeType }) : content;
   const url = URL.createObjectURL(blob);
   
   const link = document.createElement('a');
@@ -170,25 +874,32 @@ export async function copyToClipboard(text: string): Promise<boolean> {
 }
 
 /**
- * Generate filename with timestamp
+ * Generate filename with timestamp (and optional language suffix, e.g. "-en")
  */
-export function generateFilename(format: 'txt' | 'json' | 'srt'): string {
+export function generateFilename(
+  format: 'txt' | 'json' | 'srt' | 'vtt' | 'md' | 'html' | 'tmx' | 'docx',
+  language?: string
+): string {
   const now = new Date();
   const dateStr = now.toISOString().split('T')[0]; // YYYY-MM-DD
   const timeStr = now.toTimeString().split(' ')[0].replace(/:/g, '-'); // HH-MM-SS
+  const languageSuffix = language ? `-${language}` : '';
   
-  return `translang-transcript-${dateStr}_${timeStr}.${format}`;
+  return `translang-transcript-${dateStr}_${timeStr}${languageSuffix}.${format}`;
 }
 
 /**
- * Get transcript statistics
+ * Get transcript statistics (totals and per-speaker balance)
+ * Per-speaker stats use the source lines when available (they carry the
+ * token timing of the speech) and the translations otherwise.
  */
-export function getTranscriptStats(translations: TranscriptLine[]): {
+export function getTranscriptStats(translations: TranscriptLine[], source: TranscriptLine[] = []): {
   totalLines: number;
   totalWords: number;
   totalCharacters: number;
   averageLineLength: number;
   longestLine: number;
+  speakers: SpeakerStats[];
 } {
   const totalLines = translations.length;
   const allText = translations.map(t => t.text).join(' ');
@@ -207,6 +918,7 @@ export function getTranscriptStats(translations: TranscriptLine[]): {
     totalCharacters,
     averageLineLength: Math.round(averageLineLength),
     longestLine,
+    speakers: getSpeakerStats(source.length > 0 ? source : translations),
   };
 }
 
@@ -7,6 +7,8 @@
  * Phase 3 Implementation
  */
 
+import { TranslationProvider } from '@/utils/translationProvider';
+
 export interface KeepaliveConfig {
   interval: number; // milliseconds between keepalive messages
   enabled: boolean;
@@ -25,7 +27,7 @@ export const DEFAULT_KEEPALIVE_CONFIG: KeepaliveConfig = {
 export class KeepaliveManager {
   private config: KeepaliveConfig;
   private intervalId: NodeJS.Timeout | null = null;
-  private client: any = null;
+  private client: TranslationProvider | null = null;
   private isRunning: boolean = false;
 
   constructor(config: Partial<KeepaliveConfig> = {}) {
@@ -35,9 +37,9 @@ export class KeepaliveManager {
   /**
    * Start sending keepalive messages
    * 
-   * @param client - Soniox client instance (must have sendKeepalive or similar method)
+   * @param client - Translation provider of the active session
    */
-  start(client: any): void {
+  start(client: TranslationProvider): void {
     if (!this.config.enabled) {
       console.log('⏸️ Keepalive disabled');
       return;
@@ -72,14 +74,8 @@ export class KeepaliveManager {
     }
 
     try {
-      // Check if client has a sendKeepalive method
-      if (typeof this.client.sendKeepalive === 'function') {
-        this.client.sendKeepalive();
-        console.log('💓 Keepalive sent');
-      } else {
-        // Fallback: Some SDKs might handle keepalive automatically
-        console.log('💓 Keepalive (handled by SDK)');
-      }
+      this.client.keepalive();
+      console.log('💓 Keepalive sent');
     } catch (error) {
       console.error('❌ Failed to send keepalive:', error);
     }
@@ -0,0 +1,66 @@
+/**
+ * Language Utilities
+ *
+ * Shared language list and label helpers used by the settings panel,
+ * transcript display and export formats.
+ */
+
+export interface LanguageOption {
+  code: string;
+  name: string;
+  flag: string;
+}
+
+/**
+ * Languages available as translation source and target
+ */
+export const SUPPORTED_LANGUAGES: LanguageOption[] = [
+  { code: 'ar', name: 'Arabic', flag: '🇸🇦' },
+  { code: 'de', name: 'German', flag: '🇩🇪' },
+  { code: 'en', name: 'English', flag: '🇺🇸' },
+  { code: 'es', name: 'Spanish', flag: '🇪🇸' },
+  { code: 'fr', name: 'French', flag: '🇫🇷' },
+  { code: 'hi', name: 'Hindi', flag: '🇮🇳' },
+  { code: 'it', name: 'Italian', flag: '🇮🇹' },
+  { code: 'ja', name: 'Japanese', flag: '🇯🇵' },
+  { code: 'ko', name: 'Korean', flag: '🇰🇷' },
+  { code: 'nl', name: 'Dutch', flag: '🇳🇱' },
+  { code: 'pl', name: 'Polish', flag: '🇵🇱' },
+  { code: 'pt', name: 'Portuguese', flag: '🇵🇹' },
+  { code: 'ru', name: 'Russian', flag: '🇷🇺' },
+  { code: 'tr', name: 'Turkish', flag: '🇹🇷' },
+  { code: 'uk', name: 'Ukrainian', flag: '🇺🇦' },
+  { code: 'zh', name: 'Chinese', flag: '🇨🇳' },
+];
+
+/**
+ * Pseudo-language used when the source language is auto-detected
+ */
+export const AUTO_DETECT_LANGUAGE: LanguageOption = {
+  code: 'auto',
+  name: 'Auto-Detect',
+  flag: '🌐',
+};
+
+export const DEFAULT_SOURCE_LANGUAGE = 'de';
+export const DEFAULT_TARGET_LANGUAGE = 'en';
+
+/**
+ * Get human-readable language name (e.g., "de" → "German")
+ */
+export function getLanguageName(code: string): string {
+  if (code === AUTO_DETECT_LANGUAGE.code) {
+    return 'Original';
+  }
+  return SUPPORTED_LANGUAGES.find(l => l.code === code)?.name || code.toUpperCase();
+}
+
+/**
+ * Get short language tag for labels and prefixes (e.g., "de" → "DE")
+ */
+export function getLanguageTag(code: string): string {
+  if (code === AUTO_DETECT_LANGUAGE.code) {
+    return 'SRC';
+  }
+  return code.toUpperCase();
+}
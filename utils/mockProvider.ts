@@ -0,0 +1,475 @@
+/**
+ * Mock Translation Provider (development and demos)
+ *
+ * Replays a recorded token stream instead of calling a speech engine, so the
+ * app runs without network access. Scripts are JSON Lines, one frame per line:
+ *
+ *   {"at_ms": 0, "tokens": [...], "final_audio_proc_ms": 0, "total_audio_proc_ms": 350}
+ *   {"at_ms": 5200, "error": {"kind": "connection", "code": 503, "message": "Service unavailable"}}
+ *   {"at_ms": 9000, "finished": true}
+ *
+ * - at_ms: time since the session started (recorded timing)
+ * - Token frames are TranslatorResult objects, delivered as 'tokens' events
+ * - Error frames end the session like a real failure; finished ends it normally
+ *
+ * Replay is deterministic: the same script, speed and injected errors give the
+ * same events in the same order. Sessions of one factory share a position, so
+ * a reconnection (RetryManager) resumes after the failure and each injected
+ * error fires once; stop or cancel rewinds to the start. Only one session
+ * replays at a time (additional target-language sessions stay silent).
+ * No audio is captured for it (needsAudio: false), so no microphone is needed.
+ */
+
+import { Token } from '@/utils/tokenParser';
+import {
+  ProviderError,
+  ProviderErrorKind,
+  ProviderEventListener,
+  ProviderStartOptions,
+  TranslationProvider,
+  TranslationProviderFactory,
+  TranslatorResult,
+} from '@/utils/translationProvider';
+
+export type ReplayFrame =
+  | { atMs: number; type: 'tokens'; result: TranslatorResult }
+  | { atMs: number; type: 'error'; error: ProviderError }
+  | { atMs: number; type: 'finished' };
+
+export interface ReplayScript {
+  frames: ReplayFrame[];  // Sorted by atMs
+  durationMs: number;
+}
+
+export interface ReplayScriptParseResult {
+  isValid: boolean;
+  errors: string[];
+  script?: ReplayScript;
+}
+
+/**
+ * Failures the app must handle, with the messages and codes the real
+ * engine produces (so errorHandler classifies them the same way)
+ */
+export type MockErrorPreset = 'session_terminated' | 'service_unavailable' | 'permission_denied';
+
+export const MOCK_ERROR_PRESETS: Record<MockErrorPreset, { label: string; error: ProviderError }> = {
+  session_terminated: {
+    label: 'Session terminated',
+    error: { kind: 'api', message: 'Cannot continue request (session terminated)' },
+  },
+  service_unavailable: {
+    label: '503 Service unavailable',
+    error: { kind: 'connection', code: 503, message: 'Service unavailable' },
+  },
+  permission_denied: {
+    label: 'Permission denied',
+    error: { kind: 'api', code: 403, message: 'Permission denied for this API key' },
+  },
+};
+
+export interface InjectedError {
+  atMs: number;  // Script time (recorded timing, before speed is applied)
+  error: MockErrorPreset | ProviderError;
+}
+
+export interface MockProviderOptions {
+  speed?: number;  // 1 = recorded timing, 2 = twice as fast
+  injectedErrors?: InjectedError[];
+}
+
+export const MOCK_SPEED_RANGE = { min: 0.25, max: 20 };
+
+const ERROR_KINDS: ProviderErrorKind[] = ['access_denied', 'connection', 'api', 'media', 'queue_limit'];
+
+// Parse errors reported per script (the rest are summarized)
+const MAX_REPORTED_ERRORS = 20;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Check a token from a script
+ */
+function parseToken(value: unknown): Token | null {
+  if (!isObject(value) || typeof value.text !== 'string' || typeof value.is_final !== 'boolean') {
+    return null;
+  }
+  return {
+    text: value.text,
+    is_final: value.is_final,
+    translation_status: value.translation_status,
+    language: value.language,
+    source_language: value.source_language,
+    start_ms: value.start_ms,
+    end_ms: value.end_ms,
+    confidence: value.confidence,
+    speaker: value.speaker,
+  };
+}
+
+/**
+ * Parse one line of a script; returns the frame or an error message
+ */
+function parseFrame(value: unknown, previousAtMs: number): ReplayFrame | string {
+  if (!isObject(value)) {
+    return 'expected a JSON object';
+  }
+
+  const atMs = value.at_ms ?? previousAtMs;
+  if (typeof atMs !== 'number' || !Number.isFinite(atMs) || atMs < 0) {
+    return '"at_ms" must be a non-negative number';
+  }
+  if (atMs < previousAtMs) {
+    return `"at_ms" goes back in time (${atMs} < ${previousAtMs})`;
+  }
+
+  if (value.finished === true) {
+    return { atMs, type: 'finished' };
+  }
+
+  if (value.error !== undefined) {
+    const { error } = value;
+    if (!isObject(error) || !ERROR_KINDS.includes(error.kind) || typeof error.message !== 'string') {
+      return `"error" needs a "kind" (${ERROR_KINDS.join(', ')}) and a "message"`;
+    }
+    return {
+      atMs,
+      type: 'error',
+      error: { kind: error.kind, message: error.message, code: typeof error.code === 'number' ? error.code : undefined },
+    };
+  }
+
+  if (!Array.isArray(value.tokens)) {
+    return 'expected "tokens", "error" or "finished"';
+  }
+  const tokens: Token[] = [];
+  for (let i = 0; i < value.tokens.length; i++) {
+    const token = parseToken(value.tokens[i]);
+    if (!token) {
+      return `token ${i + 1} needs "text" (string) and "is_final" (boolean)`;
+    }
+    tokens.push(token);
+  }
+  return {
+    atMs,
+    type: 'tokens',
+    result: {
+      tokens,
+      final_audio_proc_ms: typeof value.final_audio_proc_ms === 'number' ? value.final_audio_proc_ms : undefined,
+      total_audio_proc_ms: typeof value.total_audio_proc_ms === 'number' ? value.total_audio_proc_ms : undefined,
+    },
+  };
+}
+
+/**
+ * Parse a JSON Lines replay script (blank lines are skipped)
+ */
+export function parseReplayScript(text: string): ReplayScriptParseResult {
+  const errors: string[] = [];
+  const frames: ReplayFrame[] = [];
+  let previousAtMs = 0;
+  let errorCount = 0;
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+
+    let frame: ReplayFrame | string;
+    try {
+      frame = parseFrame(JSON.parse(line), previousAtMs);
+    } catch {
+      frame = 'invalid JSON';
+    }
+
+    if (typeof frame === 'string') {
+      errorCount++;
+      if (errors.length < MAX_REPORTED_ERRORS) {
+        errors.push(`Line ${index + 1}: ${frame}`);
+      }
+      return;
+    }
+    frames.push(frame);
+    previousAtMs = frame.atMs;
+  });
+
+  if (errorCount > errors.length) {
+    errors.push(`…and ${errorCount - errors.length} more`);
+  }
+  if (frames.length === 0 && errorCount === 0) {
+    errors.push('The script has no frames');
+  }
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+  return { isValid: true, errors, script: { frames, durationMs: previousAtMs } };
+}
+
+/**
+ * Write frames as a JSON Lines script (e.g., to save a recorded session)
+ */
+export function serializeReplayScript(frames: ReplayFrame[]): string {
+  return frames.map(frame => {
+    switch (frame.type) {
+      case 'tokens':
+        return JSON.stringify({ at_ms: frame.atMs, ...frame.result });
+      case 'error':
+        return JSON.stringify({ at_ms: frame.atMs, error: frame.error });
+      case 'finished':
+        return JSON.stringify({ at_ms: frame.atMs, finished: true });
+    }
+  }).join('\n') + '\n';
+}
+
+/**
+ * Built-in demo: a short German meeting translated into English,
+ * spoken word by word by two speakers
+ */
+export function createDemoReplayScript(): ReplayScript {
+  const sentences = [
+    { speaker: '1', text: 'Guten Morgen zusammen, schön dass ihr alle da seid.', translation: 'Good morning everyone, nice that you are all here.' },
+    { speaker: '1', text: 'Heute besprechen wir die Planung für das nächste Quartal.', translation: 'Today we will discuss the plan for the next quarter.' },
+    { speaker: '2', text: 'Danke. Ich habe die Zahlen vom letzten Monat mitgebracht.', translation: 'Thanks. I brought the numbers from last month.' },
+    { speaker: '2', text: 'Der Umsatz ist um zwölf Prozent gestiegen.', translation: 'Revenue went up by twelve percent.' },
+    { speaker: '1', text: 'Sehr gut. Welche Risiken siehst du für die Einführung?', translation: 'Very good. Which risks do you see for the launch?' },
+    { speaker: '2', text: 'Vor allem die Lieferzeiten, aber wir haben einen Plan.', translation: 'Mainly the delivery times, but we have a plan.' },
+  ];
+  const WORD_MS = 350;
+  const PAUSE_MS = 1200;
+
+  const frames: ReplayFrame[] = [];
+  let audioMs = 0;
+
+  sentences.forEach(({ speaker, text, translation }) => {
+    const sentenceStartMs = audioMs;
+    const words = text.split(' ');
+    const wordTokens = (count: number, isFinal: boolean): Token[] => words.slice(0, count).map((word, i) => ({
+      text: (i > 0 ? ' ' : '') + word,
+      is_final: isFinal,
+      translation_status: 'original',
+      language: 'de',
+      start_ms: sentenceStartMs + i * WORD_MS,
+      end_ms: sentenceStartMs + (i + 1) * WORD_MS,
+      confidence: 0.96,
+      speaker,
+    }));
+
+    // Growing non-final hypothesis, one word at a time
+    for (let count = 1; count < words.length; count++) {
+      audioMs += WORD_MS;
+      frames.push({
+        atMs: audioMs,
+        type: 'tokens',
+        result: { tokens: wordTokens(count, false), final_audio_proc_ms: sentenceStartMs, total_audio_proc_ms: audioMs },
+      });
+    }
+
+    // Sentence final, followed by its translation
+    audioMs += WORD_MS;
+    frames.push({
+      atMs: audioMs,
+      type: 'tokens',
+      result: {
+        tokens: [
+          ...wordTokens(words.length, true),
+          {
+            text: translation,
+            is_final: true,
+            translation_status: 'translation',
+            language: 'en',
+            source_language: 'de',
+            confidence: 0.94,
+            speaker,
+          },
+        ],
+        final_audio_proc_ms: audioMs,
+        total_audio_proc_ms: audioMs,
+      },
+    });
+    audioMs += PAUSE_MS;
+  });
+
+  return { frames, durationMs: audioMs };
+}
+
+/**
+ * Replay position shared by the sessions of one factory
+ */
+interface ReplayState {
+  cursor: number;       // Next frame
+  positionMs: number;   // Script time reached
+  firedErrors: Set<number>;  // Injected errors already delivered
+  active: MockProvider | null;
+}
+
+/**
+ * Mock Provider
+ */
+export class MockProvider implements TranslationProvider {
+  readonly name = 'mock';
+  readonly needsAudio = false;
+  private onEvent: ProviderEventListener | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private sessionStartedAt = 0;  // Wall clock
+  private sessionStartMs = 0;    // Script time at session start
+  private isReplaying = false;
+
+  constructor(
+    private readonly script: ReplayScript,
+    private readonly injectedErrors: InjectedError[],
+    private readonly speed: number,
+    private readonly state: ReplayState
+  ) {}
+
+  async start(_options: ProviderStartOptions, onEvent: ProviderEventListener): Promise<void> {
+    this.onEvent = onEvent;
+
+    // Another session is replaying (e.g., additional target language): stay silent
+    this.isReplaying = !this.state.active;
+    if (this.isReplaying) {
+      this.state.active = this;
+      console.log(`🧪 Mock replay from ${(this.state.positionMs / 1000).toFixed(1)}s at ${this.speed}x`);
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.sessionStartedAt = Date.now();
+      this.sessionStartMs = this.state.positionMs;
+      this.onEvent?.({ type: 'started' });
+      if (this.isReplaying) this.scheduleNext();
+    }, 0);
+  }
+
+  stop(): void {
+    this.clearTimer();
+    this.rewind();
+    // Pending results were already delivered; finish like the engine would
+    const onEvent = this.onEvent;
+    this.onEvent = null;
+    if (onEvent) setTimeout(() => onEvent({ type: 'finished' }), 0);
+  }
+
+  cancel(): void {
+    this.clearTimer();
+    this.rewind();
+    this.onEvent = null;
+  }
+
+  finalize(): void {
+    // Recorded frames already contain their final tokens
+  }
+
+  keepalive(): void {
+    // No connection to keep open
+  }
+
+  /**
+   * Wait for the next frame or injected error (whichever comes first)
+   */
+  private scheduleNext(): void {
+    const frame = this.script.frames[this.state.cursor];
+    const errorIndex = this.nextInjectedError();
+    const error = errorIndex >= 0 ? this.injectedErrors[errorIndex] : undefined;
+
+    if (!frame && !error) {
+      // End of the recording: stay open like a silent microphone until stopped
+      return;
+    }
+
+    const useError = !!error && (!frame || error.atMs <= frame.atMs);
+    const atMs = useError ? error!.atMs : frame!.atMs;
+    const elapsedMs = Date.now() - this.sessionStartedAt;
+    const delay = Math.max(0, (atMs - this.sessionStartMs) / this.speed - elapsedMs);
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.state.positionMs = Math.max(this.state.positionMs, atMs);
+      if (useError) {
+        this.state.firedErrors.add(errorIndex);
+        const injected = error!.error;
+        this.fail(typeof injected === 'string' ? MOCK_ERROR_PRESETS[injected].error : injected);
+      } else {
+        this.state.cursor++;
+        this.deliver(frame!);
+      }
+    }, delay);
+  }
+
+  private nextInjectedError(): number {
+    let next = -1;
+    this.injectedErrors.forEach((injected, index) => {
+      if (this.state.firedErrors.has(index)) return;
+      if (next < 0 || injected.atMs < this.injectedErrors[next].atMs) next = index;
+    });
+    return next;
+  }
+
+  private deliver(frame: ReplayFrame): void {
+    switch (frame.type) {
+      case 'tokens':
+        this.onEvent?.({ type: 'tokens', result: frame.result });
+        this.scheduleNext();
+        break;
+      case 'error':
+        this.fail(frame.error);
+        break;
+      case 'finished':
+        this.end();
+        this.rewind();
+        this.emitOnce({ type: 'finished' });
+        break;
+    }
+  }
+
+  private fail(error: ProviderError): void {
+    console.log(`🧪 Mock replay error at ${(this.state.positionMs / 1000).toFixed(1)}s: ${error.message}`);
+    this.end();
+    this.emitOnce({ type: 'error', error });
+  }
+
+  private emitOnce(event: Parameters<ProviderEventListener>[0]): void {
+    const onEvent = this.onEvent;
+    this.onEvent = null;
+    onEvent?.(event);
+  }
+
+  /**
+   * Session over; the next session continues from the current position
+   */
+  private end(): void {
+    this.clearTimer();
+    if (this.state.active === this) this.state.active = null;
+  }
+
+  /**
+   * Back to the start of the script (after stop, cancel or finished)
+   */
+  private rewind(): void {
+    // Leave the position alone if a newer session is replaying
+    if (!this.isReplaying || (this.state.active && this.state.active !== this)) return;
+    this.state.active = null;
+    this.state.cursor = 0;
+    this.state.positionMs = 0;
+    this.state.firedErrors.clear();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/**
+ * Create a provider factory that replays the script
+ */
+export function createMockProviderFactory(
+  script: ReplayScript,
+  options: MockProviderOptions = {}
+): TranslationProviderFactory {
+  const speed = Math.min(MOCK_SPEED_RANGE.max, Math.max(MOCK_SPEED_RANGE.min, options.speed || 1));
+  const injectedErrors = options.injectedErrors || [];
+  const state: ReplayState = { cursor: 0, positionMs: 0, firedErrors: new Set(), active: null };
+
+  return () => new MockProvider(script, injectedErrors, speed, state);
+}
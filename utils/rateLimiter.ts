@@ -0,0 +1,147 @@
+/**
+ * Rate Limiter (server only)
+ *
+ * In-memory limits for API routes, per server process:
+ * - Sliding window per client (user id when authenticated, otherwise IP)
+ * - Daily cap per client and for all clients together (protects the
+ *   upstream quota); days reset at midnight UTC
+ *
+ * A limit of 0 disables that check.
+ */
+
+export interface RateLimitConfig {
+  windowMs: number;
+  maxRequests: number;        // Per client per window
+  dailyCapPerClient: number;
+  dailyCapTotal: number;
+  trustedProxyHops: number;   // Reverse proxies in front of the app that append to X-Forwarded-For
+}
+
+export const DEFAULT_RATE_LIMIT_CONFIG: RateLimitConfig = {
+  windowMs: 60 * 1000,
+  maxRequests: 10,
+  dailyCapPerClient: 0,
+  dailyCapTotal: 0,
+  trustedProxyHops: 0,
+};
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; reason: 'rate_limited' | 'daily_cap'; retryAfterSeconds: number };
+
+// Tracked clients before stale entries are pruned
+const MAX_TRACKED_CLIENTS = 10000;
+
+/**
+ * Read limits from the environment (falls back to the defaults)
+ */
+export function getRateLimitConfig(env: Record<string, string | undefined> = process.env): RateLimitConfig {
+  const read = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? Math.floor(parsed) : fallback;
+  };
+  return {
+    windowMs: DEFAULT_RATE_LIMIT_CONFIG.windowMs,
+    maxRequests: read(env.TEMP_KEY_RATE_LIMIT_PER_MINUTE, DEFAULT_RATE_LIMIT_CONFIG.maxRequests),
+    dailyCapPerClient: read(env.TEMP_KEY_DAILY_CAP_PER_CLIENT, DEFAULT_RATE_LIMIT_CONFIG.dailyCapPerClient),
+    dailyCapTotal: read(env.TEMP_KEY_DAILY_CAP, DEFAULT_RATE_LIMIT_CONFIG.dailyCapTotal),
+    trustedProxyHops: read(env.TRUSTED_PROXY_HOPS, DEFAULT_RATE_LIMIT_CONFIG.trustedProxyHops),
+  };
+}
+
+/**
+ * Client address for rate limiting
+ *
+ * X-Forwarded-For is set by the client, so only the entries appended by our
+ * own proxies can be trusted: with N trusted hops, the client is the N-th
+ * entry from the right. Without trusted proxies the header is ignored and
+ * the connection address is used when the runtime provides one (`next start`
+ * does not), otherwise null.
+ */
+export function getClientIP(request: Request, trustedProxyHops: number = 0): string | null {
+  if (trustedProxyHops > 0) {
+    const entries = (request.headers.get('x-forwarded-for') || '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean);
+    if (entries.length > 0) {
+      return entries[Math.max(0, entries.length - trustedProxyHops)];
+    }
+  }
+  return (request as Request & { ip?: string }).ip || null;
+}
+
+/**
+ * Rate Limiter
+ */
+export class RateLimiter {
+  private requests = new Map<string, number[]>();
+  private dailyCounts = new Map<string, number>();
+  private dailyTotal = 0;
+  private day = '';
+
+  constructor(private readonly config: RateLimitConfig = DEFAULT_RATE_LIMIT_CONFIG) {}
+
+  /**
+   * Check the limits for a client and record the request if allowed
+   */
+  check(clientId: string, now: number = Date.now()): RateLimitResult {
+    this.rollDay(now);
+    const { windowMs, maxRequests, dailyCapPerClient, dailyCapTotal } = this.config;
+
+    const dailyCount = this.dailyCounts.get(clientId) || 0;
+    if ((dailyCapTotal > 0 && this.dailyTotal >= dailyCapTotal) ||
+        (dailyCapPerClient > 0 && dailyCount >= dailyCapPerClient)) {
+      return { allowed: false, reason: 'daily_cap', retryAfterSeconds: this.secondsUntilNextDay(now) };
+    }
+
+    const recent = (this.requests.get(clientId) || []).filter(time => now - time < windowMs);
+    if (maxRequests > 0 && recent.length >= maxRequests) {
+      this.requests.set(clientId, recent);
+      return {
+        allowed: false,
+        reason: 'rate_limited',
+        retryAfterSeconds: Math.max(1, Math.ceil((recent[0] + windowMs - now) / 1000)),
+      };
+    }
+
+    recent.push(now);
+    this.requests.set(clientId, recent);
+    this.dailyCounts.set(clientId, dailyCount + 1);
+    this.dailyTotal++;
+
+    if (this.requests.size > MAX_TRACKED_CLIENTS) {
+      this.prune(now);
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Reset daily counters at midnight UTC
+   */
+  private rollDay(now: number): void {
+    const day = new Date(now).toISOString().slice(0, 10);
+    if (day !== this.day) {
+      this.day = day;
+      this.dailyCounts.clear();
+      this.dailyTotal = 0;
+    }
+  }
+
+  private secondsUntilNextDay(now: number): number {
+    const next = new Date(now);
+    next.setUTCHours(24, 0, 0, 0);
+    return Math.max(1, Math.ceil((next.getTime() - now) / 1000));
+  }
+
+  /**
+   * Drop clients without requests in the current window
+   */
+  private prune(now: number): void {
+    this.requests.forEach((times, clientId) => {
+      if (times.every(time => now - time >= this.config.windowMs)) {
+        this.requests.delete(clientId);
+      }
+    });
+  }
+}
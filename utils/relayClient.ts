@@ -0,0 +1,334 @@
+/**
+ * Relay Client (browser)
+ *
+ * Stands in for the Soniox SDK client when audio goes through our server
+ * instead of a browser WebSocket to Soniox (see utils/sonioxRelay.ts):
+ * - Records the stream with MediaRecorder (same chunk interval as the SDK)
+ * - Posts audio in order, batching chunks that queue up behind a slow request
+ * - Reads results from the session's Server-Sent Events
+ *
+ * Provides the SDK methods, states and callbacks useTranslator relies on
+ * (start, stop, cancel, finalize), plus keepalive.
+ */
+
+import { RelayControlMessage, RelayEvent, RelaySessionConfig } from '@/types/soniox';
+import { getApiKeyErrorMessage } from '@/utils/errorHandler';
+import { getAuthHeaders } from '@/utils/authToken';
+
+export const RELAY_ENDPOINT = '/api/relay';
+
+// MediaRecorder timeslice (matches the Soniox SDK)
+const RECORDER_TIMESLICE_MS = 120;
+
+// Messages queued before the session exists (same limit as the SDK)
+const MAX_QUEUED_MESSAGES = 1000;
+
+// Same values as the SDK's RecorderState and ErrorStatus
+export type RelayClientState =
+  | 'Init'
+  | 'RequestingMedia'
+  | 'OpeningWebSocket'
+  | 'Running'
+  | 'FinishingProcessing'
+  | 'Finished'
+  | 'Error'
+  | 'Canceled';
+
+export type RelayErrorStatus =
+  | 'api_key_fetch_failed'
+  | 'queue_limit_exceeded'
+  | 'media_recorder_error'
+  | 'api_error'
+  | 'websocket_error';
+
+export interface RelayStartOptions extends RelaySessionConfig {
+  stream: MediaStream;
+  mediaRecorderOptions?: MediaRecorderOptions;
+  onStarted?: () => void;
+  onPartialResult?: (result: any) => void;
+  onFinished?: () => void;
+  onError?: (status: RelayErrorStatus, message: string, errorCode?: number) => void;
+  onStateChange?: (update: { oldState: RelayClientState; newState: RelayClientState }) => void;
+}
+
+const ACTIVE_STATES: RelayClientState[] = ['RequestingMedia', 'OpeningWebSocket', 'Running', 'FinishingProcessing'];
+
+/**
+ * Relay Client
+ */
+export class RelayClient {
+  private _state: RelayClientState = 'Init';
+  private options: RelayStartOptions | null = null;
+  private sessionId: string | null = null;
+  private events: EventSource | null = null;
+  private recorder: MediaRecorder | null = null;
+  private queue: (Blob | RelayControlMessage)[] = [];
+  private isSending = false;
+  private isStopQueued = false;
+
+  constructor(private readonly endpoint: string = RELAY_ENDPOINT) {}
+
+  get state(): RelayClientState {
+    return this._state;
+  }
+
+  /**
+   * Start a relay session and stream the audio
+   */
+  start = async (options: RelayStartOptions): Promise<void> => {
+    if (ACTIVE_STATES.includes(this._state)) {
+      throw new Error('RelayClient is already active');
+    }
+
+    this.options = options;
+    this.queue = [];
+    this.isStopQueued = false;
+
+    // Record first so no audio is lost while the session opens
+    const recorder = new MediaRecorder(options.stream.clone(), options.mediaRecorderOptions || {});
+    recorder.ondataavailable = (event: BlobEvent) => {
+      if (event.data.size > 0) this.enqueue(event.data);
+    };
+    recorder.onerror = () => this.fail('media_recorder_error', 'Audio recording failed.');
+    recorder.onstop = () => this.queueStop(); // Also fires when the input ends
+    this.recorder = recorder;
+    recorder.start(RECORDER_TIMESLICE_MS);
+    this.setState('OpeningWebSocket');
+
+    let response: Response;
+    try {
+      response = await fetch(this.endpoint, {
+        method: 'POST',
+        credentials: 'same-origin',
+        headers: {
+          'Content-Type': 'application/json',
+          ...getAuthHeaders(),
+        },
+        body: JSON.stringify(this.getSessionConfig(options)),
+      });
+    } catch {
+      this.fail('websocket_error', 'Relay server is unreachable.');
+      return;
+    }
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      // Same handling as a failed key request (sign-in, limits: no retry)
+      this.fail('api_key_fetch_failed', getApiKeyErrorMessage(response.status, body, response.headers.get('Retry-After')));
+      return;
+    }
+
+    const { sessionId } = await response.json();
+    if (this._state !== 'OpeningWebSocket' && this._state !== 'FinishingProcessing') {
+      // Stopped or cancelled while the session was being created
+      this.deleteSession(sessionId);
+      return;
+    }
+    this.sessionId = sessionId;
+
+    const events = new EventSource(`${this.endpoint}/${sessionId}`);
+    events.onmessage = (event: MessageEvent) => {
+      try {
+        this.handleEvent(JSON.parse(event.data));
+      } catch (err) {
+        console.error('❌ Invalid relay event:', err);
+      }
+    };
+    events.onerror = () => {
+      // EventSource reconnects by itself unless the session is gone
+      if (events.readyState === EventSource.CLOSED) {
+        this.fail('websocket_error', 'Lost connection to the relay server.');
+      }
+    };
+    this.events = events;
+
+    this.flush();
+  };
+
+  /**
+   * Stop gracefully: send the remaining audio and wait for the final results
+   */
+  stop = (): void => {
+    if (this._state === 'RequestingMedia' || (this._state === 'OpeningWebSocket' && !this.sessionId)) {
+      this.closeResources();
+      this.handleFinished();
+    } else if (this._state === 'Running' || this._state === 'OpeningWebSocket') {
+      this.setState('FinishingProcessing');
+      if (this.recorder && this.recorder.state !== 'inactive') {
+        this.recorder.stop(); // Final chunk, then onstop queues the stop message
+      } else {
+        this.queueStop();
+      }
+    }
+  };
+
+  /**
+   * Stop immediately and discard pending results
+   */
+  cancel = (): void => {
+    if (!ACTIVE_STATES.includes(this._state)) return;
+    this.closeResources();
+    this.setState('Canceled');
+  };
+
+  /**
+   * Finalize all non-final tokens
+   */
+  finalize = (): void => {
+    if (ACTIVE_STATES.includes(this._state)) {
+      this.enqueue({ type: 'finalize' });
+    }
+  };
+
+  /**
+   * Keep the upstream session open while no audio is sent
+   */
+  keepalive = (): void => {
+    if (this._state === 'Running') {
+      this.enqueue({ type: 'keepalive' });
+    }
+  };
+
+  private getSessionConfig(options: RelayStartOptions): RelaySessionConfig {
+    return {
+      model: options.model,
+      audioFormat: options.audioFormat,
+      sampleRate: options.sampleRate,
+      numChannels: options.numChannels,
+      languageHints: options.languageHints,
+      context: options.context,
+      enableSpeakerDiarization: options.enableSpeakerDiarization,
+      enableLanguageIdentification: options.enableLanguageIdentification,
+      enableEndpointDetection: options.enableEndpointDetection,
+      translation: options.translation,
+      clientReferenceId: options.clientReferenceId,
+    };
+  }
+
+  private handleEvent(event: RelayEvent): void {
+    switch (event.type) {
+      case 'started':
+        if (this._state === 'OpeningWebSocket') {
+          this.setState('Running');
+          this.options?.onStarted?.();
+        }
+        break;
+      case 'result':
+        if (this._state === 'Running' || this._state === 'FinishingProcessing') {
+          this.options?.onPartialResult?.(event.result);
+        }
+        break;
+      case 'error':
+        this.fail(event.status, event.message, event.code);
+        break;
+      case 'finished':
+        this.sessionId = null; // Ended upstream, nothing to cancel
+        this.closeResources();
+        this.handleFinished();
+        break;
+    }
+  }
+
+  private queueStop(): void {
+    if (this.isStopQueued || !ACTIVE_STATES.includes(this._state)) return;
+    this.isStopQueued = true;
+    if (this._state === 'Running' || this._state === 'OpeningWebSocket') {
+      this.setState('FinishingProcessing');
+    }
+    this.enqueue({ type: 'stop' });
+  }
+
+  private enqueue(message: Blob | RelayControlMessage): void {
+    if (!this.sessionId && this.queue.length >= MAX_QUEUED_MESSAGES) {
+      this.fail('queue_limit_exceeded', 'Queue size exceeded before the relay session was established.');
+      return;
+    }
+    this.queue.push(message);
+    this.flush();
+  }
+
+  /**
+   * Send queued messages in order, one request at a time
+   */
+  private async flush(): Promise<void> {
+    if (this.isSending || !this.sessionId) return;
+    this.isSending = true;
+
+    while (this.queue.length > 0 && this.sessionId) {
+      const url = `${this.endpoint}/${this.sessionId}`;
+      let init: RequestInit;
+
+      if (this.queue[0] instanceof Blob) {
+        // Chunks of one recording concatenate into a valid continuation
+        const chunks: Blob[] = [];
+        while (this.queue.length > 0 && this.queue[0] instanceof Blob) {
+          chunks.push(this.queue.shift() as Blob);
+        }
+        init = { method: 'POST', headers: { 'Content-Type': 'application/octet-stream' }, body: new Blob(chunks) };
+      } else {
+        init = { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(this.queue.shift()) };
+      }
+
+      try {
+        const response = await fetch(url, init);
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          this.fail('websocket_error', body?.error || `Relay request failed (${response.status}).`);
+        }
+      } catch {
+        this.fail('websocket_error', 'Lost connection to the relay server.');
+      }
+    }
+
+    this.isSending = false;
+  }
+
+  private fail(status: RelayErrorStatus, message: string, errorCode?: number): void {
+    if (!ACTIVE_STATES.includes(this._state)) return;
+    this.closeResources();
+    this.setState('Error');
+    this.options?.onError?.(status, message, errorCode);
+  }
+
+  private handleFinished(): void {
+    this.setState('Finished');
+    this.options?.onFinished?.();
+  }
+
+  private deleteSession(sessionId: string): void {
+    fetch(`${this.endpoint}/${sessionId}`, { method: 'DELETE', keepalive: true }).catch(() => {});
+  }
+
+  private closeResources(): void {
+    this.queue = [];
+
+    if (this.events) {
+      this.events.onmessage = null;
+      this.events.onerror = null;
+      this.events.close();
+      this.events = null;
+    }
+
+    if (this.recorder) {
+      const recorder = this.recorder;
+      this.recorder = null;
+      recorder.ondataavailable = null;
+      recorder.onerror = null;
+      recorder.onstop = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+      recorder.stream.getTracks().forEach(track => track.stop());
+    }
+
+    // Cancel the server session if it is still running
+    if (this.sessionId) {
+      this.deleteSession(this.sessionId);
+      this.sessionId = null;
+    }
+  }
+
+  private setState(newState: RelayClientState): void {
+    const oldState = this._state;
+    this._state = newState;
+    this.options?.onStateChange?.({ oldState, newState });
+  }
+}
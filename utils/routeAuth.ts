@@ -0,0 +1,263 @@
+/**
+ * API Route Authentication (server only)
+ *
+ * Pluggable authentication for API routes, selected with TEMP_KEY_AUTH_MODE:
+ * - none:           No authentication (local development)
+ * - shared-secret:  X-TransLang-Secret header (or Bearer token) must match
+ *                   TEMP_KEY_SHARED_SECRET, e.g., injected by a reverse proxy
+ * - session-cookie: HMAC-signed session cookie issued by your login service
+ *                   (see signSessionToken), verified with SESSION_COOKIE_SECRET
+ * - oidc:           Bearer ID/access token (JWT, RS256/ES256) verified against
+ *                   the JWKS of OIDC_ISSUER (and OIDC_AUDIENCE when set)
+ *
+ * Authenticated requests carry a user id (token subject) that rate limiting
+ * uses instead of the client IP.
+ */
+
+import { createHmac, createHash, createPublicKey, timingSafeEqual, verify, JsonWebKey } from 'crypto';
+
+export type AuthMode = 'none' | 'shared-secret' | 'session-cookie' | 'oidc';
+
+export const AUTH_MODES: AuthMode[] = ['none', 'shared-secret', 'session-cookie', 'oidc'];
+
+export const SHARED_SECRET_HEADER = 'x-translang-secret';
+export const DEFAULT_SESSION_COOKIE_NAME = 'translang_session';
+
+// Allowed clock difference when checking token expiry
+const CLOCK_SKEW_SECONDS = 60;
+
+// How long fetched signing keys are reused
+const JWKS_CACHE_MS = 10 * 60 * 1000;
+
+export type AuthResult =
+  | { ok: true; userId?: string }
+  | { ok: false; status: 401 | 500; error: string };
+
+export interface Authenticator {
+  mode: AuthMode;
+  authenticate(request: Request): Promise<AuthResult>;
+}
+
+export interface SessionTokenPayload {
+  sub: string;  // User id
+  exp: number;  // Expiry (seconds since epoch)
+  [claim: string]: unknown;
+}
+
+const unauthorized = (error: string): AuthResult => ({ ok: false, status: 401, error });
+const misconfigured = (error: string): AuthResult => ({ ok: false, status: 500, error });
+
+/**
+ * Compare secrets in constant time (hashing first equalizes lengths)
+ */
+function secretsMatch(a: string, b: string): boolean {
+  const hashA = createHash('sha256').update(a).digest();
+  const hashB = createHash('sha256').update(b).digest();
+  return timingSafeEqual(hashA, hashB);
+}
+
+/**
+ * Bearer token from the Authorization header
+ */
+function getBearerToken(request: Request): string | null {
+  const header = request.headers.get('authorization');
+  const match = header ? /^Bearer\s+(.+)$/i.exec(header.trim()) : null;
+  return match ? match[1] : null;
+}
+
+/**
+ * Read a cookie value from the request
+ */
+function getCookie(request: Request, name: string): string | null {
+  const header = request.headers.get('cookie');
+  if (!header) return null;
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=');
+    if (index > 0 && part.slice(0, index).trim() === name) {
+      return decodeURIComponent(part.slice(index + 1).trim());
+    }
+  }
+  return null;
+}
+
+function decodeJSONSegment(segment: string): any {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sign a session token for the session-cookie mode
+ * Format: base64url(JSON payload) + "." + base64url(HMAC-SHA256)
+ */
+export function signSessionToken(payload: SessionTokenPayload, secret: string): string {
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const signature = createHmac('sha256', secret).update(body).digest('base64url');
+  return `${body}.${signature}`;
+}
+
+/**
+ * Verify a session token; returns the payload or null
+ */
+export function verifySessionToken(token: string, secret: string, now: number = Date.now()): SessionTokenPayload | null {
+  const [body, signature, extra] = token.split('.');
+  if (!body || !signature || extra !== undefined) return null;
+
+  const expected = createHmac('sha256', secret).update(body).digest('base64url');
+  if (!secretsMatch(signature, expected)) return null;
+
+  const payload = decodeJSONSegment(body);
+  if (!payload || typeof payload.sub !== 'string' || typeof payload.exp !== 'number') return null;
+  if (payload.exp * 1000 < now) return null;
+  return payload;
+}
+
+/**
+ * Shared secret authenticator
+ */
+function createSharedSecretAuthenticator(secret: string | undefined): Authenticator {
+  return {
+    mode: 'shared-secret',
+    async authenticate(request) {
+      if (!secret) return misconfigured('TEMP_KEY_SHARED_SECRET is not configured');
+      const provided = request.headers.get(SHARED_SECRET_HEADER) || getBearerToken(request);
+      if (!provided || !secretsMatch(provided, secret)) {
+        return unauthorized('A valid access secret is required');
+      }
+      return { ok: true };
+    },
+  };
+}
+
+/**
+ * Signed session cookie authenticator
+ */
+function createSessionCookieAuthenticator(secret: string | undefined, cookieName: string): Authenticator {
+  return {
+    mode: 'session-cookie',
+    async authenticate(request) {
+      if (!secret) return misconfigured('SESSION_COOKIE_SECRET is not configured');
+      const token = getCookie(request, cookieName);
+      const payload = token ? verifySessionToken(token, secret) : null;
+      if (!payload) {
+        return unauthorized('Your session is missing or has expired');
+      }
+      return { ok: true, userId: payload.sub };
+    },
+  };
+}
+
+/**
+ * OIDC bearer token authenticator (JWT verified against the issuer's JWKS)
+ */
+function createOIDCAuthenticator(issuer: string | undefined, audience: string | undefined, jwksUri: string | undefined): Authenticator {
+  let keys: JsonWebKey[] = [];
+  let keysFetchedAt = 0;
+  let keysRequest: Promise<JsonWebKey[]> | null = null;
+
+  const loadKeys = async (force: boolean): Promise<JsonWebKey[]> => {
+    const isFresh = Date.now() - keysFetchedAt < (force ? 60 * 1000 : JWKS_CACHE_MS);
+    if (keys.length > 0 && isFresh) return keys;
+
+    if (!keysRequest) {
+      keysRequest = (async () => {
+        let uri = jwksUri;
+        if (!uri) {
+          const discovery = await fetch(`${issuer!.replace(/\/+$/, '')}/.well-known/openid-configuration`, { cache: 'no-store' });
+          if (!discovery.ok) throw new Error(`OIDC discovery failed (${discovery.status})`);
+          uri = (await discovery.json()).jwks_uri;
+        }
+        const response = await fetch(uri!, { cache: 'no-store' });
+        if (!response.ok) throw new Error(`JWKS request failed (${response.status})`);
+        const jwks = await response.json();
+        keys = Array.isArray(jwks.keys) ? jwks.keys : [];
+        keysFetchedAt = Date.now();
+        return keys;
+      })().finally(() => {
+        keysRequest = null;
+      });
+    }
+    return keysRequest;
+  };
+
+  return {
+    mode: 'oidc',
+    async authenticate(request) {
+      if (!issuer) return misconfigured('OIDC_ISSUER is not configured');
+
+      const token = getBearerToken(request);
+      if (!token) return unauthorized('Please sign in to continue');
+
+      const [headerSegment, payloadSegment, signatureSegment] = token.split('.');
+      const header = headerSegment ? decodeJSONSegment(headerSegment) : null;
+      const payload = payloadSegment ? decodeJSONSegment(payloadSegment) : null;
+      if (!header || !payload || !signatureSegment) return unauthorized('Invalid sign-in token');
+
+      const algorithm = header.alg === 'RS256' ? 'RSA-SHA256' : header.alg === 'ES256' ? 'SHA256' : null;
+      if (!algorithm) return unauthorized('Unsupported sign-in token');
+
+      let jwk: JsonWebKey | undefined;
+      try {
+        const findKey = (list: JsonWebKey[]) => list.find(key => !header.kid || key.kid === header.kid);
+        jwk = findKey(await loadKeys(false)) || findKey(await loadKeys(true)); // Keys may have rotated
+      } catch (err) {
+        console.error('❌ Failed to load OIDC signing keys:', err);
+        return misconfigured('Could not verify sign-in (identity provider unavailable)');
+      }
+      if (!jwk) return unauthorized('Invalid sign-in token');
+
+      let isValidSignature = false;
+      try {
+        isValidSignature = verify(
+          algorithm,
+          Buffer.from(`${headerSegment}.${payloadSegment}`),
+          { key: createPublicKey({ key: jwk, format: 'jwk' }), dsaEncoding: 'ieee-p1363' },
+          Buffer.from(signatureSegment, 'base64url')
+        );
+      } catch {
+        // Key type does not match the token algorithm
+      }
+      if (!isValidSignature) return unauthorized('Invalid sign-in token');
+
+      const now = Date.now() / 1000;
+      if (payload.iss !== issuer) return unauthorized('Sign-in token is from another issuer');
+      if (audience) {
+        const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+        if (!audiences.includes(audience)) return unauthorized('Sign-in token is not meant for this app');
+      }
+      if (typeof payload.exp !== 'number' || payload.exp + CLOCK_SKEW_SECONDS < now) {
+        return unauthorized('Your sign-in has expired');
+      }
+      if (typeof payload.nbf === 'number' && payload.nbf - CLOCK_SKEW_SECONDS > now) {
+        return unauthorized('Sign-in token is not valid yet');
+      }
+
+      return { ok: true, userId: typeof payload.sub === 'string' ? payload.sub : undefined };
+    },
+  };
+}
+
+/**
+ * Create the authenticator configured in the environment
+ */
+export function createAuthenticator(env: Record<string, string | undefined> = process.env): Authenticator {
+  const mode = (env.TEMP_KEY_AUTH_MODE || 'none') as AuthMode;
+
+  switch (mode) {
+    case 'shared-secret':
+      return createSharedSecretAuthenticator(env.TEMP_KEY_SHARED_SECRET);
+    case 'session-cookie':
+      return createSessionCookieAuthenticator(env.SESSION_COOKIE_SECRET, env.SESSION_COOKIE_NAME || DEFAULT_SESSION_COOKIE_NAME);
+    case 'oidc':
+      return createOIDCAuthenticator(env.OIDC_ISSUER, env.OIDC_AUDIENCE, env.OIDC_JWKS_URI);
+    case 'none':
+      return { mode: 'none', authenticate: async () => ({ ok: true }) };
+    default:
+      return {
+        mode,
+        authenticate: async () => misconfigured(`Unknown TEMP_KEY_AUTH_MODE "${mode}" (use ${AUTH_MODES.join(', ')})`),
+      };
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Segment Alignment
+ *
+ * Source and translation lines are committed independently (different
+ * sentence boundaries, different timing), so pairing them by array index
+ * drifts apart. Instead, each translation line records the source lines it
+ * overlaps in audio time (TranscriptLine.sourceLineIds) as tokens arrive.
+ *
+ * alignSegments() turns those links into rows of related source and
+ * translation lines for aligned exports (tables, TMX).
+ */
+
+import { TranscriptLine } from '@/hooks/useTranslator';
+
+// Only recent lines can overlap a new segment
+const LINK_LOOKBACK = 50;
+
+/**
+ * One aligned row: source lines and the translations of that speech
+ */
+export interface AlignedSegment {
+  source: TranscriptLine[];
+  translations: TranscriptLine[];
+  speaker?: string;
+  speakerName?: string;
+}
+
+/**
+ * Check whether two timed lines overlap in audio time
+ */
+export function linesOverlap(a: Pick<TranscriptLine, 'startMs' | 'endMs'>, b: Pick<TranscriptLine, 'startMs' | 'endMs'>): boolean {
+  if (a.startMs === undefined || a.endMs === undefined || b.startMs === undefined || b.endMs === undefined) {
+    return false;
+  }
+  return Math.min(a.endMs, b.endMs) - Math.max(a.startMs, b.startMs) > 0;
+}
+
+/**
+ * Find recent source lines overlapping a translation segment
+ */
+export function findOverlappingSourceIds(
+  segment: Pick<TranscriptLine, 'startMs' | 'endMs'>,
+  source: TranscriptLine[]
+): string[] {
+  return source
+    .slice(-LINK_LOOKBACK)
+    .filter(line => !line.isGap && linesOverlap(segment, line))
+    .map(line => line.id);
+}
+
+/**
+ * Link a newly committed source line to overlapping translations
+ * (translations can be committed before the source line they translate)
+ */
+export function linkSourceLine(translations: TranscriptLine[], sourceLine: TranscriptLine): TranscriptLine[] {
+  const firstRecent = Math.max(0, translations.length - LINK_LOOKBACK);
+  let changed = false;
+
+  const linked = translations.map((line, index) => {
+    if (index < firstRecent || line.sourceLineIds?.includes(sourceLine.id) || !linesOverlap(line, sourceLine)) {
+      return line;
+    }
+    changed = true;
+    return { ...line, sourceLineIds: [...(line.sourceLineIds || []), sourceLine.id] };
+  });
+
+  return changed ? linked : translations;
+}
+
+/**
+ * Group source and translation lines into aligned rows
+ *
+ * Lines connected through sourceLineIds share a row. Lines recorded
+ * without links (e.g., older sessions) are matched by audio-time overlap
+ * when they have timing, otherwise they get a row of their own.
+ * Rows are ordered by the earliest commit time of their lines.
+ */
+export function alignSegments(translations: TranscriptLine[], source: TranscriptLine[] = []): AlignedSegment[] {
+  const contentSource = source.filter(line => !line.isGap);
+  const contentTranslations = translations.filter(line => !line.isGap);
+
+  // Union-find over line IDs
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) {
+      root = parent.get(root)!;
+    }
+    parent.set(id, root);
+    return root;
+  };
+  const union = (a: string, b: string) => {
+    parent.set(find(a), find(b));
+  };
+
+  contentSource.forEach(line => parent.set(line.id, line.id));
+  contentTranslations.forEach(line => parent.set(line.id, line.id));
+
+  contentTranslations.forEach(line => {
+    const sourceIds = line.sourceLineIds ?? contentSource.filter(s => linesOverlap(line, s)).map(s => s.id);
+    sourceIds.forEach(sourceId => {
+      if (parent.has(sourceId)) {
+        union(line.id, sourceId);
+      }
+    });
+  });
+
+  const rows = new Map<string, AlignedSegment & { firstTimestamp: number }>();
+  const getRow = (line: TranscriptLine) => {
+    const root = find(line.id);
+    let row = rows.get(root);
+    if (!row) {
+      row = { source: [], translations: [], firstTimestamp: line.timestamp };
+      rows.set(root, row);
+    }
+    row.firstTimestamp = Math.min(row.firstTimestamp, line.timestamp);
+    if (!row.speaker && line.speaker) {
+      row.speaker = line.speaker;
+      row.speakerName = line.speakerName;
+    }
+    return row;
+  };
+
+  contentSource.forEach(line => getRow(line).source.push(line));
+  contentTranslations.forEach(line => getRow(line).translations.push(line));
+
+  return Array.from(rows.values())
+    .sort((a, b) => a.firstTimestamp - b.firstTimestamp)
+    .map(({ source: rowSource, translations: rowTranslations, speaker, speakerName }) => ({
+      source: rowSource,
+      translations: rowTranslations,
+      speaker,
+      speakerName,
+    }));
+}
+
+/**
+ * Join the text of aligned lines
+ */
+export function joinSegmentText(lines: TranscriptLine[]): string {
+  return lines.map(line => line.text).join(' ');
+}
@@ -0,0 +1,193 @@
+/**
+ * Session History
+ *
+ * Persists translation sessions to IndexedDB so transcripts survive
+ * page refreshes and clearing, and can be reopened later.
+ */
+
+import { TranscriptLine, TranslationMode } from '@/hooks/useTranslator';
+import { getLanguageTag } from '@/utils/languages';
+import { SpeakerRegistry } from '@/utils/speakerRegistry';
+
+const DB_NAME = 'translang';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+
+/**
+ * Latency summary stored with a session
+ */
+export interface SessionLatencySummary {
+  averageLatency: number;
+  minLatency: number | null;
+  maxLatency: number;
+  sampleCount: number;
+}
+
+/**
+ * Persisted session
+ */
+export interface SessionRecord {
+  id: string;
+  name: string;
+  startedAt: number;
+  endedAt: number | null; // null while the session is running
+  sourceLanguage: string;
+  targetLanguage: string;
+  targetLanguages: string[];
+  translationMode: TranslationMode;
+  committedTranslation: TranscriptLine[];
+  committedSource: TranscriptLine[];
+  speakers: string[];
+  speakerRegistry?: SpeakerRegistry; // Names, colors and merges (sessions saved before speaker renaming have none)
+  latency: SessionLatencySummary | null;
+}
+
+/**
+ * Lightweight session info for the history list
+ */
+export interface SessionSummary {
+  id: string;
+  name: string;
+  startedAt: number;
+  endedAt: number | null;
+  sourceLanguage: string;
+  targetLanguages: string[];
+  lineCount: number;
+}
+
+/**
+ * Generate a unique session ID
+ */
+export function generateSessionId(): string {
+  return `session-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/**
+ * Default session name (e.g., "DE → EN · 19 Oct 2026, 14:03")
+ */
+export function defaultSessionName(startedAt: number, sourceLanguage: string, targetLanguages: string[]): string {
+  const date = new Date(startedAt).toLocaleString(undefined, {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  return `${getLanguageTag(sourceLanguage)} → ${targetLanguages.map(getLanguageTag).join(', ')} · ${date}`;
+}
+
+/**
+ * Collect distinct speaker labels from transcript lines
+ */
+export function collectSpeakers(lines: TranscriptLine[]): string[] {
+  const speakers = new Set<string>();
+  lines.forEach(line => {
+    if (line.speaker) {
+      speakers.add(line.speaker);
+    }
+  });
+  return Array.from(speakers);
+}
+
+/**
+ * Check whether IndexedDB is available (browser only)
+ */
+export function isHistoryAvailable(): boolean {
+  return typeof window !== 'undefined' && 'indexedDB' in window;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and create/upgrade) the database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+          store.createIndex('startedAt', 'startedAt');
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Run a request against the session store
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SESSION_STORE, mode);
+    const request = action(transaction.objectStore(SESSION_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Save (insert or replace) a session
+ */
+export async function saveSession(record: SessionRecord): Promise<void> {
+  await withStore('readwrite', store => store.put(record));
+}
+
+/**
+ * Load a session by ID
+ */
+export async function getSession(id: string): Promise<SessionRecord | null> {
+  const record = await withStore<SessionRecord | undefined>('readonly', store => store.get(id));
+  return record || null;
+}
+
+/**
+ * List sessions, newest first
+ */
+export async function listSessions(): Promise<SessionSummary[]> {
+  const records = await withStore<SessionRecord[]>('readonly', store => store.getAll());
+  return records
+    .sort((a, b) => b.startedAt - a.startedAt)
+    .map(record => ({
+      id: record.id,
+      name: record.name,
+      startedAt: record.startedAt,
+      endedAt: record.endedAt,
+      sourceLanguage: record.sourceLanguage,
+      targetLanguages: record.targetLanguages,
+      lineCount: record.committedTranslation.length,
+    }));
+}
+
+/**
+ * Rename a session
+ */
+export async function renameSession(id: string, name: string): Promise<void> {
+  const record = await getSession(id);
+  if (!record) {
+    throw new Error('Session not found');
+  }
+  await saveSession({ ...record, name });
+}
+
+/**
+ * Delete a session
+ */
+export async function deleteSession(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
@@ -0,0 +1,126 @@
+/**
+ * Soniox Translation Provider
+ *
+ * TranslationProvider backed by Soniox real-time translation, over either
+ * transport:
+ * - direct: the Soniox SDK opens a WebSocket from the browser (temporary key)
+ * - relay:  RelayClient streams through our server (utils/sonioxRelay.ts)
+ *
+ * Maps the SDK's callbacks and error statuses to provider events.
+ */
+
+import { Token } from '@/utils/tokenParser';
+import { RelayClient } from '@/utils/relayClient';
+import {
+  ProviderContext,
+  ProviderErrorKind,
+  ProviderEventListener,
+  ProviderStartOptions,
+  TranslationProvider,
+} from '@/utils/translationProvider';
+
+export const SONIOX_MODEL = 'stt-rt-preview-v2';
+
+const KEEPALIVE_MESSAGE = '{"type":"keepalive"}';
+
+// SDK (and relay) error statuses
+const ERROR_KINDS: Record<string, ProviderErrorKind> = {
+  get_user_media_failed: 'media',
+  api_key_fetch_failed: 'access_denied',
+  queue_limit_exceeded: 'queue_limit',
+  media_recorder_error: 'media',
+  api_error: 'api',
+  websocket_error: 'connection',
+};
+
+/**
+ * Copy the token fields the app uses
+ */
+function normalizeToken(token: any): Token {
+  return {
+    text: token.text,
+    is_final: !!token.is_final,
+    translation_status: token.translation_status,
+    language: token.language,
+    source_language: token.source_language,
+    start_ms: token.start_ms,
+    end_ms: token.end_ms,
+    confidence: token.confidence,
+    speaker: token.speaker,
+  };
+}
+
+/**
+ * Soniox Provider
+ */
+export class SonioxProvider implements TranslationProvider {
+  readonly name = 'soniox';
+  private client: any = null;  // SonioxClient or RelayClient (same methods and callbacks)
+
+  constructor(private readonly context: ProviderContext) {}
+
+  async start(options: ProviderStartOptions, onEvent: ProviderEventListener): Promise<void> {
+    if (this.context.transport === 'relay') {
+      this.client = new RelayClient();
+    } else {
+      // Dynamically import Soniox SDK (browser-only)
+      const { SonioxClient } = await import('@soniox/speech-to-text-web');
+      this.client = new SonioxClient({ apiKey: this.context.fetchApiKey });
+    }
+
+    const { translation } = options;
+    await this.client.start({
+      model: SONIOX_MODEL,
+      translation: translation.type === 'two_way'
+        ? { type: 'two_way', language_a: translation.languageA, language_b: translation.languageB }
+        : { type: 'one_way', target_language: translation.targetLanguage },
+      stream: options.stream,
+      audioFormat: 'auto',
+      languageHints: options.languageHints,
+      ...(options.context && { context: options.context }),
+      enableLanguageIdentification: options.enableLanguageIdentification,
+      enableSpeakerDiarization: options.enableSpeakerDiarization,
+      enableEndpointDetection: options.enableEndpointDetection,
+
+      onStarted: () => onEvent({ type: 'started' }),
+      onPartialResult: (result: any) => onEvent({
+        type: 'tokens',
+        result: {
+          tokens: (result.tokens || []).map(normalizeToken),
+          final_audio_proc_ms: result.final_audio_proc_ms,
+          total_audio_proc_ms: result.total_audio_proc_ms,
+        },
+      }),
+      onFinished: () => onEvent({ type: 'finished' }),
+      onError: (status: string, message: string, errorCode?: number) => onEvent({
+        type: 'error',
+        error: { kind: ERROR_KINDS[status] || 'connection', message, code: errorCode },
+      }),
+    });
+  }
+
+  stop(): void {
+    this.client?.stop();
+  }
+
+  cancel(): void {
+    this.client?.cancel();
+  }
+
+  finalize(): void {
+    this.client?.finalize();
+  }
+
+  keepalive(): void {
+    if (!this.client || this.client.state !== 'Running') return;
+    if (this.client instanceof RelayClient) {
+      this.client.keepalive();
+    } else if (this.client._websocket?.readyState === WebSocket.OPEN) {
+      this.client._websocket.send(KEEPALIVE_MESSAGE);
+    }
+  }
+}
+
+export function createSonioxProvider(context: ProviderContext): TranslationProvider {
+  return new SonioxProvider(context);
+}
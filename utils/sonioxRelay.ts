@@ -0,0 +1,359 @@
+/**
+ * Soniox Relay (server only)
+ *
+ * Runs Soniox sessions on behalf of browsers that cannot (or should not)
+ * open WebSockets to Soniox themselves:
+ * - The browser creates a session with its transcription settings, posts
+ *   audio chunks and reads results as Server-Sent Events (/api/relay)
+ * - The server opens the upstream WebSocket with SONIOX_SECRET_KEY and
+ *   forwards results unchanged
+ *
+ * The browser side uses plain HTTP since Next.js route handlers cannot accept
+ * WebSocket upgrades (it also gets through proxies that block WebSockets).
+ *
+ * SONIOX_WEBSOCKET_URL points the relay at a local fake upstream for testing.
+ * Sessions live in server memory, so multi-instance deployments need sticky sessions.
+ */
+
+import { randomUUID } from 'crypto';
+import { RelayControlMessage, RelayEvent, RelaySessionConfig } from '@/types/soniox';
+
+export const DEFAULT_SONIOX_WEBSOCKET_URL = 'wss://stt-rt.soniox.com/transcribe-websocket';
+
+// Messages queued while the upstream connection opens (same limit as the SDK)
+const MAX_QUEUED_MESSAGES = 1000;
+
+// Largest audio chunk accepted per request
+export const MAX_RELAY_CHUNK_BYTES = 1024 * 1024;
+
+// Sessions without a listener or browser requests for this long are cancelled
+const IDLE_TIMEOUT_MS = 60 * 1000;
+const SWEEP_INTERVAL_MS = 15 * 1000;
+
+const DEFAULT_MAX_SESSIONS = 50;
+
+/**
+ * Relay failure with the HTTP status to report to the client
+ */
+export class RelayError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'RelayError';
+  }
+}
+
+export interface RelayConfig {
+  secretKey: string;
+  webSocketUrl: string;
+  maxSessions: number;
+}
+
+/**
+ * Read the relay configuration from the environment
+ */
+export function getRelayConfig(): RelayConfig | null {
+  const secretKey = process.env.SONIOX_SECRET_KEY;
+  if (!secretKey) {
+    return null;
+  }
+
+  const maxSessions = Number(process.env.RELAY_MAX_SESSIONS);
+  return {
+    secretKey,
+    webSocketUrl: process.env.SONIOX_WEBSOCKET_URL || DEFAULT_SONIOX_WEBSOCKET_URL,
+    maxSessions: Number.isFinite(maxSessions) && maxSessions > 0 ? Math.floor(maxSessions) : DEFAULT_MAX_SESSIONS,
+  };
+}
+
+/**
+ * Check the session settings posted by the browser
+ */
+export function parseRelaySessionConfig(body: any): RelaySessionConfig | null {
+  if (!body || typeof body !== 'object' || typeof body.model !== 'string' || !body.model) {
+    return null;
+  }
+  const { translation } = body;
+  if (translation !== undefined && !(
+    (translation.type === 'one_way' && typeof translation.target_language === 'string') ||
+    (translation.type === 'two_way' && typeof translation.language_a === 'string' && typeof translation.language_b === 'string')
+  )) {
+    return null;
+  }
+
+  const optional = <T>(value: unknown, type: string): T | undefined =>
+    typeof value === type ? value as T : undefined;
+  return {
+    model: body.model,
+    audioFormat: optional(body.audioFormat, 'string'),
+    sampleRate: optional(body.sampleRate, 'number'),
+    numChannels: optional(body.numChannels, 'number'),
+    languageHints: Array.isArray(body.languageHints)
+      ? body.languageHints.filter((hint: unknown) => typeof hint === 'string')
+      : undefined,
+    context: optional(body.context, 'string'),
+    enableSpeakerDiarization: optional(body.enableSpeakerDiarization, 'boolean'),
+    enableLanguageIdentification: optional(body.enableLanguageIdentification, 'boolean'),
+    enableEndpointDetection: optional(body.enableEndpointDetection, 'boolean'),
+    translation,
+    clientReferenceId: optional(body.clientReferenceId, 'string'),
+  };
+}
+
+/**
+ * Relay Session
+ *
+ * One upstream Soniox WebSocket. Events are buffered until a listener
+ * attaches (and while an EventSource reconnects).
+ */
+export class RelaySession {
+  readonly id = randomUUID();
+  private upstream: WebSocket | null = null;
+  private isUpstreamOpen = false;
+  private queue: (ArrayBuffer | string)[] = [];
+  private backlog: RelayEvent[] = [];
+  private listener: ((event: RelayEvent) => void) | null = null;
+  private lastActivity = Date.now();
+  private isClosed = false;
+
+  constructor(
+    private readonly config: RelaySessionConfig,
+    private readonly relayConfig: RelayConfig,
+    readonly clientId: string,
+    private readonly onClose: (session: RelaySession) => void
+  ) {}
+
+  get closed(): boolean {
+    return this.isClosed;
+  }
+
+  /**
+   * Open the upstream connection and send the session settings
+   */
+  start(): void {
+    const upstream = new WebSocket(this.relayConfig.webSocketUrl);
+    upstream.binaryType = 'arraybuffer';
+    this.upstream = upstream;
+
+    upstream.onopen = () => {
+      if (this.isClosed) return;
+      upstream.send(JSON.stringify({
+        api_key: this.relayConfig.secretKey,
+        model: this.config.model,
+        audio_format: this.config.audioFormat || 'auto',
+        sample_rate: this.config.sampleRate,
+        num_channels: this.config.numChannels,
+        language_hints: this.config.languageHints,
+        context: this.config.context,
+        enable_speaker_diarization: this.config.enableSpeakerDiarization,
+        enable_language_identification: this.config.enableLanguageIdentification,
+        enable_endpoint_detection: this.config.enableEndpointDetection,
+        translation: this.config.translation,
+        client_reference_id: this.config.clientReferenceId,
+      }));
+      this.queue.forEach(message => upstream.send(message));
+      this.queue = [];
+      this.isUpstreamOpen = true;
+      this.emit({ type: 'started' });
+    };
+
+    upstream.onmessage = (event: MessageEvent) => {
+      if (this.isClosed) return;
+      let result: any;
+      try {
+        result = JSON.parse(typeof event.data === 'string' ? event.data : Buffer.from(event.data).toString('utf8'));
+      } catch {
+        return;
+      }
+      if (result.error_code != null || result.error_message != null) {
+        this.fail('api_error', result.error_message || 'Unknown error', result.error_code);
+        return;
+      }
+      this.emit({ type: 'result', result });
+      if (result.finished) {
+        this.emit({ type: 'finished' });
+        this.close();
+      }
+    };
+
+    upstream.onerror = () => {
+      this.fail('websocket_error', 'Relay could not reach the speech service.');
+    };
+
+    upstream.onclose = (event: CloseEvent) => {
+      this.fail('websocket_error', `Speech service closed the connection (${event.code}).`);
+    };
+  }
+
+  /**
+   * Forward an audio chunk
+   */
+  sendAudio(chunk: ArrayBuffer): void {
+    if (chunk.byteLength > 0) {
+      this.send(chunk);
+    }
+  }
+
+  /**
+   * Forward a control message
+   * stop: end of audio; Soniox delivers the remaining results, then finishes
+   */
+  control(message: RelayControlMessage): void {
+    this.send(message.type === 'stop' ? '' : JSON.stringify({ type: message.type }));
+  }
+
+  /**
+   * Stop immediately (browser cancelled or went away)
+   */
+  cancel(): void {
+    this.close();
+  }
+
+  /**
+   * Receive events (one listener; a new one replaces the previous)
+   * Returns a function that detaches the listener.
+   */
+  subscribe(listener: (event: RelayEvent) => void): () => void {
+    this.listener = listener;
+    this.touch();
+    const backlog = this.backlog;
+    this.backlog = [];
+    backlog.forEach(event => listener(event));
+
+    return () => {
+      if (this.listener === listener) {
+        this.listener = null;
+        this.touch();
+      }
+    };
+  }
+
+  /**
+   * No listener and no browser requests for a while
+   */
+  isIdle(now: number = Date.now()): boolean {
+    return !this.listener && now - this.lastActivity > IDLE_TIMEOUT_MS;
+  }
+
+  private send(message: ArrayBuffer | string): void {
+    if (this.isClosed) {
+      throw new RelayError('Relay session has ended', 410);
+    }
+    this.touch();
+    if (this.isUpstreamOpen && this.upstream) {
+      this.upstream.send(message);
+    } else if (this.queue.length < MAX_QUEUED_MESSAGES) {
+      this.queue.push(message);
+    } else {
+      this.fail('queue_limit_exceeded', 'Queue size exceeded before the relay connection was established.');
+      throw new RelayError('Relay queue is full', 503);
+    }
+  }
+
+  private touch(): void {
+    this.lastActivity = Date.now();
+  }
+
+  private emit(event: RelayEvent): void {
+    if (this.listener) {
+      this.listener(event);
+    } else {
+      this.backlog.push(event);
+    }
+  }
+
+  private fail(status: 'api_error' | 'websocket_error' | 'queue_limit_exceeded', message: string, code?: number): void {
+    if (this.isClosed) return;
+    console.error(`❌ Relay session ${this.id} error (${status}):`, message);
+    this.emit({ type: 'error', status, message, code });
+    this.close();
+  }
+
+  private close(): void {
+    if (this.isClosed) return;
+    this.isClosed = true;
+    this.queue = [];
+
+    const upstream = this.upstream;
+    this.upstream = null;
+    if (upstream) {
+      upstream.onopen = null;
+      upstream.onmessage = null;
+      upstream.onerror = null;
+      upstream.onclose = null;
+      try {
+        upstream.close();
+      } catch {
+        // Already closed
+      }
+    }
+    this.onClose(this);
+  }
+}
+
+/**
+ * Relay Session Manager
+ *
+ * Tracks active sessions and cancels abandoned ones.
+ */
+export class RelaySessionManager {
+  private sessions = new Map<string, RelaySession>();
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * Create and start a session
+   */
+  create(config: RelaySessionConfig, relayConfig: RelayConfig, clientId: string): RelaySession {
+    if (this.sessions.size >= relayConfig.maxSessions) {
+      throw new RelayError('Relay is at capacity, please try again shortly', 503);
+    }
+
+    const session = new RelaySession(config, relayConfig, clientId, closed => {
+      this.sessions.delete(closed.id);
+      console.log(`🔌 Relay session ${closed.id} closed (${this.sessions.size} active)`);
+    });
+    this.sessions.set(session.id, session);
+    session.start();
+    this.startSweep();
+
+    console.log(`🔌 Relay session ${session.id} opened for ${clientId} (${this.sessions.size} active)`);
+    return session;
+  }
+
+  get(id: string): RelaySession | undefined {
+    return this.sessions.get(id);
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  private startSweep(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => {
+      const now = Date.now();
+      Array.from(this.sessions.values()).forEach(session => {
+        if (session.isIdle(now)) {
+          console.warn(`⚠️ Relay session ${session.id} abandoned, cancelling`);
+          session.cancel();
+        }
+      });
+      if (this.sessions.size === 0 && this.sweepTimer) {
+        clearInterval(this.sweepTimer);
+        this.sweepTimer = null;
+      }
+    }, SWEEP_INTERVAL_MS);
+    // Do not keep the process alive just for the sweep
+    (this.sweepTimer as any).unref?.();
+  }
+}
+
+// Shared by the relay routes; kept on globalThis since each route module
+// may be bundled (and hot-reloaded) separately
+const globalForRelay = globalThis as unknown as { relaySessions?: RelaySessionManager };
+
+export function getRelaySessionManager(): RelaySessionManager {
+  if (!globalForRelay.relaySessions) {
+    globalForRelay.relaySessions = new RelaySessionManager();
+  }
+  return globalForRelay.relaySessions;
+}
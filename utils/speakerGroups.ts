@@ -0,0 +1,57 @@
+/**
+ * Speaker Grouping
+ *
+ * Consecutive lines from the same speaker are shown (and exported) as one
+ * group, unless the pause between them exceeds the grouping window.
+ * Shared by the chat view and the meeting-minutes exports.
+ */
+
+import { TranscriptLine } from '@/hooks/useTranslator';
+
+export const DEFAULT_GROUPING_WINDOW_MS = 4000;
+
+/**
+ * Consecutive lines of one speaker (or a single interruption marker)
+ */
+export interface SpeakerGroup {
+  speaker?: string;
+  speakerName?: string; // Custom name from the speaker registry
+  lines: TranscriptLine[];
+  isGap?: boolean;
+}
+
+/**
+ * Check whether a line starts a new speaker group
+ */
+export function startsSpeakerGroup(
+  line: TranscriptLine,
+  previous: TranscriptLine | undefined,
+  groupingWindowMs: number = DEFAULT_GROUPING_WINDOW_MS
+): boolean {
+  if (!previous || previous.isGap) return true;
+  return line.speaker !== previous.speaker || (line.timestamp - previous.timestamp) > groupingWindowMs;
+}
+
+/**
+ * Group lines by speaker turns (gap lines form their own group)
+ */
+export function groupBySpeaker(
+  lines: TranscriptLine[],
+  groupingWindowMs: number = DEFAULT_GROUPING_WINDOW_MS
+): SpeakerGroup[] {
+  const groups: SpeakerGroup[] = [];
+  let previous: TranscriptLine | undefined;
+
+  lines.forEach(line => {
+    if (line.isGap) {
+      groups.push({ lines: [line], isGap: true });
+    } else if (startsSpeakerGroup(line, previous, groupingWindowMs)) {
+      groups.push({ speaker: line.speaker, speakerName: line.speakerName, lines: [line] });
+    } else {
+      groups[groups.length - 1].lines.push(line);
+    }
+    previous = line;
+  });
+
+  return groups;
+}
@@ -0,0 +1,140 @@
+/**
+ * Speaker Registry
+ *
+ * Maps diarization labels ("1", "2", ...) to user-facing speakers:
+ * - A custom name (renames apply to past lines and to exports)
+ * - A stable color, assigned in order of first appearance
+ * - Merges, for one person that diarization split into two labels
+ *
+ * The registry is a plain object so it can be stored with the session.
+ * Committed lines keep their original labels; applySpeakerRegistry()
+ * derives the display view (canonical label, name and color).
+ */
+
+import { TranscriptLine } from '@/hooks/useTranslator';
+
+export interface SpeakerProfile {
+  label: string;         // Diarization label
+  name?: string;         // Custom name (default: "Speaker <label>")
+  color: string;
+  mergedInto?: string;   // Label of the speaker this one was merged into
+}
+
+export type SpeakerRegistry = Record<string, SpeakerProfile>;
+
+// Distinct colors for speaker labels
+export const SPEAKER_COLORS = [
+  '#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6',
+  '#ec4899', '#14b8a6', '#f97316', '#6366f1', '#84cc16',
+];
+
+/**
+ * Default display name for a label
+ */
+export function formatSpeakerName(label?: string, name?: string): string {
+  if (name) return name;
+  return label ? `Speaker ${label}` : 'Speaker unknown';
+}
+
+/**
+ * Add labels that are not in the registry yet
+ * Returns the same object when nothing changed.
+ */
+export function registerSpeakers(registry: SpeakerRegistry, labels: string[]): SpeakerRegistry {
+  const missing = labels.filter((label, index) => label && !registry[label] && labels.indexOf(label) === index);
+  if (missing.length === 0) return registry;
+
+  const next = { ...registry };
+  missing.forEach(label => {
+    next[label] = {
+      label,
+      color: SPEAKER_COLORS[Object.keys(next).length % SPEAKER_COLORS.length],
+    };
+  });
+  return next;
+}
+
+/**
+ * Follow merges to the label a speaker is shown as
+ */
+export function resolveSpeaker(registry: SpeakerRegistry, label: string): string {
+  const seen = new Set<string>();
+  let current = label;
+  while (registry[current]?.mergedInto && !seen.has(current)) {
+    seen.add(current);
+    current = registry[current].mergedInto!;
+  }
+  return current;
+}
+
+/**
+ * Rename a speaker (an empty name restores the default)
+ */
+export function renameSpeaker(registry: SpeakerRegistry, label: string, name: string): SpeakerRegistry {
+  const target = resolveSpeaker(registry, label);
+  if (!registry[target]) return registry;
+  return { ...registry, [target]: { ...registry[target], name: name.trim() || undefined } };
+}
+
+/**
+ * Merge one speaker into another (lines of `from` are shown as `into`)
+ */
+export function mergeSpeakers(registry: SpeakerRegistry, from: string, into: string): SpeakerRegistry {
+  const target = resolveSpeaker(registry, into);
+  if (!registry[from] || !registry[target] || resolveSpeaker(registry, from) === target) {
+    return registry;
+  }
+  return { ...registry, [from]: { ...registry[from], mergedInto: target } };
+}
+
+/**
+ * Undo a merge
+ */
+export function unmergeSpeaker(registry: SpeakerRegistry, label: string): SpeakerRegistry {
+  if (!registry[label]?.mergedInto) return registry;
+  const { mergedInto: _mergedInto, ...profile } = registry[label];
+  return { ...registry, [label]: profile };
+}
+
+/**
+ * Display info for a diarization label
+ */
+export function getSpeakerInfo(
+  registry: SpeakerRegistry,
+  label: string
+): { label: string; name: string; color: string } {
+  const resolved = resolveSpeaker(registry, label);
+  const profile = registry[resolved];
+  return {
+    label: resolved,
+    name: formatSpeakerName(resolved, profile?.name),
+    color: profile?.color || SPEAKER_COLORS[0],
+  };
+}
+
+/**
+ * Apply names, colors and merges to lines for display and export
+ */
+export function applySpeakerRegistry(lines: TranscriptLine[], registry: SpeakerRegistry): TranscriptLine[] {
+  if (Object.keys(registry).length === 0) return lines;
+  return lines.map(line => {
+    if (!line.speaker) return line;
+    const info = getSpeakerInfo(registry, line.speaker);
+    return { ...line, speaker: info.label, speakerName: info.name, speakerColor: info.color };
+  });
+}
+
+/**
+ * Rebuild a registry from lines carrying speaker names (e.g., imported exports)
+ */
+export function registryFromLines(lines: TranscriptLine[]): SpeakerRegistry {
+  let registry: SpeakerRegistry = {};
+  lines.forEach(line => {
+    if (!line.speaker) return;
+    registry = registerSpeakers(registry, [line.speaker]);
+    if (line.speakerName && line.speakerName !== formatSpeakerName(line.speaker)) {
+      registry[line.speaker] = { ...registry[line.speaker], name: line.speakerName };
+    }
+  });
+  return registry;
+}
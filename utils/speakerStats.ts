@@ -0,0 +1,191 @@
+/**
+ * Per-Speaker Statistics
+ *
+ * Meeting balance metrics computed from committed lines:
+ * - Talk time: union of the speaker's token time ranges (line start/end
+ *   when a line has no token timing, e.g., restored checkpoints)
+ * - Words, turns and average turn length (words and duration)
+ * - Interruptions: a turn that starts before the previous speaker's turn
+ *   has ended in audio time (counted for the interrupting speaker;
+ *   "interrupted" counts how often a speaker was cut off)
+ *
+ * Source lines carry the token timing of the actual speech, so they are
+ * preferred over translations when both are available.
+ */
+
+import { TranscriptLine } from '@/hooks/useTranslator';
+import { AudioTimeRange } from '@/utils/tokenParser';
+import { formatSpeakerName } from '@/utils/speakerRegistry';
+
+export interface SpeakerStats {
+  speaker: string;
+  speakerName: string;
+  speakerColor?: string;
+  talkTimeMs: number;
+  talkTimeShare: number;     // 0-1, of the talk time of all speakers
+  wordCount: number;
+  turns: number;
+  averageTurnWords: number;
+  averageTurnMs: number;     // Turns with audio timing only
+  interruptions: number;     // Turns this speaker started over someone else
+  interrupted: number;       // Times this speaker was talked over
+}
+
+/**
+ * A run of consecutive lines from one speaker
+ */
+interface SpeakerTurn {
+  speaker: string;
+  range?: AudioTimeRange;
+}
+
+/**
+ * Count words in a line (whitespace separated)
+ */
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(word => word.length > 0).length;
+}
+
+/**
+ * Audio-time ranges spoken in a line
+ */
+function getSpeechRanges(line: TranscriptLine): AudioTimeRange[] {
+  const tokenRanges = (line.tokens || [])
+    .filter(token => token.start_ms !== undefined)
+    .map(token => ({ startMs: token.start_ms!, endMs: token.end_ms ?? token.start_ms! }));
+  if (tokenRanges.length > 0) return tokenRanges;
+  if (line.startMs !== undefined && line.endMs !== undefined) {
+    return [{ startMs: line.startMs, endMs: line.endMs }];
+  }
+  return [];
+}
+
+/**
+ * Total length of the union of time ranges (overlaps counted once)
+ */
+function getUnionDuration(ranges: AudioTimeRange[]): number {
+  const sorted = [...ranges].sort((a, b) => a.startMs - b.startMs);
+  let total = 0;
+  let currentStart = -Infinity;
+  let currentEnd = -Infinity;
+
+  for (const range of sorted) {
+    if (range.startMs <= currentEnd) {
+      currentEnd = Math.max(currentEnd, range.endMs);
+    } else {
+      if (Number.isFinite(currentStart)) total += currentEnd - currentStart;
+      currentStart = range.startMs;
+      currentEnd = range.endMs;
+    }
+  }
+  if (Number.isFinite(currentStart)) total += currentEnd - currentStart;
+
+  return total;
+}
+
+/**
+ * Split lines into speaker turns (a new turn starts when the speaker changes)
+ */
+function buildTurns(lines: TranscriptLine[]): SpeakerTurn[] {
+  const turns: SpeakerTurn[] = [];
+
+  lines.forEach(line => {
+    if (line.isGap || !line.speaker) return;
+
+    const ranges = getSpeechRanges(line);
+    const range = ranges.length > 0
+      ? {
+          startMs: Math.min(...ranges.map(r => r.startMs)),
+          endMs: Math.max(...ranges.map(r => r.endMs)),
+        }
+      : undefined;
+
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === line.speaker) {
+      if (range) {
+        last.range = last.range
+          ? { startMs: Math.min(last.range.startMs, range.startMs), endMs: Math.max(last.range.endMs, range.endMs) }
+          : range;
+      }
+    } else {
+      turns.push({ speaker: line.speaker, range });
+    }
+  });
+
+  return turns;
+}
+
+/**
+ * Compute per-speaker statistics, ordered by talk time (then words)
+ */
+export function getSpeakerStats(lines: TranscriptLine[]): SpeakerStats[] {
+  const stats = new Map<string, SpeakerStats>();
+  const speechRanges = new Map<string, AudioTimeRange[]>();
+  const turnDurations = new Map<string, number[]>();
+
+  const getEntry = (line: TranscriptLine) => {
+    const speaker = line.speaker!;
+    let entry = stats.get(speaker);
+    if (!entry) {
+      entry = {
+        speaker,
+        speakerName: formatSpeakerName(speaker, line.speakerName),
+        speakerColor: line.speakerColor,
+        talkTimeMs: 0,
+        talkTimeShare: 0,
+        wordCount: 0,
+        turns: 0,
+        averageTurnWords: 0,
+        averageTurnMs: 0,
+        interruptions: 0,
+        interrupted: 0,
+      };
+      stats.set(speaker, entry);
+      speechRanges.set(speaker, []);
+      turnDurations.set(speaker, []);
+    }
+    return entry;
+  };
+
+  lines.forEach(line => {
+    if (line.isGap || !line.speaker) return;
+    const entry = getEntry(line);
+    entry.wordCount += countWords(line.text);
+    speechRanges.get(line.speaker)!.push(...getSpeechRanges(line));
+  });
+
+  const turns = buildTurns(lines);
+  turns.forEach((turn, index) => {
+    const entry = stats.get(turn.speaker)!;
+    entry.turns++;
+    if (turn.range) {
+      turnDurations.get(turn.speaker)!.push(turn.range.endMs - turn.range.startMs);
+    }
+
+    const previous = turns[index - 1];
+    if (previous?.range && turn.range && turn.range.startMs < previous.range.endMs) {
+      entry.interruptions++;
+      stats.get(previous.speaker)!.interrupted++;
+    }
+  });
+
+  let totalTalkTimeMs = 0;
+  stats.forEach(entry => {
+    entry.talkTimeMs = getUnionDuration(speechRanges.get(entry.speaker)!);
+    totalTalkTimeMs += entry.talkTimeMs;
+
+    const durations = turnDurations.get(entry.speaker)!;
+    entry.averageTurnWords = entry.turns > 0 ? Math.round(entry.wordCount / entry.turns) : 0;
+    entry.averageTurnMs = durations.length > 0
+      ? Math.round(durations.reduce((sum, ms) => sum + ms, 0) / durations.length)
+      : 0;
+  });
+
+  stats.forEach(entry => {
+    entry.talkTimeShare = totalTalkTimeMs > 0 ? entry.talkTimeMs / totalTalkTimeMs : 0;
+  });
+
+  return Array.from(stats.values()).sort(
+    (a, b) => b.talkTimeMs - a.talkTimeMs || b.wordCount - a.wordCount
+  );
+}
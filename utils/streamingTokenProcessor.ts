@@ -7,6 +7,7 @@
  * Key Features:
  * - Word-level diff reconciliation for smooth updates
  * - Per-speaker message streams with final/mutable regions
+ * - Optional per-language streams for two-way conversation mode
  * - Robust correction guardrails (no rewriting committed text)
  * - Efficient auto-scroll and performance optimization
  * - Real-time typing animations and cursor management
@@ -19,11 +20,14 @@ import { Token } from './tokenParser';
 export interface StreamingMessage {
   id: string;
   speaker: string;
+  speakerName?: string;     // Custom name from the speaker registry
+  speakerColor?: string;
   finalText: string;        // Committed text (is_final=true tokens)
   mutableText: string;      // Current non-final tokens
   isActive: boolean;        // Currently being typed
   timestamp: number;
-  language?: string;
+  language?: string;        // Language of the translated text
+  sourceLanguage?: string;  // Language the speech was translated from
 }
 
 export interface StreamingUpdate {
@@ -34,6 +38,7 @@ export interface StreamingUpdate {
   mutableText: string;
   isActive: boolean;
   timestamp: number;
+  language?: string;
 }
 
 export interface StreamingConfig {
@@ -42,6 +47,7 @@ export interface StreamingConfig {
   updateThrottleMs: number;     // Throttle updates for performance
   autoCommitOnPause: boolean;   // Commit on silence/endpoint
   mergeConsecutiveSpeakers: boolean; // Group same speaker messages
+  routeByLanguage: boolean;     // Keep a separate message stream per target language
 }
 
 const DEFAULT_CONFIG: Required<StreamingConfig> = {
@@ -50,8 +56,20 @@ const DEFAULT_CONFIG: Required<StreamingConfig> = {
   updateThrottleMs: 16,         // ~60fps throttling
   autoCommitOnPause: true,      // Commit on silence
   mergeConsecutiveSpeakers: true, // Group consecutive speaker turns
+  routeByLanguage: false,       // Single stream unless two-way mode is active
 };
 
+// Stream key used when tokens are not routed by language
+const DEFAULT_STREAM = 'default';
+
+/**
+ * Active message state for one stream
+ */
+interface MessageStream {
+  messageId: string | null;
+  speaker: string | null;
+}
+
 /**
  * Word-level diff utility for smooth text reconciliation
  */
@@ -157,8 +175,8 @@ class WordDiff {
 export class StreamingTokenProcessor {
   private config: Required<StreamingConfig>;
   private messages: Map<string, StreamingMessage> = new Map();
-  private currentMessageId: string | null = null;
-  private currentSpeaker: string | null = null;
+  private streams: Map<string, MessageStream> = new Map();
+  private lastActiveStream: string = DEFAULT_STREAM;
   private updateThrottleTimer: ReturnType<typeof setTimeout> | null = null;
   private pendingUpdate: StreamingUpdate | null = null;
   
@@ -194,31 +212,45 @@ export class StreamingTokenProcessor {
       return;
     }
 
-    // Ensure we have a message to add tokens to
-    if (!this.currentMessageId) {
-      // No message exists yet, create one with current speaker or default
-      const speaker = currentSpeaker || 'unknown';
-      this.handleSpeakerChange(speaker);
-      console.log(`🎬 Created initial message for speaker: ${speaker}`);
-    } else if (currentSpeaker && currentSpeaker !== this.currentSpeaker) {
-      // Handle speaker changes
-      this.handleSpeakerChange(currentSpeaker);
-      console.log(`👤 Speaker changed from ${this.currentSpeaker} to ${currentSpeaker}`);
-    }
+    this.groupByStream(translationTokens).forEach((streamTokens, key) => {
+      const stream = this.getStream(key);
+
+      // Ensure we have a message to add tokens to
+      if (!stream.messageId) {
+        // No message exists yet, create one with current speaker or default
+        const speaker = currentSpeaker || 'unknown';
+        this.handleSpeakerChange(key, speaker, streamTokens[0]);
+        console.log(`🎬 Created initial message for speaker: ${speaker} [${key}]`);
+      } else if (currentSpeaker && currentSpeaker !== stream.speaker) {
+        // Handle speaker changes
+        console.log(`👤 Speaker changed from ${stream.speaker} to ${currentSpeaker} [${key}]`);
+        this.handleSpeakerChange(key, currentSpeaker, streamTokens[0]);
+      }
 
-    // Process translation tokens
-    this.processTranslationTokens(translationTokens);
+      // Process translation tokens
+      this.processTranslationTokens(key, streamTokens);
+      this.lastActiveStream = key;
+    });
   }
 
   /**
    * Force commit current mutable text (e.g., on endpoint detection)
+   * Commits the active message of every stream.
    */
   commitCurrentMessage(): void {
-    if (!this.currentMessageId) {
+    this.streams.forEach((_stream, key) => this.commitStreamMessage(key));
+  }
+
+  /**
+   * Force commit the active message of a single stream
+   */
+  private commitStreamMessage(key: string): void {
+    const messageId = this.streams.get(key)?.messageId;
+    if (!messageId) {
       return;
     }
 
-    const message = this.messages.get(this.currentMessageId);
+    const message = this.messages.get(messageId);
     if (!message || !message.mutableText) {
       return;
     }
@@ -232,17 +264,18 @@ export class StreamingTokenProcessor {
       isActive: false,
     };
 
-    this.messages.set(this.currentMessageId, updatedMessage);
+    this.messages.set(messageId, updatedMessage);
 
     // Notify update
     this.throttledUpdate({
       type: 'commit_mutable',
-      messageId: this.currentMessageId,
+      messageId,
       speaker: message.speaker,
       finalText: updatedMessage.finalText,
       mutableText: updatedMessage.mutableText,
       isActive: updatedMessage.isActive,
       timestamp: Date.now(),
+      language: message.language,
     });
 
     console.log(`✅ Committed message: "${finalText}"`);
@@ -257,13 +290,14 @@ export class StreamingTokenProcessor {
   }
 
   /**
-   * Get current active message
+   * Get current active message (of the most recently updated stream)
    */
   getCurrentMessage(): StreamingMessage | null {
-    if (!this.currentMessageId) {
+    const messageId = this.streams.get(this.lastActiveStream)?.messageId;
+    if (!messageId) {
       return null;
     }
-    return this.messages.get(this.currentMessageId) || null;
+    return this.messages.get(messageId) || null;
   }
 
   /**
@@ -271,8 +305,8 @@ export class StreamingTokenProcessor {
    */
   reset(): void {
     this.messages.clear();
-    this.currentMessageId = null;
-    this.currentSpeaker = null;
+    this.streams.clear();
+    this.lastActiveStream = DEFAULT_STREAM;
     this.clearThrottleTimer();
     console.log('🗑️ Streaming processor reset');
   }
@@ -290,60 +324,94 @@ export class StreamingTokenProcessor {
     return null;
   }
 
+  /**
+   * Group tokens by stream key, preserving order within each stream
+   */
+  private groupByStream(tokens: Token[]): Map<string, Token[]> {
+    const groups = new Map<string, Token[]>();
+
+    for (const token of tokens) {
+      const key = this.config.routeByLanguage ? (token.language || DEFAULT_STREAM) : DEFAULT_STREAM;
+      if (!groups.has(key)) {
+        groups.set(key, []);
+      }
+      groups.get(key)!.push(token);
+    }
+
+    return groups;
+  }
+
+  /**
+   * Get (or create) the message stream for a key
+   */
+  private getStream(key: string): MessageStream {
+    let stream = this.streams.get(key);
+    if (!stream) {
+      stream = { messageId: null, speaker: null };
+      this.streams.set(key, stream);
+    }
+    return stream;
+  }
+
   /**
    * Handle speaker change
    */
-  private handleSpeakerChange(newSpeaker: string): void {
-    if (this.currentSpeaker === newSpeaker) {
+  private handleSpeakerChange(key: string, newSpeaker: string, sampleToken: Token): void {
+    const stream = this.getStream(key);
+    if (stream.speaker === newSpeaker) {
       return;
     }
 
     // Commit current message if exists
-    if (this.currentMessageId) {
-      this.commitCurrentMessage();
+    if (stream.messageId) {
+      this.commitStreamMessage(key);
     }
 
     // Start new message for new speaker
-    this.currentSpeaker = newSpeaker;
-    this.currentMessageId = this.generateMessageId();
+    stream.speaker = newSpeaker;
+    stream.messageId = this.generateMessageId();
     
     const newMessage: StreamingMessage = {
-      id: this.currentMessageId,
+      id: stream.messageId,
       speaker: newSpeaker,
       finalText: '',
       mutableText: '',
       isActive: true,
       timestamp: Date.now(),
+      language: sampleToken.language,
+      sourceLanguage: sampleToken.source_language,
     };
 
-    this.messages.set(this.currentMessageId, newMessage);
+    this.messages.set(stream.messageId, newMessage);
 
     // Notify new message
     this.throttledUpdate({
       type: 'new_message',
-      messageId: this.currentMessageId,
+      messageId: stream.messageId,
       speaker: newSpeaker,
       finalText: '',
       mutableText: '',
       isActive: true,
       timestamp: Date.now(),
+      language: newMessage.language,
     });
 
-    console.log(`👤 New speaker: ${newSpeaker} (Message: ${this.currentMessageId})`);
+    console.log(`👤 New speaker: ${newSpeaker} (Message: ${stream.messageId})`);
   }
 
   /**
-   * Process translation tokens for current message
+   * Process translation tokens for the current message of a stream
    */
-  private processTranslationTokens(tokens: Token[]): void {
-    if (!this.currentMessageId) {
+  private processTranslationTokens(key: string, tokens: Token[]): void {
+    const messageId = this.streams.get(key)?.messageId;
+    if (!messageId) {
       console.warn('⚠️ No current message ID, cannot process tokens');
       return;
     }
 
-    const message = this.messages.get(this.currentMessageId);
+    const message = this.messages.get(messageId);
     if (!message) {
-      console.warn('⚠️ Message not found:', this.currentMessageId);
+      console.warn('⚠️ Message not found:', messageId);
       return;
     }
 
@@ -385,22 +453,23 @@ export class StreamingTokenProcessor {
     }
 
     // Update message
-    this.messages.set(this.currentMessageId, updatedMessage);
+    this.messages.set(messageId, updatedMessage);
 
     console.log(`💾 Updated message in map. Final: "${updatedMessage.finalText.substring(0, 50)}", Mutable: "${updatedMessage.mutableText.substring(0, 50)}"`);
 
     // Notify update
     this.throttledUpdate({
       type: 'update_mutable',
-      messageId: this.currentMessageId,
+      messageId,
       speaker: updatedMessage.speaker,
       finalText: updatedMessage.finalText,
       mutableText: updatedMessage.mutableText,
       isActive: updatedMessage.isActive,
       timestamp: Date.now(),
+      language: updatedMessage.language,
     });
     
-    console.log(`📢 Notified UI update for message ${this.currentMessageId}`);
+    console.log(`📢 Notified UI update for message ${messageId}`);
   }
 
   /**
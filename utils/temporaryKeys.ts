@@ -0,0 +1,170 @@
+/**
+ * Temporary Soniox API Keys (server only)
+ *
+ * Mints short-lived, usage-scoped keys from the Soniox API so the permanent
+ * SONIOX_SECRET_KEY never leaves the server. Keys are cached and shared
+ * between clients:
+ * - A key is reused while it has enough lifetime left for a client to connect
+ * - Shortly before expiry a replacement is minted in the background
+ * - Concurrent requests share one upstream call
+ *
+ * The upstream base URL comes from SONIOX_API_ENDPOINT, so a local mock
+ * server can stand in for the Soniox API during development and testing.
+ */
+
+import { TemporaryKeyResponse } from '@/types/soniox';
+
+export const DEFAULT_SONIOX_API_ENDPOINT = 'https://api.soniox.com';
+const TEMPORARY_KEY_PATH = '/v1/auth/temporary-api-key';
+
+// Keys are only valid for real-time (WebSocket) transcription
+const TEMPORARY_KEY_USAGE = 'transcribe_websocket';
+
+// Lifetime requested for new keys (SONIOX_TEMP_KEY_TTL_SECONDS overrides,
+// kept long enough to outlive the refresh margin below; Soniox allows up to 1 h)
+const DEFAULT_KEY_TTL_SECONDS = 300;
+const MIN_KEY_TTL_SECONDS = 180;
+const MAX_KEY_TTL_SECONDS = 3600;
+
+// Lifetime a key must have left to be handed out (time to open the connection)
+const MIN_REMAINING_MS = 60 * 1000;
+
+// Mint a replacement in the background when less than this is left
+const REFRESH_BEFORE_EXPIRY_MS = 2 * 60 * 1000;
+
+// Upstream request timeout
+const UPSTREAM_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Failure to obtain a key, with the HTTP status to report to the client
+ */
+export class TemporaryKeyError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'TemporaryKeyError';
+  }
+}
+
+interface CachedKey {
+  apiKey: string;
+  expiresAt: number; // ms since epoch
+}
+
+export interface TemporaryKeyConfig {
+  secretKey: string;
+  endpoint: string;
+  ttlSeconds: number;
+}
+
+/**
+ * Read the key configuration from the environment
+ */
+export function getTemporaryKeyConfig(): TemporaryKeyConfig | null {
+  const secretKey = process.env.SONIOX_SECRET_KEY;
+  if (!secretKey) {
+    return null;
+  }
+
+  const ttlSeconds = Number(process.env.SONIOX_TEMP_KEY_TTL_SECONDS);
+  return {
+    secretKey,
+    endpoint: (process.env.SONIOX_API_ENDPOINT || DEFAULT_SONIOX_API_ENDPOINT).replace(/\/+$/, ''),
+    ttlSeconds: Number.isFinite(ttlSeconds) && ttlSeconds > 0
+      ? Math.min(MAX_KEY_TTL_SECONDS, Math.max(MIN_KEY_TTL_SECONDS, Math.round(ttlSeconds)))
+      : DEFAULT_KEY_TTL_SECONDS,
+  };
+}
+
+/**
+ * Temporary Key Cache
+ *
+ * Holds the current temporary key and refreshes it before it expires.
+ */
+export class TemporaryKeyCache {
+  private current: CachedKey | null = null;
+  private pending: Promise<CachedKey> | null = null;
+
+  constructor(private readonly config: TemporaryKeyConfig) {}
+
+  /**
+   * Get a key with enough lifetime left, minting one if needed
+   */
+  async getKey(now: number = Date.now()): Promise<TemporaryKeyResponse> {
+    let key = this.current;
+
+    if (!key || key.expiresAt - now < MIN_REMAINING_MS) {
+      key = await this.refresh();
+    } else if (key.expiresAt - now < REFRESH_BEFORE_EXPIRY_MS) {
+      // Still usable: hand it out and replace it in the background
+      this.refresh().catch(err => console.error('❌ Background temporary key refresh failed:', err));
+    }
+
+    return { apiKey: key.apiKey, expiresAt: new Date(key.expiresAt).toISOString() };
+  }
+
+  /**
+   * Mint a new key (one upstream request at a time)
+   */
+  private refresh(): Promise<CachedKey> {
+    if (!this.pending) {
+      this.pending = this.mint()
+        .then(key => {
+          this.current = key;
+          return key;
+        })
+        .finally(() => {
+          this.pending = null;
+        });
+    }
+    return this.pending;
+  }
+
+  /**
+   * Request a temporary key from the upstream API
+   */
+  private async mint(): Promise<CachedKey> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT_MS);
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.config.endpoint}${TEMPORARY_KEY_PATH}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.config.secretKey}`,
+        },
+        body: JSON.stringify({
+          usage_type: TEMPORARY_KEY_USAGE,
+          expires_in_seconds: this.config.ttlSeconds,
+        }),
+        signal: controller.signal,
+        cache: 'no-store',
+      });
+    } catch {
+      throw new TemporaryKeyError(
+        controller.signal.aborted ? 'Speech service did not respond in time' : 'Speech service is unreachable',
+        502
+      );
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      console.error(`❌ Temporary key request failed (${response.status}):`, detail.slice(0, 500));
+      // Upstream auth failures mean our secret key is wrong: a server problem
+      throw new TemporaryKeyError('Speech service rejected the key request', 502);
+    }
+
+    const data = await response.json().catch(() => null);
+    const apiKey = data?.api_key;
+    const expiresAt = Date.parse(data?.expires_at);
+    if (typeof apiKey !== 'string' || !apiKey || !Number.isFinite(expiresAt)) {
+      throw new TemporaryKeyError('Unexpected response from the speech service', 502);
+    }
+
+    console.log(`🔑 Minted temporary Soniox key (expires ${new Date(expiresAt).toISOString()})`);
+    return { apiKey, expiresAt };
+  }
+}
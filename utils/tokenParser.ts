@@ -19,6 +19,19 @@ export interface Token {
   speaker?: string;  // Speaker label from diarization (e.g., "1", "2", "3")
 }
 
+/**
+ * Per-token detail kept with committed lines (for QA exports)
+ */
+export type TokenDetail = Pick<Token, 'text' | 'is_final' | 'confidence' | 'start_ms' | 'end_ms' | 'speaker' | 'language'>;
+
+/**
+ * Audio-time span (ms since the start of the audio stream)
+ */
+export interface AudioTimeRange {
+  startMs: number;
+  endMs: number;
+}
+
 export interface TokenBuffer {
   tokens: Token[];
   lastUpdateTime: number;
@@ -159,7 +172,7 @@ export function processTranslationTokens(
 
 /**
  * Process source (original) tokens specifically
- * Also extracts speaker information
+ * Also extracts speaker and spoken language information
  */
 export function processSourceTokens(
   allTokens: Token[],
@@ -169,6 +182,7 @@ export function processSourceTokens(
   updatedBuffer: Token[];
   liveText: string;
   currentSpeaker?: string;
+  currentLanguage?: string;
 } {
   // Extract only source tokens
   const sourceTokens = extractSourceTokens(allTokens);
@@ -179,11 +193,15 @@ export function processSourceTokens(
   // Extract current speaker from the tokens
   const currentSpeaker = extractCurrentSpeaker(sourceTokens);
   
+  // Extract spoken language (set when language identification is enabled)
+  const currentLanguage = extractCurrentLanguage(sourceTokens);
+  
   return {
     newCommittedText: result.newCommittedText,
     updatedBuffer: result.updatedNonFinalBuffer,
     liveText: result.liveText,
     currentSpeaker,
+    currentLanguage,
   };
 }
 
@@ -201,6 +219,52 @@ export function extractCurrentSpeaker(tokens: Token[]): string | undefined {
   return undefined;
 }
 
+/**
+ * Extract current language from tokens
+ * Returns the most recent language code found in the tokens
+ */
+export function extractCurrentLanguage(tokens: Token[]): string | undefined {
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    if (tokens[i].language) {
+      return tokens[i].language;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the audio-time span covered by tokens
+ * Returns undefined if no token carries timing (e.g., translation tokens)
+ */
+export function getTokenTimeRange(tokens: Token[]): AudioTimeRange | undefined {
+  let startMs = Infinity;
+  let endMs = -Infinity;
+
+  for (const token of tokens) {
+    if (token.start_ms !== undefined) {
+      startMs = Math.min(startMs, token.start_ms);
+      endMs = Math.max(endMs, token.end_ms ?? token.start_ms);
+    }
+  }
+
+  return Number.isFinite(startMs) ? { startMs, endMs } : undefined;
+}
+
+/**
+ * Extract per-token detail, optionally mapping token times (e.g., to session time)
+ */
+export function getTokenDetails(tokens: Token[], mapTime: (ms: number) => number = ms => ms): TokenDetail[] {
+  return tokens.map(token => ({
+    text: token.text,
+    is_final: token.is_final,
+    confidence: token.confidence,
+    start_ms: token.start_ms !== undefined ? mapTime(token.start_ms) : undefined,
+    end_ms: token.end_ms !== undefined ? mapTime(token.end_ms) : undefined,
+    speaker: token.speaker,
+    language: token.language,
+  }));
+}
+
 /**
  * Commit remaining live tokens when session ends
  */
@@ -0,0 +1,112 @@
+/**
+ * Transcript Filter
+ *
+ * Focus a transcript on one speaker and/or one detected language.
+ * The detected language of a translation is the language that was spoken
+ * (sourceLanguage); for source lines it is the line language.
+ *
+ * Interruption markers (gap lines) affect every speaker, so they are kept.
+ */
+
+import { TranscriptLine } from '@/hooks/useTranslator';
+import { formatSpeakerName } from '@/utils/speakerRegistry';
+
+export interface TranscriptFilter {
+  speaker?: string;   // Speaker label (after merges)
+  language?: string;  // Detected (spoken) language
+}
+
+/**
+ * Speaker and detected language of the live (non-final) line
+ */
+export interface LiveLineInfo {
+  speaker?: string;
+  language?: string;
+}
+
+/**
+ * Anything with a speaker and language (transcript lines, streaming messages)
+ */
+export type FilterableItem = Pick<TranscriptLine, 'speaker' | 'speakerName' | 'speakerColor' | 'language' | 'sourceLanguage' | 'isGap'>;
+
+export interface FilterOptions {
+  speakers: { label: string; name: string; color?: string }[];
+  languages: string[];
+}
+
+/**
+ * Check whether any filter is set
+ */
+export function isFilterActive(filter: TranscriptFilter | undefined): boolean {
+  return !!filter && !!(filter.speaker || filter.language);
+}
+
+/**
+ * Detected language of a line
+ */
+export function getDetectedLanguage(line: Pick<TranscriptLine, 'language' | 'sourceLanguage'>): string | undefined {
+  return line.sourceLanguage || line.language;
+}
+
+/**
+ * Check whether a speaker/language pair passes the filter
+ * Unknown values do not match an active filter.
+ */
+export function matchesFilter(item: LiveLineInfo, filter: TranscriptFilter): boolean {
+  if (filter.speaker && item.speaker !== filter.speaker) return false;
+  if (filter.language && item.language !== filter.language) return false;
+  return true;
+}
+
+/**
+ * Check whether a committed line passes the filter
+ */
+export function lineMatchesFilter(line: FilterableItem, filter: TranscriptFilter): boolean {
+  return !!line.isGap || matchesFilter({ speaker: line.speaker, language: getDetectedLanguage(line) }, filter);
+}
+
+/**
+ * Lines that pass the filter (the same array when no filter is set)
+ */
+export function filterLines<T extends FilterableItem>(lines: T[], filter: TranscriptFilter | undefined): T[] {
+  if (!filter || !isFilterActive(filter)) return lines;
+  return lines.filter(line => lineMatchesFilter(line, filter));
+}
+
+/**
+ * Info for the live line: explicit values first, otherwise the speaker and
+ * language of the last committed line (the live text usually continues it)
+ */
+export function resolveLiveLineInfo(liveInfo: LiveLineInfo | undefined, lines: TranscriptLine[]): LiveLineInfo {
+  let last: TranscriptLine | undefined;
+  for (let i = lines.length - 1; i >= 0 && !last; i--) {
+    if (!lines[i].isGap) last = lines[i];
+  }
+  return {
+    speaker: liveInfo?.speaker ?? last?.speaker,
+    language: liveInfo?.language ?? (last ? getDetectedLanguage(last) : undefined),
+  };
+}
+
+/**
+ * Speakers and detected languages available for filtering (order of appearance)
+ */
+export function getFilterOptions(lines: FilterableItem[]): FilterOptions {
+  const speakers = new Map<string, { label: string; name: string; color?: string }>();
+  const languages = new Set<string>();
+
+  lines.forEach(line => {
+    if (line.isGap) return;
+    if (line.speaker && !speakers.has(line.speaker)) {
+      speakers.set(line.speaker, {
+        label: line.speaker,
+        name: formatSpeakerName(line.speaker, line.speakerName),
+        color: line.speakerColor,
+      });
+    }
+    const language = getDetectedLanguage(line);
+    if (language) languages.add(language);
+  });
+
+  return { speakers: Array.from(speakers.values()), languages: Array.from(languages) };
+}
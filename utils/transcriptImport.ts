@@ -0,0 +1,285 @@
+/**
+ * Transcript Import
+ *
+ * Reads JSON documents written by exportAsJSON back into transcript lines,
+ * so exported sessions can be viewed, searched and re-exported.
+ *
+ * Validation:
+ * - The document must be JSON with a "version" and a "translations" array
+ * - Documents from a newer major version are rejected with a clear message
+ *   (their structure may have changed); newer minor versions are accepted
+ *   and unknown fields are ignored
+ * - Version 2 documents are checked against the v2 schema (exportSchema.ts);
+ *   version 1 lines need text and a numeric timestamp
+ */
+
+import { TranscriptLine, TranslationMode } from '@/hooks/useTranslator';
+import { generateLineId, TokenDetail } from '@/utils/tokenParser';
+import { EXPORT_SCHEMA_VERSION, validateTranscriptExportV2, ExportLineV2, ExportTokenV2 } from '@/utils/exportSchema';
+import { DEFAULT_SOURCE_LANGUAGE, DEFAULT_TARGET_LANGUAGE } from '@/utils/languages';
+
+// Highest major version this importer understands
+export const SUPPORTED_EXPORT_MAJOR_VERSION = 2;
+
+// Largest file accepted for import
+export const MAX_IMPORT_FILE_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Transcript recovered from an export file
+ */
+export interface ImportedTranscript {
+  version: string;
+  name?: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  translationMode: TranslationMode;
+  committedTranslation: TranscriptLine[];
+  committedSource: TranscriptLine[];
+  startedAt: number;
+  endedAt: number;
+}
+
+export interface TranscriptImportResult {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+  transcript?: ImportedTranscript;
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parse a version string such as "1.0" into its major/minor parts
+ */
+function parseVersion(version: unknown): { major: number; minor: number } | null {
+  if (typeof version !== 'string' && typeof version !== 'number') return null;
+  const match = /^(\d+)(?:\.(\d+))?/.exec(String(version));
+  if (!match) return null;
+  return { major: Number(match[1]), minor: Number(match[2] || 0) };
+}
+
+/**
+ * Infer the translation mode: conversation exports contain translations
+ * into the source language too
+ */
+function inferTranslationMode(translations: TranscriptLine[], sourceLanguage: string): TranslationMode {
+  return translations.some(line => line.language === sourceLanguage) ? 'two_way' : 'one_way';
+}
+
+/**
+ * Time span of the imported lines
+ */
+function getTimeSpan(lines: TranscriptLine[]): { startedAt: number; endedAt: number } {
+  const timestamps = lines.map(line => line.timestamp);
+  return { startedAt: Math.min(...timestamps), endedAt: Math.max(...timestamps) };
+}
+
+/**
+ * Convert an exported token (v2) back to token detail
+ */
+function fromExportToken(token: ExportTokenV2): TokenDetail {
+  return {
+    text: token.text,
+    is_final: token.is_final,
+    confidence: token.confidence ?? undefined,
+    start_ms: token.start_ms ?? undefined,
+    end_ms: token.end_ms ?? undefined,
+    speaker: token.speaker ?? undefined,
+    language: token.language ?? undefined,
+  };
+}
+
+/**
+ * Convert an exported line (v2) back to a transcript line
+ */
+function fromExportLine(line: ExportLineV2): TranscriptLine {
+  const result: TranscriptLine = { id: line.id, text: line.text, timestamp: line.timestamp };
+  if (line.speaker !== null) result.speaker = line.speaker;
+  if (typeof line.speakerName === 'string') result.speakerName = line.speakerName;
+  if (line.language !== null) result.language = line.language;
+  if (line.startMs !== null) result.startMs = line.startMs;
+  if (line.endMs !== null) result.endMs = line.endMs;
+  if (line.isGap) result.isGap = true;
+  if (line.tokens.length > 0) result.tokens = line.tokens.map(fromExportToken);
+  return result;
+}
+
+/**
+ * Validate and convert a parsed v2 export document
+ */
+function importVersion2(data: Record<string, any>, version: string): TranscriptImportResult {
+  const validation = validateTranscriptExportV2(data);
+  if (!validation.isValid) {
+    return { isValid: false, errors: validation.errors, warnings: [] };
+  }
+
+  const committedTranslation: TranscriptLine[] = data.translations.map((line: any) => {
+    const result = fromExportLine(line);
+    if (line.sourceLanguage !== null) result.sourceLanguage = line.sourceLanguage;
+    if (line.sourceLineIds.length > 0) result.sourceLineIds = line.sourceLineIds;
+    return result;
+  });
+  const committedSource: TranscriptLine[] = data.source.map(fromExportLine);
+
+  if (committedTranslation.length === 0 && committedSource.length === 0) {
+    return { isValid: false, errors: ['The file contains no transcript lines.'], warnings: [] };
+  }
+
+  const { sourceLanguage, targetLanguage } = data.metadata;
+  return {
+    isValid: true,
+    errors: [],
+    warnings: [],
+    transcript: {
+      version,
+      name: typeof data.metadata.session === 'string' ? data.metadata.session : undefined,
+      sourceLanguage,
+      targetLanguage,
+      translationMode: inferTranslationMode(committedTranslation, sourceLanguage),
+      committedTranslation,
+      committedSource,
+      ...getTimeSpan([...committedTranslation, ...committedSource]),
+    },
+  };
+}
+
+/**
+ * Validate and convert a parsed v1 export document
+ */
+function importVersion1(data: Record<string, any>, version: string): TranscriptImportResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!Array.isArray(data.translations)) {
+    return { isValid: false, errors: ['Missing "translations" list - this is not a TransLang export.'], warnings };
+  }
+
+  const metadata = isObject(data.metadata) ? data.metadata : {};
+  const sourceLanguage = typeof metadata.sourceLanguage === 'string' ? metadata.sourceLanguage : DEFAULT_SOURCE_LANGUAGE;
+  const targetLanguage = typeof metadata.targetLanguage === 'string' ? metadata.targetLanguage : DEFAULT_TARGET_LANGUAGE;
+
+  const committedTranslation: TranscriptLine[] = [];
+  const committedSource: TranscriptLine[] = [];
+
+  data.translations.forEach((entry: unknown, index: number) => {
+    if (!isObject(entry)) {
+      errors.push(`Line ${index + 1}: not an object.`);
+      return;
+    }
+    if (typeof entry.text !== 'string') {
+      errors.push(`Line ${index + 1}: "text" must be a string.`);
+      return;
+    }
+    if (typeof entry.timestamp !== 'number' || !Number.isFinite(entry.timestamp)) {
+      errors.push(`Line ${index + 1}: "timestamp" must be a number.`);
+      return;
+    }
+
+    const line: TranscriptLine = {
+      id: typeof entry.id === 'string' && entry.id ? entry.id : generateLineId(),
+      text: entry.text,
+      timestamp: entry.timestamp,
+      language: typeof entry.language === 'string' ? entry.language : targetLanguage,
+    };
+    if (typeof entry.speaker === 'string') {
+      line.speaker = entry.speaker;
+    }
+
+    // Consecutive translations of the same source segment share one source line
+    if (typeof entry.source === 'string' && entry.source.trim()) {
+      const previous = committedSource[committedSource.length - 1];
+      const previousTranslation = committedTranslation[committedTranslation.length - 1];
+      if (previous && previous.text === entry.source && previousTranslation?.sourceLineIds?.includes(previous.id)) {
+        line.sourceLineIds = [previous.id];
+      } else {
+        const sourceLine: TranscriptLine = {
+          id: generateLineId(),
+          text: entry.source,
+          timestamp: entry.timestamp,
+          speaker: line.speaker,
+          language: sourceLanguage,
+        };
+        committedSource.push(sourceLine);
+        line.sourceLineIds = [sourceLine.id];
+      }
+    }
+
+    committedTranslation.push(line);
+  });
+
+  if (committedTranslation.length === 0) {
+    errors.push('The file contains no transcript lines.');
+  }
+  if (errors.length > 0) {
+    return { isValid: false, errors, warnings };
+  }
+
+  return {
+    isValid: true,
+    errors,
+    warnings,
+    transcript: {
+      version,
+      name: typeof metadata.session === 'string' ? metadata.session : undefined,
+      sourceLanguage,
+      targetLanguage,
+      translationMode: inferTranslationMode(committedTranslation, sourceLanguage),
+      committedTranslation,
+      committedSource,
+      ...getTimeSpan(committedTranslation),
+    },
+  };
+}
+
+/**
+ * Validate an export document and convert it to transcript lines
+ */
+export function parseTranscriptExport(content: string): TranscriptImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return { isValid: false, errors: ['The file is not valid JSON.'], warnings: [] };
+  }
+
+  if (!isObject(data)) {
+    return { isValid: false, errors: ['Unexpected file contents - expected a TransLang JSON export.'], warnings: [] };
+  }
+
+  const version = parseVersion(data.version);
+  if (!version) {
+    return { isValid: false, errors: ['Missing or invalid "version" - this is not a TransLang export.'], warnings: [] };
+  }
+
+  if (version.major > SUPPORTED_EXPORT_MAJOR_VERSION) {
+    return {
+      isValid: false,
+      errors: [`This file uses export format ${data.version}, which is newer than this app supports (${SUPPORTED_EXPORT_MAJOR_VERSION}.x). Please update TransLang to import it.`],
+      warnings: [],
+    };
+  }
+  if (version.major < 1) {
+    return { isValid: false, errors: [`Unknown export format version ${data.version}.`], warnings: [] };
+  }
+
+  const result = version.major === 2
+    ? importVersion2(data, String(data.version))
+    : importVersion1(data, String(data.version));
+  // Newer minor version of the format this app writes: readable, but may carry unknown fields
+  const current = parseVersion(EXPORT_SCHEMA_VERSION)!;
+  if (result.isValid && version.major === current.major && version.minor > current.minor) {
+    result.warnings.push(`Export format ${data.version} is newer than this app; unknown fields were ignored.`);
+  }
+  return result;
+}
+
+/**
+ * Read and validate an export file
+ */
+export async function readTranscriptFile(file: File): Promise<TranscriptImportResult> {
+  if (file.size > MAX_IMPORT_FILE_BYTES) {
+    return { isValid: false, errors: ['The file is too large to import (maximum 20 MB).'], warnings: [] };
+  }
+  return parseTranscriptExport(await file.text());
+}
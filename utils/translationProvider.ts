@@ -0,0 +1,97 @@
+/**
+ * Translation Provider
+ *
+ * Engine-neutral interface between useTranslator and a speech-translation
+ * engine. A provider consumes an audio stream and emits events with
+ * normalized tokens (see Token in tokenParser), so the hook never deals
+ * with engine-specific clients or callbacks.
+ *
+ * One provider instance runs one session; the hook creates a new one per
+ * connection (and per additional target language).
+ */
+
+import { Token } from '@/utils/tokenParser';
+import { TranslatorTransport } from '@/types/soniox';
+
+/**
+ * One batch of tokens from the engine
+ * Non-final tokens are replaced by the next batch; final tokens are not repeated.
+ */
+export interface TranslatorResult {
+  tokens: Token[];
+  final_audio_proc_ms?: number;  // Audio time up to which tokens are final
+  total_audio_proc_ms?: number;  // Audio time processed so far
+}
+
+export type ProviderTranslation =
+  | { type: 'one_way'; targetLanguage: string }
+  | { type: 'two_way'; languageA: string; languageB: string };
+
+export interface ProviderStartOptions {
+  stream: MediaStream | null;              // null for providers that need no audio
+  translation: ProviderTranslation;
+  languageHints: string[];
+  context?: string;                        // Vocabulary/domain hints
+  enableLanguageIdentification?: boolean;  // Needed to route two-way translations
+  enableSpeakerDiarization?: boolean;
+  enableEndpointDetection?: boolean;
+}
+
+/**
+ * Error categories
+ * - access_denied: no credentials (sign-in required, rate limited) - not retried
+ * - connection:    network or streaming connection failed
+ * - api:           rejected by the engine (code holds the engine's error code)
+ * - media:         audio recording failed
+ * - queue_limit:   too much audio buffered before the connection opened
+ */
+export type ProviderErrorKind = 'access_denied' | 'connection' | 'api' | 'media' | 'queue_limit';
+
+export interface ProviderError {
+  kind: ProviderErrorKind;
+  message: string;
+  code?: number;
+}
+
+export type ProviderEvent =
+  | { type: 'started' }                              // Ready; audio is being translated
+  | { type: 'tokens'; result: TranslatorResult }
+  | { type: 'finished' }                             // All results delivered (after stop or end of input)
+  | { type: 'error'; error: ProviderError };         // Session is over
+
+export type ProviderEventListener = (event: ProviderEvent) => void;
+
+export interface TranslationProvider {
+  readonly name: string;
+
+  /** false if results do not come from audio (e.g., replay), so no input is captured; default true */
+  readonly needsAudio?: boolean;
+
+  /**
+   * Open a session and stream the audio; events go to the listener until
+   * 'finished', 'error' or cancel()
+   */
+  start(options: ProviderStartOptions, onEvent: ProviderEventListener): Promise<void>;
+
+  /** Graceful stop: deliver the remaining results, then 'finished' */
+  stop(): void;
+
+  /** Stop immediately without further events */
+  cancel(): void;
+
+  /** Make all pending (non-final) tokens final now */
+  finalize(): void;
+
+  /** Keep the session open while no speech is sent */
+  keepalive(): void;
+}
+
+/**
+ * App services a provider may use
+ */
+export interface ProviderContext {
+  fetchApiKey: () => Promise<string>;  // Temporary key from /api/soniox-temp-key
+  transport: TranslatorTransport;      // Direct connection or through the server relay
+}
+
+export type TranslationProviderFactory = (context: ProviderContext) => TranslationProvider;
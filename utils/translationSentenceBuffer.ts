@@ -10,16 +10,24 @@
  * - Detects sentence endings (., !, ?, …)
  * - Uses timeout as fallback (commits incomplete sentences after delay)
  * - Handles speaker transitions (flushes on speaker change)
+ * - Optionally keeps one stream per target language (two-way conversation mode)
+ * - Carries audio-time start/end for each sentence (from token timestamps, or
+ *   from the source speech when translation tokens have none)
  * 
  * Phase 8 Implementation
  */
 
-import { Token } from './tokenParser';
+import { Token, AudioTimeRange, getTokenTimeRange } from './tokenParser';
 
 export interface TranslationSentence {
   text: string;
   speaker?: string;
   isFinal: boolean;
+  language?: string;          // Language of the translated text
+  sourceLanguage?: string;    // Language the speech was translated from
+  startMs?: number;           // Audio time of the translated speech
+  endMs?: number;
+  tokens: Token[];            // Tokens the sentence was built from
 }
 
 export interface BufferConfig {
@@ -27,6 +35,7 @@ export interface BufferConfig {
   holdMs?: number;            // Wait time after potential sentence end
   maxHoldMs?: number;         // Maximum wait time before forcing commit
   maxChars?: number;          // Maximum sentence length before forcing commit
+  routeByLanguage?: boolean;  // Buffer each target language separately
 }
 
 const DEFAULT_CONFIG: Required<BufferConfig> = {
@@ -34,8 +43,32 @@ const DEFAULT_CONFIG: Required<BufferConfig> = {
   holdMs: 800,                // 800ms wait for additional tokens
   maxHoldMs: 2500,            // 2.5 seconds max hold (reduced premature splits)
   maxChars: 500,              // Max 500 characters per sentence
+  routeByLanguage: false,     // Single stream unless two-way mode is active
 };
 
+// Stream key used when tokens are not routed by language
+const DEFAULT_STREAM = 'default';
+
+/**
+ * Per-language buffering state
+ */
+interface SentenceStream {
+  tokens: Token[];
+  holdTimer: ReturnType<typeof setTimeout> | null;
+  holdStartTime: number;
+  lastEndMs: number;          // Audio time covered by previous sentences
+}
+
+/**
+ * Span of final source speech (used to time translations)
+ */
+interface SourceSpan extends AudioTimeRange {
+  language?: string;
+}
+
+// Maximum source spans kept for timing lookups
+const MAX_SOURCE_SPANS = 1000;
+
 // Sentence-ending punctuation patterns
 const SENTENCE_END_PATTERN = /[.!?…]["')\]]?\s*$/;
 
@@ -60,13 +93,15 @@ function normalizeText(text: string): string {
  * Translation Sentence Buffer
  * 
  * Accumulates translation tokens and commits complete sentences.
+ * When routeByLanguage is enabled, tokens are routed by their `language`
+ * (the translation target) so each direction of a two-way conversation
+ * forms its own sentences.
  */
 export class TranslationSentenceBuffer {
   private config: Required<BufferConfig>;
-  private buffer: Token[] = [];
+  private streams: Map<string, SentenceStream> = new Map();
+  private sourceSpans: SourceSpan[] = [];
   private currentSpeaker: string | null = null;
-  private holdTimer: ReturnType<typeof setTimeout> | null = null;
-  private holdStartTime = 0;
   
   constructor(
     private onCommit: (sentence: TranslationSentence) => void,
@@ -96,7 +131,7 @@ export class TranslationSentenceBuffer {
   updateSpeaker(speaker: string | undefined): void {
     if (speaker && speaker !== this.currentSpeaker) {
       // Speaker changed - flush any pending content for previous speaker
-      if (this.buffer.length > 0) {
+      if (this.hasBufferedTokens()) {
         console.log(`🔄 Speaker change detected: ${this.currentSpeaker} → ${speaker}, flushing buffer`);
         this.flush(true);
       }
@@ -105,6 +140,30 @@ export class TranslationSentenceBuffer {
     }
   }
 
+  /**
+   * Record timing of final source (original) tokens
+   * Translation tokens carry no timestamps, so sentences are timed by the
+   * source speech that arrived since the previous sentence of their stream.
+   */
+  addSourceTiming(tokens: Token[]): void {
+    const finalSource = tokens.filter(t => t.is_final && t.translation_status === 'original');
+    const byLanguage = new Map<string | undefined, Token[]>();
+    finalSource.forEach(token => {
+      byLanguage.set(token.language, [...(byLanguage.get(token.language) || []), token]);
+    });
+
+    byLanguage.forEach((languageTokens, language) => {
+      const range = getTokenTimeRange(languageTokens);
+      if (range) {
+        this.sourceSpans.push({ ...range, language });
+      }
+    });
+
+    if (this.sourceSpans.length > MAX_SOURCE_SPANS) {
+      this.sourceSpans.splice(0, this.sourceSpans.length - MAX_SOURCE_SPANS);
+    }
+  }
+
   /**
    * Add translation tokens to buffer
    * Accumulates tokens and decides when to commit complete sentences
@@ -112,33 +171,39 @@ export class TranslationSentenceBuffer {
   addTranslationTokens(tokens: Token[]): void {
     if (!this.config.enabled) {
       // Buffer disabled - commit immediately
-      const text = tokens.map(t => t.text).join('');
-      if (text.trim()) {
-        this.commitDirect(text);
-      }
+      this.groupByStream(tokens).forEach((streamTokens, key) => {
+        const text = streamTokens.map(t => t.text).join('');
+        if (text.trim()) {
+          this.commitDirect(text, streamTokens, key);
+        }
+      });
       return;
     }
 
     if (tokens.length === 0) return;
 
-    // Add new tokens to buffer
-    this.buffer.push(...tokens);
-
-    // Get current buffered text
-    const bufferedText = this.getBufferedText();
-    
-    console.log(`📝 Translation buffer: "${bufferedText.substring(0, 100)}${bufferedText.length > 100 ? '...' : ''}" (${this.buffer.length} tokens)`);
-
-    // Check if we should commit now
-    const shouldCommit = this.shouldCommitNow(bufferedText);
-    
-    if (shouldCommit) {
-      console.log('✅ Sentence boundary detected, committing translation');
-      this.commitBuffer();
-    } else {
-      // Start/restart hold timer
-      this.startHoldTimer();
-    }
+    this.groupByStream(tokens).forEach((streamTokens, key) => {
+      const stream = this.getStream(key);
+
+      // Add new tokens to buffer
+      stream.tokens.push(...streamTokens);
+
+      // Get current buffered text
+      const bufferedText = this.getBufferedText(stream);
+      
+      console.log(`📝 Translation buffer [${key}]: "${bufferedText.substring(0, 100)}${bufferedText.length > 100 ? '...' : ''}" (${stream.tokens.length} tokens)`);
+
+      // Check if we should commit now
+      const shouldCommit = this.shouldCommitNow(bufferedText);
+      
+      if (shouldCommit) {
+        console.log('✅ Sentence boundary detected, committing translation');
+        this.commitBuffer(key);
+      } else {
+        // Start/restart hold timer
+        this.startHoldTimer(key);
+      }
+    });
   }
 
   /**
@@ -149,43 +214,133 @@ export class TranslationSentenceBuffer {
       return partialTokens ? partialTokens.map(t => t.text).join('') : '';
     }
 
-    const buffered = this.getBufferedText();
+    const buffered = Array.from(this.streams.values())
+      .map(stream => this.getBufferedText(stream))
+      .filter(Boolean)
+      .join(' ');
     const partial = partialTokens ? partialTokens.map(t => t.text).join('') : '';
     
     return normalizeText([buffered, partial].filter(Boolean).join(' '));
   }
 
+  /**
+   * Get live preview text per target language (buffered + partial tokens)
+   */
+  getLivePreviewByLanguage(partialTokens: Token[] = []): Record<string, string> {
+    const previews: Record<string, string> = {};
+    const partialByStream = this.groupByStream(partialTokens);
+    const keys = new Set([...Array.from(this.streams.keys()), ...Array.from(partialByStream.keys())]);
+
+    keys.forEach((key) => {
+      const stream = this.streams.get(key);
+      const buffered = stream && this.config.enabled ? this.getBufferedText(stream) : '';
+      const partial = (partialByStream.get(key) || []).map(t => t.text).join('');
+      const preview = normalizeText([buffered, partial].filter(Boolean).join(' '));
+
+      if (preview) {
+        previews[key] = preview;
+      }
+    });
+
+    return previews;
+  }
+
   /**
    * Force flush buffer (commit whatever is accumulated)
    */
   flush(force = false): void {
-    if (this.buffer.length === 0) return;
+    this.streams.forEach((stream, key) => {
+      if (stream.tokens.length === 0) return;
 
-    const elapsed = performance.now() - this.holdStartTime;
-    const shouldFlush = force || elapsed >= this.config.maxHoldMs;
+      const elapsed = performance.now() - stream.holdStartTime;
+      const shouldFlush = force || elapsed >= this.config.maxHoldMs;
 
-    if (shouldFlush) {
-      console.log(`🔄 Flushing translation buffer (force: ${force}, elapsed: ${Math.round(elapsed)}ms)`);
-      this.commitBuffer();
-    }
+      if (shouldFlush) {
+        console.log(`🔄 Flushing translation buffer [${key}] (force: ${force}, elapsed: ${Math.round(elapsed)}ms)`);
+        this.commitBuffer(key);
+      }
+    });
   }
 
   /**
    * Reset buffer (clear all state)
    */
   reset(): void {
-    this.clearTimer();
-    this.buffer = [];
+    this.streams.forEach(stream => this.clearTimer(stream));
+    this.streams.clear();
+    this.sourceSpans = [];
     this.currentSpeaker = null;
-    this.holdStartTime = 0;
     console.log('🗑️ Translation buffer reset');
   }
 
+  /**
+   * Check if any stream holds uncommitted tokens
+   */
+  private hasBufferedTokens(): boolean {
+    return Array.from(this.streams.values()).some(stream => stream.tokens.length > 0);
+  }
+
+  /**
+   * Group tokens by stream key, preserving order within each stream
+   */
+  private groupByStream(tokens: Token[]): Map<string, Token[]> {
+    const groups = new Map<string, Token[]>();
+
+    for (const token of tokens) {
+      const key = this.config.routeByLanguage ? (token.language || DEFAULT_STREAM) : DEFAULT_STREAM;
+      if (!groups.has(key)) {
+        groups.set(key, []);
+      }
+      groups.get(key)!.push(token);
+    }
+
+    return groups;
+  }
+
+  /**
+   * Get (or create) the stream for a key
+   */
+  private getStream(key: string): SentenceStream {
+    let stream = this.streams.get(key);
+    if (!stream) {
+      stream = { tokens: [], holdTimer: null, holdStartTime: 0, lastEndMs: -1 };
+      this.streams.set(key, stream);
+    }
+    return stream;
+  }
+
+  /**
+   * Resolve the audio-time span of a sentence and advance the stream clock
+   */
+  private resolveTiming(stream: SentenceStream, tokens: Token[]): AudioTimeRange | undefined {
+    let range = getTokenTimeRange(tokens);
+
+    if (!range) {
+      // Fall back to source speech received since the previous sentence
+      const sourceLanguage = tokens[0]?.source_language;
+      const spans = this.sourceSpans.filter(span =>
+        span.endMs > stream.lastEndMs &&
+        (!sourceLanguage || !span.language || span.language === sourceLanguage)
+      );
+      if (spans.length > 0) {
+        range = {
+          startMs: Math.max(stream.lastEndMs, Math.min(...spans.map(span => span.startMs))),
+          endMs: Math.max(...spans.map(span => span.endMs)),
+        };
+      }
+    }
+
+    if (range) {
+      stream.lastEndMs = Math.max(stream.lastEndMs, range.endMs);
+    }
+    return range;
+  }
+
   /**
    * Get buffered text
    */
-  private getBufferedText(): string {
-    return this.buffer.map(t => t.text).join('');
+  private getBufferedText(stream: SentenceStream): string {
+    return stream.tokens.map(t => t.text).join('');
   }
 
   /**
@@ -212,71 +367,88 @@ export class TranslationSentenceBuffer {
   /**
    * Start/restart hold timer
    */
-  private startHoldTimer(): void {
-    this.clearTimer();
-    this.holdStartTime = performance.now();
+  private startHoldTimer(key: string): void {
+    const stream = this.getStream(key);
+    this.clearTimer(stream);
+    stream.holdStartTime = performance.now();
     
     // Only force-commit after maxHoldMs (not holdMs) to avoid breaking
     // sentences on brief pauses or hesitations.
-    this.holdTimer = setTimeout(() => {
+    stream.holdTimer = setTimeout(() => {
       console.log(`⏱️ Max hold timer expired (${this.config.maxHoldMs}ms), committing buffer`);
-      this.commitBuffer();
+      this.commitBuffer(key);
     }, this.config.maxHoldMs);
   }
 
   /**
    * Clear hold timer
    */
-  private clearTimer(): void {
-    if (this.holdTimer) {
-      clearTimeout(this.holdTimer);
-      this.holdTimer = null;
+  private clearTimer(stream: SentenceStream): void {
+    if (stream.holdTimer) {
+      clearTimeout(stream.holdTimer);
+      stream.holdTimer = null;
     }
   }
 
   /**
    * Commit buffered tokens as a complete sentence
    */
-  private commitBuffer(): void {
-    this.clearTimer();
+  private commitBuffer(key: string): void {
+    const stream = this.streams.get(key);
+    if (!stream) return;
+
+    this.clearTimer(stream);
     
-    if (this.buffer.length === 0) return;
+    if (stream.tokens.length === 0) return;
 
-    const text = normalizeText(this.getBufferedText());
+    const text = normalizeText(this.getBufferedText(stream));
     
     if (!text) {
-      this.buffer = [];
+      stream.tokens = [];
       return;
     }
 
     // Determine if sentence is final (all tokens are final)
-    const isFinal = this.buffer.every(t => t.is_final);
+    const isFinal = stream.tokens.every(t => t.is_final);
+
+    const timing = this.resolveTiming(stream, stream.tokens);
 
     const sentence: TranslationSentence = {
       text,
       speaker: this.currentSpeaker || undefined,
       isFinal,
+      language: stream.tokens[0].language,
+      sourceLanguage: stream.tokens[0].source_language,
+      startMs: timing?.startMs,
+      endMs: timing?.endMs,
+      tokens: stream.tokens,
     };
 
+    // Clear buffer before notifying so re-entrant flushes see an empty stream
+    stream.tokens = [];
+
     // Commit the sentence
     this.onCommit(sentence);
-
-    // Clear buffer
-    this.buffer = [];
   }
 
   /**
    * Commit text directly without buffering (when disabled)
    */
-  private commitDirect(text: string): void {
+  private commitDirect(text: string, tokens: Token[], key: string): void {
     const normalized = normalizeText(text);
     if (!normalized) return;
 
+    const timing = this.resolveTiming(this.getStream(key), tokens);
+
     this.onCommit({
       text: normalized,
       speaker: this.currentSpeaker || undefined,
       isFinal: true,
+      language: tokens[0].language,
+      sourceLanguage: tokens[0].source_language,
+      startMs: timing?.startMs,
+      endMs: timing?.endMs,
+      tokens,
     });
   }
 }
-
@@ -8,6 +8,8 @@
  * Phase 3 Implementation
  */
 
+import type { FvadModule } from '@echogarden/fvad-wasm';
+
 export interface VADConfig {
   sampleRate: number;
   frameDuration: 10 | 20 | 30; // milliseconds
@@ -17,8 +19,10 @@ export interface VADConfig {
 }
 
 export interface VADResult {
-  isSpeech: boolean;
-  silenceDuration: number;
+  isSpeech: boolean; // Majority of frames in this chunk were speech (last decision if no complete frame)
+  speechRatio: number; // Fraction of frames classified as speech (0-1)
+  frameDecisions: boolean[]; // Per-frame speech decisions, in order
+  silenceDuration: number; // Audio time (ms) of the current silence
   shouldFinalize: boolean;
 }
 
@@ -33,13 +37,23 @@ export const DEFAULT_VAD_CONFIG: VADConfig = {
 /**
  * VAD Manager Class
  * 
- * Handles initialization, frame processing, and silence detection
+ * Handles initialization, frame processing, and silence detection.
+ * Accepts PCM chunks of any length: input is sliced into exact
+ * frameDuration-sized frames, with leftover samples carried to the next call.
+ * Timing is measured in audio time (frames processed), not wall clock.
+ * Finalization fires once per silence (speech must resume before the next one).
  */
 export class VADManager {
-  private vad: any = null;
+  private fvad: FvadModule | null = null;
+  private handle: number = 0;    // fvad instance
+  private framePtr: number = 0;  // Frame buffer in WASM memory
   private config: VADConfig;
+  private remainder: Int16Array = new Int16Array(0);
+  private audioTimeMs: number = 0;
   private silenceStartTime: number | null = null;
-  private lastFinalizeTime: number = 0;
+  private lastFinalizeTime: number | null = null;
+  private finalizedThisSilence: boolean = false;
+  private lastDecision: boolean = false;
   private isInitialized: boolean = false;
 
   constructor(config: Partial<VADConfig> = {}) {
@@ -58,15 +72,25 @@ export class VADManager {
     try {
       console.log('🎙️ Initializing VAD...');
       
-      // Dynamically import VAD library (browser-only)
-      const { Vad } = await import('@echogarden/fvad-wasm');
-      
-      // Initialize VAD with configuration
-      this.vad = await Vad.create({
-        sampleRate: this.config.sampleRate,
-        frameDuration: this.config.frameDuration,
-        mode: this.config.mode,
-      });
+      // Dynamically import VAD library (WASM, loaded on demand)
+      const { default: createFvadModule } = await import('@echogarden/fvad-wasm');
+      const fvad = await createFvadModule();
+
+      // Create a detector instance with configuration
+      const handle = fvad._fvad_new();
+      if (!handle) {
+        throw new Error('fvad_new failed');
+      }
+      if (fvad._fvad_set_sample_rate(handle, this.config.sampleRate) !== 0 ||
+          fvad._fvad_set_mode(handle, this.config.mode) !== 0) {
+        fvad._fvad_free(handle);
+        throw new Error(`Unsupported VAD settings (${this.config.sampleRate}Hz, mode ${this.config.mode})`);
+      }
+
+      const frameSize = calculateFrameSize(this.config.sampleRate, this.config.frameDuration);
+      this.fvad = fvad;
+      this.handle = handle;
+      this.framePtr = fvad._malloc(frameSize * Int16Array.BYTES_PER_ELEMENT);
 
       this.isInitialized = true;
       console.log('✅ VAD initialized successfully');
@@ -81,13 +105,13 @@ export class VADManager {
   }
 
   /**
-   * Process audio frame and detect speech/silence
+   * Process audio and detect speech/silence
    * 
-   * @param audioData - PCM audio data (Int16Array or Float32Array)
-   * @returns VAD result with speech detection and finalization recommendation
+   * @param audioData - PCM audio data of any length (Int16Array or Float32Array)
+   * @returns VAD result with per-frame decisions and finalization recommendation
    */
   processFrame(audioData: Int16Array | Float32Array): VADResult {
-    if (!this.isInitialized || !this.vad) {
+    if (!this.isInitialized || !this.fvad) {
       throw new Error('VAD not initialized. Call initialize() first.');
     }
 
@@ -96,49 +120,96 @@ export class VADManager {
       ? this.float32ToInt16(audioData)
       : audioData;
 
-    // Detect speech in frame
-    const isSpeech = this.vad.processFrame(pcmData);
+    // Prepend samples left over from the previous call
+    const samples = new Int16Array(this.remainder.length + pcmData.length);
+    samples.set(this.remainder);
+    samples.set(pcmData, this.remainder.length);
 
-    const now = Date.now();
-    let silenceDuration = 0;
+    const frameSize = calculateFrameSize(this.config.sampleRate, this.config.frameDuration);
+    const frameDecisions: boolean[] = [];
     let shouldFinalize = false;
 
+    let offset = 0;
+    for (; offset + frameSize <= samples.length; offset += frameSize) {
+      const isSpeech = this.classifyFrame(samples.subarray(offset, offset + frameSize));
+      frameDecisions.push(isSpeech);
+      this.audioTimeMs += this.config.frameDuration;
+
+      if (this.updateSilenceClock(isSpeech)) {
+        shouldFinalize = true;
+      }
+    }
+
+    // Keep incomplete frame for the next call
+    this.remainder = samples.slice(offset);
+
+    const speechFrames = frameDecisions.filter(Boolean).length;
+    const speechRatio = frameDecisions.length > 0 ? speechFrames / frameDecisions.length : 0;
+
+    return {
+      isSpeech: frameDecisions.length > 0 ? speechRatio >= 0.5 : this.lastDecision,
+      speechRatio,
+      frameDecisions,
+      silenceDuration: this.silenceStartTime === null ? 0 : this.audioTimeMs - this.silenceStartTime,
+      shouldFinalize,
+    };
+  }
+
+  /**
+   * Run fvad on one exact frame
+   */
+  private classifyFrame(frame: Int16Array): boolean {
+    const fvad = this.fvad!;
+    // HEAP16 is replaced when WASM memory grows, so read it on every call
+    fvad.HEAP16.set(frame, this.framePtr / Int16Array.BYTES_PER_ELEMENT);
+    const result = fvad._fvad_process(this.handle, this.framePtr, frame.length);
+    if (result < 0) {
+      throw new Error('fvad_process failed (invalid frame length)');
+    }
+    return result === 1;
+  }
+
+  /**
+   * Advance the silence clock with one frame decision
+   * 
+   * @returns true if the silence threshold was reached on this frame
+   */
+  private updateSilenceClock(isSpeech: boolean): boolean {
+    this.lastDecision = isSpeech;
+
     if (isSpeech) {
       // Speech detected - reset silence timer
       if (this.silenceStartTime !== null) {
         console.log('🗣️ Speech resumed after silence');
       }
       this.silenceStartTime = null;
-      silenceDuration = 0;
-    } else {
-      // Silence detected
-      if (this.silenceStartTime === null) {
-        // Start of silence
-        this.silenceStartTime = now;
-        console.log('🤫 Silence started');
-      } else {
-        // Continuing silence - calculate duration
-        silenceDuration = now - this.silenceStartTime;
-
-        // Check if silence duration exceeds threshold
-        if (silenceDuration >= this.config.silenceThreshold) {
-          // Check if enough time has passed since last finalization (debounce)
-          const timeSinceLastFinalize = now - this.lastFinalizeTime;
-          
-          if (timeSinceLastFinalize >= this.config.debounceDelay) {
-            shouldFinalize = true;
-            this.lastFinalizeTime = now;
-            console.log(`⏸️ Silence threshold reached (${silenceDuration}ms) - should finalize`);
-          }
-        }
-      }
+      this.finalizedThisSilence = false;
+      return false;
     }
 
-    return {
-      isSpeech,
-      silenceDuration,
-      shouldFinalize,
-    };
+    if (this.silenceStartTime === null) {
+      // Start of silence (at the beginning of this frame)
+      this.silenceStartTime = this.audioTimeMs - this.config.frameDuration;
+      console.log('🤫 Silence started');
+      return false;
+    }
+
+    // Continuing silence - check threshold (once per silence)
+    const silenceDuration = this.audioTimeMs - this.silenceStartTime;
+    if (this.finalizedThisSilence || silenceDuration < this.config.silenceThreshold) {
+      return false;
+    }
+
+    // Check if enough audio has passed since last finalization (debounce)
+    if (this.lastFinalizeTime !== null &&
+        this.audioTimeMs - this.lastFinalizeTime < this.config.debounceDelay) {
+      return false;
+    }
+
+    this.lastFinalizeTime = this.audioTimeMs;
+    this.finalizedThisSilence = true;
+    console.log(`⏸️ Silence threshold reached (${silenceDuration}ms) - should finalize`);
+    return true;
   }
 
   /**
@@ -174,8 +245,13 @@ export class VADManager {
    * Reset VAD state
    */
   reset(): void {
+    this.remainder = new Int16Array(0);
+    this.audioTimeMs = 0;
     this.silenceStartTime = null;
-    this.lastFinalizeTime = 0;
+    this.lastFinalizeTime = null;
+    this.finalizedThisSilence = false;
+    this.lastDecision = false;
+    this.fvad?._fvad_reset(this.handle);
     console.log('🔄 VAD state reset');
   }
 
@@ -183,10 +259,13 @@ export class VADManager {
    * Cleanup and destroy VAD instance
    */
   async destroy(): Promise<void> {
-    if (this.vad) {
+    if (this.fvad) {
       try {
-        await this.vad.destroy();
-        this.vad = null;
+        this.fvad._free(this.framePtr);
+        this.fvad._fvad_free(this.handle);
+        this.fvad = null;
+        this.handle = 0;
+        this.framePtr = 0;
         this.isInitialized = false;
         console.log('🗑️ VAD destroyed');
       } catch (error) {
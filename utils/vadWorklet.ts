@@ -0,0 +1,274 @@
+/**
+ * VAD AudioWorklet
+ *
+ * Runs frame slicing and speech detection (fvad) on the audio rendering
+ * thread, so finalization on silence is not delayed by a busy main thread.
+ *
+ * The processor:
+ * - Instantiates the fvad WASM module compiled on the main thread
+ *   (WASM cannot be fetched from AudioWorkletGlobalScope, but a compiled
+ *   WebAssembly.Module can be posted to it)
+ * - Slices input into exact frameDuration-sized frames
+ * - Measures silence in audio time (frames processed, not wall clock)
+ * - Posts speech/silence/finalize events back to the main thread
+ */
+
+import { VADConfig, DEFAULT_VAD_CONFIG } from './vadManager';
+
+export const VAD_PROCESSOR_NAME = 'vad-processor';
+
+export type VADWorkletEvent =
+  | {
+      type: 'speech' | 'silence' | 'finalize';
+      audioTimeMs: number; // Audio processed since the worklet started (ms)
+      speechRatio: number; // Fraction of speech frames over the last silenceThreshold of audio (0-1)
+    }
+  | { type: 'error'; message: string };
+
+export type VADWorkletMessage = { type: 'init'; module: WebAssembly.Module };
+
+export interface VADWorkletOptions {
+  frameDuration: VADConfig['frameDuration'];
+  mode: VADConfig['mode'];
+  silenceThreshold: number;
+  debounceDelay: number;
+}
+
+// fvad.wasm import/export names (minified by Emscripten, @echogarden/fvad-wasm 0.2.0)
+const FVAD_WASM_NAMES = {
+  imports: { module: 'a', assertFail: 'a', resizeHeap: 'b' },
+  exports: {
+    memory: 'c',
+    callCtors: 'd',
+    fvadNew: 'e',
+    malloc: 'f',
+    fvadSetMode: 'j',
+    fvadSetSampleRate: 'k',
+    fvadProcess: 'l',
+  },
+};
+
+// Processor source, loaded from a Blob URL (worklets are separate modules)
+const VAD_PROCESSOR_SOURCE = `
+const FVAD = ${JSON.stringify(FVAD_WASM_NAMES)};
+
+class VADProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const opts = options.processorOptions || {};
+    this.frameDuration = opts.frameDuration || 30;
+    this.mode = opts.mode ?? 3;
+    this.silenceThreshold = opts.silenceThreshold || 800;
+    this.debounceDelay = opts.debounceDelay || 300;
+    this.frameSize = Math.round((sampleRate * this.frameDuration) / 1000);
+    this.frameFill = 0;
+
+    // Recent frame decisions, for speechRatio
+    this.recent = new Uint8Array(Math.max(1, Math.round(this.silenceThreshold / this.frameDuration)));
+    this.recentIndex = 0;
+    this.recentCount = 0;
+    this.recentSpeech = 0;
+
+    this.audioTimeMs = 0;
+    this.silenceStartMs = null;
+    this.lastFinalizeMs = null;
+    this.finalizedThisSilence = false;
+    this.inSpeech = false;
+    this.fvad = null;
+
+    this.port.onmessage = (event) => {
+      if (event.data && event.data.type === 'init') {
+        try {
+          this.fvad = this.createDetector(event.data.module);
+        } catch (error) {
+          this.port.postMessage({ type: 'error', message: String(error && error.message || error) });
+        }
+      }
+    };
+  }
+
+  createDetector(module) {
+    let memory = null;
+    const instance = new WebAssembly.Instance(module, {
+      [FVAD.imports.module]: {
+        [FVAD.imports.assertFail]: () => { throw new Error('fvad assertion failed'); },
+        [FVAD.imports.resizeHeap]: (requestedSize) => {
+          const pages = Math.ceil(((requestedSize >>> 0) - memory.buffer.byteLength) / 65536);
+          try {
+            memory.grow(pages);
+            return 1;
+          } catch {
+            return 0;
+          }
+        },
+      },
+    });
+    const exports = instance.exports;
+    memory = exports[FVAD.exports.memory];
+    exports[FVAD.exports.callCtors]();
+
+    const handle = exports[FVAD.exports.fvadNew]();
+    if (!handle) {
+      throw new Error('fvad_new failed');
+    }
+    if (exports[FVAD.exports.fvadSetSampleRate](handle, sampleRate) !== 0 ||
+        exports[FVAD.exports.fvadSetMode](handle, this.mode) !== 0) {
+      throw new Error('Unsupported VAD settings (' + sampleRate + 'Hz, mode ' + this.mode + ')');
+    }
+
+    return {
+      memory,
+      handle,
+      process: exports[FVAD.exports.fvadProcess],
+      framePtr: exports[FVAD.exports.malloc](this.frameSize * 2),
+      heap16: new Int16Array(memory.buffer),
+    };
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel || !this.fvad) return true;
+
+    const fvad = this.fvad;
+    // The heap view is detached when WASM memory grows
+    if (fvad.heap16.buffer !== fvad.memory.buffer) {
+      fvad.heap16 = new Int16Array(fvad.memory.buffer);
+    }
+    const frameOffset = fvad.framePtr >> 1;
+
+    // Convert straight into the WASM frame buffer, classifying each full frame
+    for (let i = 0; i < channel.length; i++) {
+      const s = Math.max(-1, Math.min(1, channel[i]));
+      fvad.heap16[frameOffset + this.frameFill++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+
+      if (this.frameFill === this.frameSize) {
+        this.frameFill = 0;
+        const result = fvad.process(fvad.handle, fvad.framePtr, this.frameSize);
+        if (result >= 0) {
+          this.handleDecision(result === 1);
+        }
+      }
+    }
+    return true;
+  }
+
+  handleDecision(isSpeech) {
+    this.audioTimeMs += this.frameDuration;
+
+    this.recentSpeech += (isSpeech ? 1 : 0) - this.recent[this.recentIndex];
+    this.recent[this.recentIndex] = isSpeech ? 1 : 0;
+    this.recentIndex = (this.recentIndex + 1) % this.recent.length;
+    this.recentCount = Math.min(this.recentCount + 1, this.recent.length);
+
+    if (isSpeech) {
+      this.silenceStartMs = null;
+      this.finalizedThisSilence = false;
+      if (!this.inSpeech) {
+        this.inSpeech = true;
+        this.emit('speech');
+      }
+      return;
+    }
+
+    if (this.silenceStartMs === null) {
+      // Start of silence (at the beginning of this frame)
+      this.silenceStartMs = this.audioTimeMs - this.frameDuration;
+      if (this.inSpeech) {
+        this.inSpeech = false;
+        this.emit('silence');
+      }
+      return;
+    }
+
+    // Continuing silence - finalize once per silence, with debounce
+    if (this.finalizedThisSilence || this.audioTimeMs - this.silenceStartMs < this.silenceThreshold) {
+      return;
+    }
+    if (this.lastFinalizeMs !== null && this.audioTimeMs - this.lastFinalizeMs < this.debounceDelay) {
+      return;
+    }
+
+    this.lastFinalizeMs = this.audioTimeMs;
+    this.finalizedThisSilence = true;
+    this.emit('finalize');
+  }
+
+  emit(type) {
+    this.port.postMessage({
+      type,
+      audioTimeMs: this.audioTimeMs,
+      speechRatio: this.recentCount > 0 ? this.recentSpeech / this.recentCount : 0,
+    });
+  }
+}
+
+registerProcessor('${VAD_PROCESSOR_NAME}', VADProcessor);
+`;
+
+let fvadModulePromise: Promise<WebAssembly.Module> | null = null;
+
+/**
+ * Compile the fvad WASM module (once per page; the result is reused)
+ */
+export function compileFvadModule(): Promise<WebAssembly.Module> {
+  if (!fvadModulePromise) {
+    const wasmUrl = new URL('@echogarden/fvad-wasm/fvad.wasm', import.meta.url);
+    fvadModulePromise = fetch(wasmUrl)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to fetch fvad.wasm: ${response.status}`);
+        }
+        return response.arrayBuffer();
+      })
+      .then((bytes) => WebAssembly.compile(bytes))
+      .catch((error) => {
+        fvadModulePromise = null; // Allow a retry on the next session
+        throw error;
+      });
+  }
+  return fvadModulePromise;
+}
+
+/**
+ * Register the VAD processor on an audio context
+ */
+export async function loadVADWorklet(audioContext: AudioContext): Promise<void> {
+  const blob = new Blob([VAD_PROCESSOR_SOURCE], { type: 'application/javascript' });
+  const url = URL.createObjectURL(blob);
+  try {
+    await audioContext.audioWorklet.addModule(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Create a VAD worklet node (call loadVADWorklet first)
+ *
+ * The node detects nothing until it receives the compiled fvad module.
+ */
+export function createVADWorkletNode(
+  audioContext: AudioContext,
+  fvadModule: WebAssembly.Module,
+  options: Partial<VADWorkletOptions> = {}
+): AudioWorkletNode {
+  const processorOptions: VADWorkletOptions = {
+    frameDuration: DEFAULT_VAD_CONFIG.frameDuration,
+    mode: DEFAULT_VAD_CONFIG.mode,
+    silenceThreshold: DEFAULT_VAD_CONFIG.silenceThreshold,
+    debounceDelay: DEFAULT_VAD_CONFIG.debounceDelay,
+    ...options,
+  };
+
+  const node = new AudioWorkletNode(audioContext, VAD_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1, // Connected to the destination (outputs silence) so the graph pulls it
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions,
+  });
+
+  const init: VADWorkletMessage = { type: 'init', module: fvadModule };
+  node.port.postMessage(init);
+  return node;
+}